@@ -2,15 +2,26 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import * as fs from 'node:fs/promises';
 import type { ProviderConfig } from './types/index.js';
+import type { CardDAVServerConfig } from './dav/server.js';
+import type { RemoteConfig } from './sync/replication.js';
 
 export interface AppConfig {
   storePath: string;
   providers: ProviderConfig[];
+  /** Serve the store over CardDAV while the MCP server runs */
+  carddavServer?: CardDAVServerConfig & { enabled?: boolean };
+  /** Git remote for push_store / pull_store */
+  remote?: RemoteConfig;
+  /**
+   * Modules adding provider types: npm package names, or paths (relative to
+   * config.json) to modules exporting `providers`
+   */
+  plugins?: string[];
 }
 
 const DEFAULT_STORE_PATH = path.join(os.homedir(), '.contacts-mcp', 'store');
 
-function expandTilde(filepath: string): string {
+export function expandTilde(filepath: string): string {
   if (filepath.startsWith('~/') || filepath === '~') {
     return path.join(os.homedir(), filepath.slice(1));
   }
@@ -24,6 +35,9 @@ export async function loadConfig(): Promise<AppConfig> {
   const storePath = process.env.CONTACTS_MCP_STORE ?? DEFAULT_STORE_PATH;
 
   let providers: ProviderConfig[] = [];
+  let carddavServer: AppConfig['carddavServer'];
+  let plugins: string[] | undefined;
+  let remote: RemoteConfig | undefined;
   let resolvedStorePath = storePath;
 
   try {
@@ -33,9 +47,26 @@ export async function loadConfig(): Promise<AppConfig> {
       resolvedStorePath = expandTilde(parsed.storePath);
     }
     providers = parsed.providers ?? [];
+    carddavServer = parsed.carddavServer;
+    remote = parsed.remote;
+    if (Array.isArray(parsed.plugins)) {
+      plugins = parsed.plugins.map((plugin: string) => resolvePlugin(plugin, path.dirname(configPath)));
+    }
   } catch {
     // No config file yet - that's fine, use defaults
   }
 
-  return { storePath: resolvedStorePath, providers };
+  return {
+    storePath: resolvedStorePath,
+    providers,
+    ...(carddavServer ? { carddavServer } : {}),
+    ...(plugins ? { plugins } : {}),
+    ...(remote ? { remote } : {}),
+  };
+}
+
+/** Plugin paths are relative to config.json; package names are left for import() to resolve. */
+function resolvePlugin(plugin: string, configDir: string): string {
+  if (plugin.startsWith('.') || plugin.startsWith('~')) return path.resolve(configDir, expandTilde(plugin));
+  return plugin;
 }
@@ -47,7 +47,8 @@ export function findDuplicates(
   return candidates.slice(0, limit);
 }
 
-function compareContacts(a: Contact, b: Contact): { confidence: number; matchedFields: MatchedField[] } {
+/** Score how likely two contacts are the same person, from email, phone, name and organization matches. */
+export function compareContacts(a: Contact, b: Contact): { confidence: number; matchedFields: MatchedField[] } {
   let score = 0;
   const matchedFields: MatchedField[] = [];
 
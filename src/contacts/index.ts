@@ -1,6 +1,12 @@
-export { createContact, parseName } from './model.js';
-export { contactToVCard, vcardToContact } from './vcard.js';
+export { createContact, parseName, replacementFields } from './model.js';
+export { contactToVCard, vcardToContact, groupToVCard, vcardToGroup, isGroupVCard, splitVCards } from './vcard.js';
 export { normalizeContact, normalizeEmail, normalizePhone } from './normalize.js';
-export { searchContacts } from './search.js';
-export { findDuplicates } from './dedup.js';
+export { searchContacts, createSearchIndex } from './search.js';
+export { findDuplicates, compareContacts } from './dedup.js';
 export { mergeContacts } from './merge.js';
+export { parseQuery, matchesQuery, type QueryNode, type QueryField } from './query.js';
+export {
+  contactRef, parseContactRef, inverseRelationType, buildRelationGraph, traverseRelations,
+  retargetRelations, detachRelations, relationsAsNames, relationsFromNames,
+  type RelationGraph, type RelationLink, type TraversalOptions, type TraversalResult,
+} from './relations.js';
@@ -135,6 +135,20 @@ function mergeUnion(contacts: Contact[]): Contact {
       }
     }
 
+    // Take nickname and gender if primary doesn't have them
+    if (!primary.nickname && other.nickname) {
+      primary.nickname = other.nickname;
+    }
+    if (!primary.gender && other.gender) {
+      primary.gender = { ...other.gender };
+    }
+
+    // Union IM handles, social profiles and related people
+    unionBy(primary.ims, other.ims, im => `${im.service?.toLowerCase()}:${im.value.toLowerCase()}`);
+    unionBy(primary.socialProfiles, other.socialProfiles, p => p.value.toLowerCase());
+    unionBy(primary.related, other.related, r => `${r.type}:${r.value}`);
+    unionBy(primary.languages, other.languages, l => l.toLowerCase());
+
     // Combine notes
     if (other.notes && other.notes !== primary.notes) {
       primary.notes = [primary.notes, other.notes].filter(Boolean).join('\n---\n');
@@ -154,6 +168,16 @@ function mergeUnion(contacts: Contact[]): Contact {
       primary.photo = other.photo;
     }
 
+    // Union extra properties (deduplicate by exact content)
+    const extraSet = new Set(primary.extraProperties.map(e => JSON.stringify(e)));
+    for (const extra of other.extraProperties) {
+      const key = JSON.stringify(extra);
+      if (!extraSet.has(key)) {
+        primary.extraProperties.push(extra);
+        extraSet.add(key);
+      }
+    }
+
     // Keep earliest created date
     if (new Date(other.metadata.created) < new Date(primary.metadata.created)) {
       primary.metadata.created = other.metadata.created;
@@ -163,6 +187,17 @@ function mergeUnion(contacts: Contact[]): Contact {
   return primary;
 }
 
+/** Append items from `source` whose key isn't already in `target`. */
+function unionBy<T>(target: T[], source: T[], key: (item: T) => string): void {
+  const seen = new Set(target.map(key));
+  for (const item of source) {
+    if (!seen.has(key(item))) {
+      target.push(item);
+      seen.add(key(item));
+    }
+  }
+}
+
 function applyFieldOverride(target: Contact, source: Contact, field: string): void {
   switch (field) {
     case 'fullName': target.fullName = source.fullName; target.name = { ...source.name }; break;
@@ -170,9 +205,16 @@ function applyFieldOverride(target: Contact, source: Contact, field: string): vo
     case 'phones': target.phones = [...source.phones]; break;
     case 'addresses': target.addresses = [...source.addresses]; break;
     case 'organization': target.organization = source.organization ? { ...source.organization } : undefined; break;
+    case 'nickname': target.nickname = source.nickname; break;
+    case 'ims': target.ims = [...source.ims]; break;
+    case 'socialProfiles': target.socialProfiles = [...source.socialProfiles]; break;
+    case 'related': target.related = [...source.related]; break;
+    case 'gender': target.gender = source.gender ? { ...source.gender } : undefined; break;
+    case 'languages': target.languages = [...source.languages]; break;
     case 'birthday': target.birthday = source.birthday; break;
     case 'notes': target.notes = source.notes; break;
     case 'categories': target.categories = [...source.categories]; break;
     case 'photo': target.photo = source.photo; break;
+    case 'extraProperties': target.extraProperties = [...source.extraProperties]; break;
   }
 }
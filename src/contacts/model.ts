@@ -1,4 +1,4 @@
-import type { Contact, ContactName } from '../types/index.js';
+import type { Contact, ContactName, ContactOrganization } from '../types/index.js';
 import { generateId } from '../utils/index.js';
 
 export function createContact(fields: Partial<Contact> & { fullName: string }): Contact {
@@ -6,7 +6,9 @@ export function createContact(fields: Partial<Contact> & { fullName: string }):
   return {
     id: fields.id ?? generateId(),
     fullName: fields.fullName,
-    name: hasNameFields(fields.name) ? fields.name : parseName(fields.fullName),
+    // Keep phonetic names even when the rest of the name is derived from fullName
+    name: hasNameFields(fields.name) ? fields.name : { ...(fields.name as ContactName | undefined), ...parseName(fields.fullName) },
+    nickname: fields.nickname,
     emails: fields.emails ?? [],
     phones: fields.phones ?? [],
     addresses: fields.addresses ?? [],
@@ -14,9 +16,15 @@ export function createContact(fields: Partial<Contact> & { fullName: string }):
     birthday: fields.birthday,
     anniversary: fields.anniversary,
     urls: fields.urls ?? [],
+    ims: fields.ims ?? [],
+    socialProfiles: fields.socialProfiles ?? [],
+    related: fields.related ?? [],
+    gender: fields.gender,
+    languages: fields.languages ?? [],
     notes: fields.notes,
     categories: fields.categories ?? [],
     photo: fields.photo,
+    extraProperties: fields.extraProperties ?? [],
     metadata: fields.metadata ?? {
       created: now,
       modified: now,
@@ -26,6 +34,24 @@ export function createContact(fields: Partial<Contact> & { fullName: string }):
   };
 }
 
+/**
+ * Store update that replaces a contact with `contact` as a whole, e.g. for a
+ * PUT of a vCard: single values it leaves out are cleared rather than kept.
+ */
+export function replacementFields(contact: Contact): Partial<Omit<Contact, 'id' | 'metadata'>> & { fullName: string } {
+  const { id: _id, metadata: _metadata, ...fields } = contact;
+  return {
+    ...fields,
+    nickname: fields.nickname ?? '',
+    organization: fields.organization ?? ({} as ContactOrganization),
+    birthday: fields.birthday ?? '',
+    anniversary: fields.anniversary ?? '',
+    gender: fields.gender ?? {},
+    notes: fields.notes ?? '',
+    photo: fields.photo ?? '',
+  };
+}
+
 function hasNameFields(name?: ContactName): name is ContactName {
   if (!name) return false;
   return !!(name.givenName || name.familyName || name.middleName || name.prefix || name.suffix);
@@ -39,5 +39,8 @@ export function normalizeContact(contact: Contact): Contact {
   if (contact.name.familyName) contact.name.familyName = contact.name.familyName.trim();
   if (contact.name.middleName) contact.name.middleName = contact.name.middleName.trim();
 
+  // An empty gender, as a replacement without one sends, means none
+  if (contact.gender && !contact.gender.sex && !contact.gender.identity) delete contact.gender;
+
   return contact;
 }
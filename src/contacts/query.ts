@@ -0,0 +1,335 @@
+import type { Contact } from '../types/index.js';
+import { QueryError } from '../utils/index.js';
+
+/**
+ * Structured search queries, e.g.
+ *
+ *   org:Acme category:investor -email:*@gmail.com birthday:03-* city:"San Francisco"
+ *   has:phone modified:>2025-01-01 (tag:vip OR tag:board) NOT source:google
+ *
+ * Adjacent terms are ANDed. `OR`, `AND` and `NOT` must be uppercase; `-` negates
+ * the following term or group. Bare words are matched fuzzily by the caller.
+ */
+
+export type QueryField =
+  | 'id' | 'name' | 'given' | 'family' | 'nickname' | 'email' | 'phone'
+  | 'org' | 'title' | 'department' | 'category' | 'note' | 'url'
+  | 'street' | 'city' | 'state' | 'postal' | 'country'
+  | 'im' | 'social' | 'related' | 'gender' | 'language'
+  | 'birthday' | 'anniversary' | 'created' | 'modified'
+  | 'source' | 'provider';
+
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'field'; field: QueryField; operator: QueryOperator; value: string }
+  | { type: 'has'; field: QueryField }
+  | { type: 'term'; value: string; quoted: boolean };
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  id: 'id',
+  name: 'name', fn: 'name',
+  given: 'given', first: 'given', firstname: 'given',
+  family: 'family', last: 'family', lastname: 'family',
+  nickname: 'nickname', nick: 'nickname',
+  email: 'email', mail: 'email',
+  phone: 'phone', tel: 'phone',
+  org: 'org', organization: 'org', company: 'org',
+  title: 'title', role: 'title',
+  department: 'department', dept: 'department',
+  category: 'category', categories: 'category', tag: 'category',
+  note: 'note', notes: 'note',
+  url: 'url', website: 'url',
+  street: 'street',
+  city: 'city',
+  state: 'state', region: 'state',
+  postal: 'postal', zip: 'postal', postalcode: 'postal',
+  country: 'country',
+  im: 'im', impp: 'im',
+  social: 'social', profile: 'social',
+  related: 'related', relation: 'related',
+  gender: 'gender',
+  language: 'language', lang: 'language',
+  birthday: 'birthday', bday: 'birthday',
+  anniversary: 'anniversary',
+  created: 'created',
+  modified: 'modified', updated: 'modified',
+  source: 'source',
+  provider: 'provider',
+};
+
+const DATE_FIELDS = new Set<QueryField>(['birthday', 'anniversary', 'created', 'modified']);
+
+// --- Tokenizer ---
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not' }
+  | { kind: 'word'; text: string; quoted: boolean };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(') { tokens.push({ kind: 'lparen' }); i++; continue; }
+    if (ch === ')') { tokens.push({ kind: 'rparen' }); i++; continue; }
+    if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+      continue;
+    }
+
+    // A word runs until whitespace or a paren; quoted sections may contain either.
+    let text = '';
+    let quoted = false;
+    while (i < input.length && !/[\s()]/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) throw new QueryError(`Unterminated quote at position ${i}`);
+        text += input.slice(i + 1, close);
+        quoted = true;
+        i = close + 1;
+      } else {
+        text += input[i++];
+      }
+    }
+
+    if (!quoted && text === 'OR') tokens.push({ kind: 'or' });
+    else if (!quoted && text === 'AND') tokens.push({ kind: 'and' });
+    else if (!quoted && text === 'NOT') tokens.push({ kind: 'not' });
+    else tokens.push({ kind: 'word', text, quoted });
+  }
+
+  return tokens;
+}
+
+// --- Parser ---
+
+/** Parse a query string into an AST. Throws QueryError on malformed input. */
+export function parseQuery(input: string): QueryNode {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  function parseOr(): QueryNode {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  function parseAnd(): QueryNode {
+    const children = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') break;
+      if (next.kind === 'and') pos++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  function parseUnary(): QueryNode {
+    const token = peek();
+    if (!token) throw new QueryError('Unexpected end of query');
+    if (token.kind === 'not') {
+      pos++;
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryNode {
+    const token = tokens[pos++];
+    if (!token) throw new QueryError('Unexpected end of query');
+    if (token.kind === 'lparen') {
+      const node = parseOr();
+      if (peek()?.kind !== 'rparen') throw new QueryError('Missing closing parenthesis');
+      pos++;
+      return node;
+    }
+    if (token.kind !== 'word') throw new QueryError(`Unexpected "${token.kind.toUpperCase()}"`);
+    return parseWord(token.text, token.quoted);
+  }
+
+  if (tokens.length === 0) return { type: 'and', children: [] };
+  const root = parseOr();
+  if (pos < tokens.length) throw new QueryError('Unexpected ")"');
+  return root;
+}
+
+function parseWord(text: string, quoted: boolean): QueryNode {
+  const match = text.match(/^([A-Za-z]+):(>=|<=|>|<|=)?(.*)$/s);
+  if (!match) return { type: 'term', value: text, quoted };
+
+  const [, rawField, op, value] = match;
+  const key = rawField.toLowerCase();
+
+  if (key === 'has') {
+    const field = FIELD_ALIASES[value.toLowerCase()];
+    if (!field) throw new QueryError(`Unknown field in has:${value}`);
+    return { type: 'has', field };
+  }
+
+  const field = FIELD_ALIASES[key];
+  if (!field) return { type: 'term', value: text, quoted };
+  if (!value) throw new QueryError(`Missing value for ${rawField}:`);
+
+  const operator = (op ?? ':') as QueryOperator;
+  if (operator !== ':' && operator !== '=' && !DATE_FIELDS.has(field)) {
+    throw new QueryError(`Comparison ${operator} is only supported on date fields`);
+  }
+  return { type: 'field', field, operator, value };
+}
+
+// --- Evaluation ---
+
+/** Collect the bare terms in a query (what the caller matches fuzzily). */
+export function collectTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'term': return [node.value];
+    case 'not': return collectTerms(node.child);
+    case 'and':
+    case 'or': return node.children.flatMap(collectTerms);
+    default: return [];
+  }
+}
+
+/** True when the query is just unquoted words, i.e. plain free-text search. */
+export function isPlainTextQuery(node: QueryNode): boolean {
+  if (node.type === 'term') return !node.quoted;
+  if (node.type === 'and') return node.children.every(c => c.type === 'term' && !c.quoted);
+  return false;
+}
+
+/**
+ * Evaluate a query against a contact. `matchesTerm` decides bare terms,
+ * so the caller can back them with fuzzy search.
+ */
+export function matchesQuery(
+  contact: Contact,
+  node: QueryNode,
+  matchesTerm: (contact: Contact, term: string) => boolean,
+): boolean {
+  switch (node.type) {
+    case 'and': return node.children.every(c => matchesQuery(contact, c, matchesTerm));
+    case 'or': return node.children.some(c => matchesQuery(contact, c, matchesTerm));
+    case 'not': return !matchesQuery(contact, node.child, matchesTerm);
+    case 'term': return matchesTerm(contact, node.value);
+    case 'has': return fieldValues(contact, node.field).length > 0;
+    case 'field': return matchesField(contact, node.field, node.operator, node.value);
+  }
+}
+
+function matchesField(contact: Contact, field: QueryField, operator: QueryOperator, pattern: string): boolean {
+  const values = fieldValues(contact, field);
+
+  if (DATE_FIELDS.has(field)) {
+    return values.some(v => compareDate(v, operator, pattern));
+  }
+
+  if (field === 'phone' && !hasWildcard(pattern)) {
+    const digits = pattern.replace(/\D/g, '');
+    if (digits) return values.some(v => v.replace(/\D/g, '').includes(digits));
+  }
+
+  if (operator === '=') {
+    return values.some(v => v.toLowerCase() === pattern.toLowerCase());
+  }
+  if (hasWildcard(pattern)) {
+    const regex = globToRegex(pattern);
+    return values.some(v => regex.test(v));
+  }
+  return values.some(v => v.toLowerCase().includes(pattern.toLowerCase()));
+}
+
+function fieldValues(contact: Contact, field: QueryField): string[] {
+  const present = (values: (string | undefined)[]) => values.filter((v): v is string => !!v);
+
+  switch (field) {
+    case 'id': return [contact.id];
+    case 'name': return present([
+      contact.fullName, contact.name.givenName, contact.name.middleName, contact.name.familyName, contact.nickname,
+      contact.name.phoneticGivenName, contact.name.phoneticFamilyName,
+    ]);
+    case 'given': return present([contact.name.givenName]);
+    case 'family': return present([contact.name.familyName]);
+    case 'nickname': return present([contact.nickname]);
+    case 'email': return present(contact.emails.map(e => e.value));
+    case 'phone': return present(contact.phones.flatMap(p => [p.value, p.originalValue]));
+    case 'org': return present([contact.organization?.name]);
+    case 'title': return present([contact.organization?.title]);
+    case 'department': return present([contact.organization?.department]);
+    case 'category': return present(contact.categories);
+    case 'note': return present([contact.notes]);
+    case 'url': return present(contact.urls.map(u => u.value));
+    case 'street': return present(contact.addresses.map(a => a.street));
+    case 'city': return present(contact.addresses.map(a => a.city));
+    case 'state': return present(contact.addresses.map(a => a.state));
+    case 'postal': return present(contact.addresses.map(a => a.postalCode));
+    case 'country': return present(contact.addresses.map(a => a.country));
+    case 'im': return present(contact.ims.map(i => i.value));
+    case 'social': return present(contact.socialProfiles.flatMap(p => [p.value, p.username]));
+    case 'related': return present(contact.related.map(r => r.value));
+    case 'gender': return present([contact.gender?.sex, contact.gender?.identity]);
+    case 'language': return contact.languages;
+    case 'birthday': return present([contact.birthday]).map(normalizeDate);
+    case 'anniversary': return present([contact.anniversary]).map(normalizeDate);
+    case 'created': return present([contact.metadata.created]);
+    case 'modified': return present([contact.metadata.modified]);
+    case 'source': return present([contact.metadata.source]);
+    case 'provider': return Object.keys(contact.metadata.providerIds);
+  }
+}
+
+/** Bring vCard date forms (19900515, --0515) to YYYY-MM-DD / --MM-DD. */
+function normalizeDate(value: string): string {
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  const noYear = value.match(/^--(\d{2})-?(\d{2})$/);
+  if (noYear) return `--${noYear[1]}-${noYear[2]}`;
+  return value;
+}
+
+/**
+ * Compare a date value against a pattern at the pattern's precision.
+ * "MM-DD" / "MM-*" patterns match month and day regardless of year.
+ */
+function compareDate(value: string, operator: QueryOperator, pattern: string): boolean {
+  const monthDay = /^\d{2}-/.test(pattern);
+  const subject = monthDay ? value.slice(-5) : value;
+
+  if (hasWildcard(pattern)) {
+    return (operator === ':' || operator === '=') && globToRegex(pattern).test(subject);
+  }
+
+  const truncated = subject.slice(0, pattern.length);
+  switch (operator) {
+    case ':':
+    case '=': return truncated === pattern;
+    case '>': return truncated > pattern;
+    case '>=': return truncated >= pattern;
+    case '<': return truncated < pattern;
+    case '<=': return truncated <= pattern;
+  }
+}
+
+function hasWildcard(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?');
+}
+
+function globToRegex(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
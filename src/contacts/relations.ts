@@ -0,0 +1,204 @@
+import type { Contact } from '../types/index.js';
+
+/**
+ * Relationships between stored contacts. A link is a RELATED entry whose value
+ * is a `urn:uuid:` reference: "Y is X's <type>" is stored on X as
+ * RELATED;TYPE=<type>:urn:uuid:<Y>. The graph reads every link from both ends,
+ * so Y sees X through the inverse type (manager -> report).
+ */
+
+const URN_PREFIX = 'urn:uuid:';
+
+/** How a relationship reads from the other contact's side. Unlisted types are symmetric. */
+const INVERSE_TYPES: Record<string, string> = {
+  manager: 'report',
+  report: 'manager',
+  assistant: 'executive',
+  executive: 'assistant',
+  parent: 'child',
+  child: 'parent',
+  'introduced-by': 'introduced',
+  introduced: 'introduced-by',
+  'referred-by': 'referred',
+  referred: 'referred-by',
+  agent: 'client',
+  client: 'agent',
+};
+
+export function contactRef(id: string): string {
+  return `${URN_PREFIX}${id}`;
+}
+
+/** The contact ID a RELATED value points at, if it's a `urn:uuid:` reference. */
+export function parseContactRef(value: string): string | undefined {
+  if (!value.toLowerCase().startsWith(URN_PREFIX)) return undefined;
+  return value.substring(URN_PREFIX.length) || undefined;
+}
+
+export function inverseRelationType(type?: string): string | undefined {
+  if (!type) return undefined;
+  return INVERSE_TYPES[type.toLowerCase()] ?? type;
+}
+
+export interface RelationLink {
+  contactId: string;
+  /** Relationship from the perspective of the contact the link belongs to */
+  type?: string;
+  /** 'outgoing' when stored on this contact, 'incoming' when stored on the other one */
+  direction: 'outgoing' | 'incoming';
+}
+
+/** Adjacency list of links between contacts, keyed by contact ID. */
+export type RelationGraph = Map<string, RelationLink[]>;
+
+export function buildRelationGraph(contacts: Contact[]): RelationGraph {
+  const ids = new Set(contacts.map(c => c.id));
+  const graph: RelationGraph = new Map(contacts.map(c => [c.id, []]));
+
+  for (const contact of contacts) {
+    for (const rel of contact.related) {
+      const targetId = parseContactRef(rel.value);
+      if (!targetId || targetId === contact.id || !ids.has(targetId)) continue;
+      graph.get(contact.id)!.push({ contactId: targetId, type: rel.type, direction: 'outgoing' });
+      graph.get(targetId)!.push({ contactId: contact.id, type: inverseRelationType(rel.type), direction: 'incoming' });
+    }
+  }
+
+  return graph;
+}
+
+export interface TraversalOptions {
+  /** Maximum number of hops from the start contact (default 1) */
+  maxDepth?: number;
+  /** Only follow links of these types, as seen from the contact being expanded */
+  types?: string[];
+}
+
+export interface TraversalHop {
+  contactId: string;
+  type?: string;
+}
+
+export interface TraversalResult {
+  contactId: string;
+  depth: number;
+  /** Hops from the start contact, ending at this one */
+  path: TraversalHop[];
+}
+
+/**
+ * Breadth-first walk from `startId`. Each contact is reported once, at its
+ * shortest distance. With `types: ['report']` and a large depth this
+ * returns everyone in a reporting chain.
+ */
+export function traverseRelations(
+  graph: RelationGraph,
+  startId: string,
+  options: TraversalOptions = {},
+): TraversalResult[] {
+  const maxDepth = options.maxDepth ?? 1;
+  const types = options.types ? new Set(options.types.map(t => t.toLowerCase())) : undefined;
+
+  const results: TraversalResult[] = [];
+  const visited = new Set([startId]);
+  let frontier: TraversalResult[] = [{ contactId: startId, depth: 0, path: [] }];
+
+  while (frontier.length > 0 && frontier[0].depth < maxDepth) {
+    const next: TraversalResult[] = [];
+    for (const current of frontier) {
+      for (const link of graph.get(current.contactId) ?? []) {
+        if (visited.has(link.contactId)) continue;
+        if (types && !types.has(link.type?.toLowerCase() ?? '')) continue;
+        visited.add(link.contactId);
+        next.push({
+          contactId: link.contactId,
+          depth: current.depth + 1,
+          path: [...current.path, { contactId: link.contactId, type: link.type }],
+        });
+      }
+    }
+    results.push(...next);
+    frontier = next;
+  }
+
+  return results;
+}
+
+/**
+ * Point references to any of `fromIds` at `toId` instead, dropping links that
+ * would point at the contact itself or duplicate an existing one. Returns true if anything changed.
+ */
+export function retargetRelations(contact: Contact, fromIds: Set<string>, toId: string): boolean {
+  const refersToMoved = contact.related.some(rel => {
+    const targetId = parseContactRef(rel.value);
+    return targetId !== undefined && fromIds.has(targetId);
+  });
+  if (!refersToMoved) return false;
+
+  const seen = new Set<string>();
+  const related = [];
+
+  for (const rel of contact.related) {
+    const targetId = parseContactRef(rel.value);
+    const value = targetId && fromIds.has(targetId) ? contactRef(toId) : rel.value;
+    const key = `${rel.type?.toLowerCase()}:${value}`;
+    if (parseContactRef(value) === contact.id || seen.has(key)) continue;
+    seen.add(key);
+    related.push(value === rel.value ? rel : { ...rel, value });
+  }
+
+  contact.related = related;
+  return true;
+}
+
+/**
+ * Replace references to a contact that's leaving the store with its name as
+ * plain text, so the relationship is still readable. Returns true if anything changed.
+ */
+export function detachRelations(contact: Contact, removed: Contact): boolean {
+  let changed = false;
+  contact.related = contact.related.map(rel => {
+    if (parseContactRef(rel.value) !== removed.id) return rel;
+    changed = true;
+    return { ...rel, value: removed.fullName };
+  });
+  return changed;
+}
+
+/**
+ * A contact as written to a provider that stores related people as names:
+ * references become the name of the contact they point at (`names` maps
+ * contact IDs to names). References to contacts not in `names` are left out.
+ */
+export function relationsAsNames(contact: Contact, names: Map<string, string>): Contact {
+  if (!contact.related.some(rel => parseContactRef(rel.value))) return contact;
+  return {
+    ...contact,
+    related: contact.related.flatMap(rel => {
+      const targetId = parseContactRef(rel.value);
+      if (!targetId) return [rel];
+      const name = names.get(targetId);
+      return name ? [{ ...rel, value: name }] : [];
+    }),
+  };
+}
+
+/**
+ * The reverse of relationsAsNames for a provider's copy of `local`: a name
+ * `local` holds as a reference becomes that reference again, and references
+ * that had no name to write are kept, so sync doesn't replace links with text.
+ */
+export function relationsFromNames(remote: Contact, local: Contact, names: Map<string, string>): Contact {
+  const unclaimed = local.related.filter(rel => parseContactRef(rel.value));
+  if (unclaimed.length === 0) return remote;
+
+  const related = remote.related.map(rel => {
+    const index = unclaimed.findIndex(ref =>
+      names.get(parseContactRef(ref.value)!)?.toLowerCase() === rel.value.toLowerCase());
+    if (index === -1) return rel;
+    const [ref] = unclaimed.splice(index, 1);
+    return { ...rel, value: ref.value };
+  });
+  const unnamed = unclaimed.filter(ref => !names.has(parseContactRef(ref.value)!));
+  return { ...remote, related: [...related, ...unnamed] };
+}
@@ -1,14 +1,21 @@
 import Fuse, { type IFuseOptions } from 'fuse.js';
 import type { Contact, ContactSummary } from '../types/index.js';
 import { toSummary } from '../types/index.js';
+import { parseQuery, isPlainTextQuery, collectTerms, matchesQuery } from './query.js';
 
 const FUSE_OPTIONS: IFuseOptions<Contact> = {
   keys: [
     { name: 'fullName', weight: 0.35 },
+    { name: 'nickname', weight: 0.15 },
+    { name: 'name.phoneticGivenName', weight: 0.05 },
+    { name: 'name.phoneticFamilyName', weight: 0.05 },
     { name: 'emails.value', weight: 0.25 },
     { name: 'phones.value', weight: 0.15 },
     { name: 'phones.originalValue', weight: 0.05 },
     { name: 'organization.name', weight: 0.1 },
+    { name: 'ims.value', weight: 0.05 },
+    { name: 'socialProfiles.username', weight: 0.05 },
+    { name: 'related.value', weight: 0.02 },
     { name: 'notes', weight: 0.05 },
     { name: 'categories', weight: 0.05 },
   ],
@@ -18,17 +25,53 @@ const FUSE_OPTIONS: IFuseOptions<Contact> = {
   minMatchCharLength: 2,
 };
 
+/** Build a reusable fuzzy search index over a contact list. */
+export function createSearchIndex(contacts: Contact[]): Fuse<Contact> {
+  return new Fuse(contacts, FUSE_OPTIONS);
+}
+
+/**
+ * Search contacts with free text or the structured query syntax in query.ts.
+ * Plain text is ranked by Fuse across all weighted fields; structured queries
+ * filter by field and rank by how well any bare terms matched.
+ */
 export function searchContacts(
   contacts: Contact[],
   query: string,
   limit: number = 20,
+  fuse?: Fuse<Contact>,
 ): ContactSummary[] {
   if (!query.trim()) {
     return contacts.slice(0, limit).map(toSummary);
   }
 
-  const fuse = new Fuse(contacts, FUSE_OPTIONS);
-  const results = fuse.search(query, { limit });
+  const ast = parseQuery(query);
+  const index = fuse ?? createSearchIndex(contacts);
+
+  if (isPlainTextQuery(ast)) {
+    return index.search(query, { limit }).map(r => toSummary(r.item));
+  }
+
+  // Score every bare term once; lower Fuse scores are better matches.
+  const termScores = new Map<string, Map<string, number>>();
+  for (const term of new Set(collectTerms(ast))) {
+    const scores = new Map<string, number>();
+    for (const r of index.search(term)) scores.set(r.item.id, r.score ?? 0);
+    termScores.set(term, scores);
+  }
+
+  const matched = contacts.filter(c =>
+    matchesQuery(c, ast, (contact, term) => termScores.get(term)?.has(contact.id) ?? false),
+  );
+
+  if (termScores.size > 0) {
+    const rank = (c: Contact) => {
+      let total = 0;
+      for (const scores of termScores.values()) total += scores.get(c.id) ?? 1;
+      return total;
+    };
+    matched.sort((a, b) => rank(a) - rank(b));
+  }
 
-  return results.map(r => toSummary(r.item));
+  return matched.slice(0, limit).map(toSummary);
 }
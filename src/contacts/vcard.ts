@@ -1,5 +1,9 @@
-import type { Contact, ContactEmail, ContactPhone, ContactAddress, ContactUrl } from '../types/index.js';
+import type {
+  Contact, ContactEmail, ContactPhone, ContactAddress, ContactUrl, ContactIm, ContactSocialProfile, ContactRelated,
+  ContactGender, ContactExtraProperty, ContactGroup,
+} from '../types/index.js';
 import { createContact } from './model.js';
+import { generateId } from '../utils/index.js';
 
 /**
  * Serialize a Contact to vCard 4.0 format (RFC 6350).
@@ -18,13 +22,22 @@ export function contactToVCard(contact: Contact): string {
     `N:${escapeVCardValue(n.familyName ?? '')};${escapeVCardValue(n.givenName ?? '')};${escapeVCardValue(n.middleName ?? '')};${escapeVCardValue(n.prefix ?? '')};${escapeVCardValue(n.suffix ?? '')}`
   );
 
+  // Phonetic names (Apple's X-PHONETIC-* extension)
+  if (n.phoneticGivenName) lines.push(`X-PHONETIC-FIRST-NAME:${escapeVCardValue(n.phoneticGivenName)}`);
+  if (n.phoneticMiddleName) lines.push(`X-PHONETIC-MIDDLE-NAME:${escapeVCardValue(n.phoneticMiddleName)}`);
+  if (n.phoneticFamilyName) lines.push(`X-PHONETIC-LAST-NAME:${escapeVCardValue(n.phoneticFamilyName)}`);
+
+  if (contact.nickname) {
+    lines.push(`NICKNAME:${escapeVCardValue(contact.nickname)}`);
+  }
+
   // Emails
   for (const email of contact.emails) {
     const params: string[] = [];
     if (email.type) params.push(`TYPE=${email.type}`);
     if (email.primary) params.push('PREF=1');
     const paramStr = params.length ? `;${params.join(';')}` : '';
-    lines.push(`EMAIL${paramStr}:${escapeVCardValue(email.value)}`);
+    lines.push(`${withGroup(email.group, 'EMAIL')}${paramStr}:${escapeVCardValue(email.value)}`);
   }
 
   // Phones
@@ -33,7 +46,7 @@ export function contactToVCard(contact: Contact): string {
     if (phone.type) params.push(`TYPE=${phone.type}`);
     if (phone.primary) params.push('PREF=1');
     const paramStr = params.length ? `;${params.join(';')}` : '';
-    lines.push(`TEL${paramStr}:${escapeVCardValue(phone.value)}`);
+    lines.push(`${withGroup(phone.group, 'TEL')}${paramStr}:${escapeVCardValue(phone.value)}`);
   }
 
   // Addresses
@@ -43,7 +56,7 @@ export function contactToVCard(contact: Contact): string {
     const paramStr = params.length ? `;${params.join(';')}` : '';
     // ADR: PO Box;Ext Address;Street;City;State;Postal;Country
     lines.push(
-      `ADR${paramStr}:;;${escapeVCardValue(addr.street ?? '')};${escapeVCardValue(addr.city ?? '')};${escapeVCardValue(addr.state ?? '')};${escapeVCardValue(addr.postalCode ?? '')};${escapeVCardValue(addr.country ?? '')}`
+      `${withGroup(addr.group, 'ADR')}${paramStr}:;;${escapeVCardValue(addr.street ?? '')};${escapeVCardValue(addr.city ?? '')};${escapeVCardValue(addr.state ?? '')};${escapeVCardValue(addr.postalCode ?? '')};${escapeVCardValue(addr.country ?? '')}`
     );
   }
 
@@ -70,9 +83,46 @@ export function contactToVCard(contact: Contact): string {
     const params: string[] = [];
     if (url.type) params.push(`TYPE=${url.type}`);
     const paramStr = params.length ? `;${params.join(';')}` : '';
-    lines.push(`URL${paramStr}:${escapeVCardValue(url.value)}`);
+    lines.push(`${withGroup(url.group, 'URL')}${paramStr}:${escapeVCardValue(url.value)}`);
+  }
+
+  // Instant messaging: IMPP values are URIs, the scheme names the service
+  for (const im of contact.ims) {
+    const params: string[] = [];
+    if (im.service) params.push(`X-SERVICE-TYPE=${im.service}`);
+    if (im.type) params.push(`TYPE=${im.type}`);
+    const paramStr = params.length ? `;${params.join(';')}` : '';
+    const value = im.service ? `${imScheme(im.service)}:${im.value}` : im.value;
+    lines.push(`${withGroup(im.group, 'IMPP')}${paramStr}:${escapeVCardValue(value)}`);
   }
 
+  // Social profiles (X-SOCIALPROFILE, as written by Apple)
+  for (const profile of contact.socialProfiles) {
+    const params: string[] = [];
+    if (profile.service) params.push(`TYPE=${profile.service}`);
+    if (profile.username) params.push(`X-USER=${quoteParam(profile.username)}`);
+    const paramStr = params.length ? `;${params.join(';')}` : '';
+    lines.push(`${withGroup(profile.group, 'X-SOCIALPROFILE')}${paramStr}:${escapeVCardValue(profile.value)}`);
+  }
+
+  // Related people: a urn:uuid: reference or free text
+  for (const rel of contact.related) {
+    const params: string[] = [];
+    if (rel.type) params.push(`TYPE=${rel.type}`);
+    if (!isUri(rel.value)) params.push('VALUE=text');
+    const paramStr = params.length ? `;${params.join(';')}` : '';
+    lines.push(`${withGroup(rel.group, 'RELATED')}${paramStr}:${escapeVCardValue(rel.value)}`);
+  }
+
+  if (contact.gender) {
+    const { sex, identity } = contact.gender;
+    lines.push(`GENDER:${sex ?? ''}${identity ? `;${escapeVCardValue(identity)}` : ''}`);
+  }
+
+  contact.languages.forEach((lang, i) => {
+    lines.push(`LANG;PREF=${i + 1}:${lang}`);
+  });
+
   // Notes
   if (contact.notes) {
     lines.push(`NOTE:${escapeVCardValue(contact.notes)}`);
@@ -88,6 +138,12 @@ export function contactToVCard(contact: Contact): string {
     lines.push(`PHOTO:${contact.photo}`);
   }
 
+  // Unmapped properties, written back exactly as they were read
+  for (const extra of contact.extraProperties) {
+    const paramStr = extra.params.map(p => `;${p}`).join('');
+    lines.push(`${withGroup(extra.group, extra.name)}${paramStr}:${extra.value}`);
+  }
+
   // Metadata as X-properties
   lines.push(`REV:${contact.metadata.modified}`);
   if (contact.metadata.source) {
@@ -107,93 +163,146 @@ export function contactToVCard(contact: Contact): string {
 }
 
 /**
- * Parse a vCard 4.0 string into a Contact object.
+ * Parse a vCard string into a Contact object.
+ *
+ * Handles 4.0 (RFC 6350), 3.0 (RFC 2426) and 2.1 syntax: property groups,
+ * bare 2.1 type params (TEL;CELL;HOME), TYPE=WORK,VOICE lists,
+ * QUOTED-PRINTABLE values with CHARSET, and base64-encoded photos.
  */
 export function vcardToContact(vcard: string): Contact {
-  const lines = unfoldLines(vcard);
-  const props = parseProperties(lines);
+  const props = parseProperties(unfoldLines(vcard));
+  const version = props.get('VERSION')?.value.trim() ?? '4.0';
+  const text = (value: string) => unescapeVCardValue(value, version);
+  const parts = (value: string) => splitValue(value, ';').map(text);
 
-  const id = extractUid(props.get('UID') ?? '') ?? '';
-  const fullName = unescapeVCardValue(getFirstValue(props, 'FN') ?? 'Unknown');
+  const id = extractUid(props.get('UID')?.value ?? '') ?? generateId();
+  const fullName = text(props.get('FN')?.value ?? '') || 'Unknown';
+  const optionalText = (prop: VCardProperty | undefined) => (prop?.value ? text(prop.value) : undefined);
 
   // Parse structured name
-  const nValue = getFirstValue(props, 'N') ?? ';;;;';
-  const nParts = nValue.split(';').map(unescapeVCardValue);
+  const nParts = parts(props.get('N')?.value ?? ';;;;');
   const name = {
     familyName: nParts[0] || undefined,
     givenName: nParts[1] || undefined,
     middleName: nParts[2] || undefined,
     prefix: nParts[3] || undefined,
     suffix: nParts[4] || undefined,
+    phoneticGivenName: optionalText(props.get('X-PHONETIC-FIRST-NAME')),
+    phoneticMiddleName: optionalText(props.get('X-PHONETIC-MIDDLE-NAME')),
+    phoneticFamilyName: optionalText(props.get('X-PHONETIC-LAST-NAME')),
   };
+  const nickname = optionalText(props.get('NICKNAME'));
 
   // Parse emails
-  const emails: ContactEmail[] = (props.getAll('EMAIL') ?? []).map(p => ({
-    value: unescapeVCardValue(p.value),
-    type: extractType(p.params) as ContactEmail['type'],
-    primary: p.params.some(p => p.toUpperCase().startsWith('PREF')),
+  const emails: ContactEmail[] = props.getAll('EMAIL').map(p => ({
+    value: text(p.value),
+    type: pickType(p, EMAIL_TYPES),
+    primary: isPreferred(p),
+    group: p.group,
   }));
 
   // Parse phones
-  const phones: ContactPhone[] = (props.getAll('TEL') ?? []).map(p => ({
-    value: unescapeVCardValue(p.value),
-    type: extractType(p.params) as ContactPhone['type'],
-    primary: p.params.some(p => p.toUpperCase().startsWith('PREF')),
+  const phones: ContactPhone[] = props.getAll('TEL').map(p => ({
+    value: text(p.value),
+    type: pickType(p, PHONE_TYPES),
+    primary: isPreferred(p),
+    group: p.group,
   }));
 
   // Parse addresses
-  const addresses: ContactAddress[] = (props.getAll('ADR') ?? []).map(p => {
-    const parts = p.value.split(';').map(unescapeVCardValue);
+  const addresses: ContactAddress[] = props.getAll('ADR').map(p => {
+    const adr = parts(p.value);
     return {
-      street: parts[2] || undefined,
-      city: parts[3] || undefined,
-      state: parts[4] || undefined,
-      postalCode: parts[5] || undefined,
-      country: parts[6] || undefined,
-      type: extractType(p.params) as ContactAddress['type'],
+      street: adr[2] || undefined,
+      city: adr[3] || undefined,
+      state: adr[4] || undefined,
+      postalCode: adr[5] || undefined,
+      country: adr[6] || undefined,
+      type: pickType(p, ADDRESS_TYPES),
+      group: p.group,
     };
   });
 
   // Organization
-  const orgValue = getFirstValue(props, 'ORG');
-  const titleValue = getFirstValue(props, 'TITLE');
-  const organization = (orgValue || titleValue) ? {
-    name: orgValue ? unescapeVCardValue(orgValue.split(';')[0]) : undefined,
-    department: orgValue?.includes(';') ? unescapeVCardValue(orgValue.split(';')[1]) : undefined,
-    title: titleValue ? unescapeVCardValue(titleValue) : undefined,
+  const orgParts = props.has('ORG') ? parts(props.get('ORG')!.value) : undefined;
+  const titleValue = props.get('TITLE')?.value;
+  const organization = (orgParts || titleValue) ? {
+    name: orgParts?.[0] || undefined,
+    department: orgParts?.[1] || undefined,
+    title: titleValue ? text(titleValue) : undefined,
   } : undefined;
 
   // URLs
-  const urls: ContactUrl[] = (props.getAll('URL') ?? []).map(p => ({
-    value: unescapeVCardValue(p.value),
-    type: extractType(p.params) as ContactUrl['type'],
+  const urls: ContactUrl[] = props.getAll('URL').map(p => ({
+    value: text(p.value),
+    type: pickType(p, URL_TYPES),
+    group: p.group,
   }));
 
-  // Simple properties
-  const birthday = getFirstValue(props, 'BDAY');
-  const anniversary = getFirstValue(props, 'ANNIVERSARY');
-  const notes = getFirstValue(props, 'NOTE') ? unescapeVCardValue(getFirstValue(props, 'NOTE')!) : undefined;
-  const photo = getFirstValue(props, 'PHOTO');
-  const rev = getFirstValue(props, 'REV');
+  // Instant messaging
+  const ims: ContactIm[] = props.getAll('IMPP').map(p => {
+    const uri = text(p.value);
+    const scheme = uri.match(/^([A-Za-z][A-Za-z0-9+.-]*):(.*)$/s);
+    return {
+      value: scheme ? scheme[2] : uri,
+      service: p.params['X-SERVICE-TYPE']?.[0] ?? scheme?.[1],
+      type: pickType(p, IM_TYPES),
+      group: p.group,
+    };
+  });
 
-  // Categories
-  const catValue = getFirstValue(props, 'CATEGORIES');
-  const categories = catValue ? catValue.split(',').map(unescapeVCardValue) : [];
+  // Social profiles
+  const socialProfiles: ContactSocialProfile[] = props.getAll('X-SOCIALPROFILE').map(p => ({
+    value: text(p.value),
+    service: (p.params.TYPE ?? []).find(t => t.toLowerCase() !== 'pref'),
+    username: p.params['X-USER']?.[0],
+    group: p.group,
+  }));
+
+  // Related people
+  const related: ContactRelated[] = props.getAll('RELATED').map(p => ({
+    value: text(p.value),
+    type: (p.params.TYPE ?? []).find(t => t.toLowerCase() !== 'pref')?.toLowerCase(),
+    group: p.group,
+  }));
+
+  const gender = parseGender(props.get('GENDER'), text);
+
+  // Languages, most preferred first
+  const languages = props.getAll('LANG')
+    .map((p, i) => ({ tag: p.value.trim(), pref: Number(p.params.PREF?.[0] ?? 100), i }))
+    .filter(l => l.tag)
+    .sort((a, b) => a.pref - b.pref || a.i - b.i)
+    .map(l => l.tag);
+
+  // Simple properties
+  const birthday = parseDate(props.get('BDAY'));
+  const anniversary = parseDate(props.get('ANNIVERSARY'));
+  const noteValue = props.get('NOTE')?.value;
+  const notes = noteValue ? text(noteValue) : undefined;
+  const photo = parsePhoto(props.get('PHOTO'));
+  const rev = props.get('REV')?.value;
+
+  // Categories (some clients write one CATEGORIES line per category)
+  const categories = [...new Set(
+    props.getAll('CATEGORIES').flatMap(p => splitValue(p.value, ',').map(text)).filter(Boolean),
+  )];
 
   // Metadata from X-properties
-  const source = getFirstValue(props, 'X-CONTACTS-MCP-SOURCE');
-  const providerIdsRaw = getFirstValue(props, 'X-CONTACTS-MCP-PROVIDER-IDS');
+  const source = props.get('X-CONTACTS-MCP-SOURCE')?.value;
+  const providerIdsRaw = props.get('X-CONTACTS-MCP-PROVIDER-IDS')?.value;
   let providerIds: Record<string, string> = {};
   if (providerIdsRaw) {
     try { providerIds = JSON.parse(unescapeVCardValue(providerIdsRaw)); } catch { /* ignore */ }
   }
-  const created = getFirstValue(props, 'X-CONTACTS-MCP-CREATED') ?? rev ?? new Date().toISOString();
-  const archived = getFirstValue(props, 'X-CONTACTS-MCP-ARCHIVED') === 'true';
+  const created = props.get('X-CONTACTS-MCP-CREATED')?.value ?? rev ?? new Date().toISOString();
+  const archived = props.get('X-CONTACTS-MCP-ARCHIVED')?.value === 'true';
 
   return createContact({
     id,
     fullName,
     name,
+    nickname,
     emails,
     phones,
     addresses,
@@ -201,9 +310,15 @@ export function vcardToContact(vcard: string): Contact {
     birthday,
     anniversary,
     urls,
+    ims,
+    socialProfiles,
+    related,
+    gender,
+    languages,
     notes,
     categories,
     photo,
+    extraProperties: props.unmapped(),
     metadata: {
       created,
       modified: rev ?? new Date().toISOString(),
@@ -214,14 +329,136 @@ export function vcardToContact(vcard: string): Contact {
   });
 }
 
+/**
+ * Serialize a ContactGroup as a vCard 4.0 KIND:group card with MEMBER references.
+ */
+export function groupToVCard(group: ContactGroup): string {
+  const lines: string[] = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    'KIND:group',
+    `UID:urn:uuid:${group.id}`,
+    `FN:${escapeVCardValue(group.name)}`,
+  ];
+
+  if (group.description) {
+    lines.push(`NOTE:${escapeVCardValue(group.description)}`);
+  }
+  for (const memberId of group.memberIds) {
+    lines.push(`MEMBER:urn:uuid:${memberId}`);
+  }
+
+  lines.push(`REV:${group.metadata.modified}`);
+  if (group.metadata.source) {
+    lines.push(`X-CONTACTS-MCP-SOURCE:${escapeVCardValue(group.metadata.source)}`);
+  }
+  if (Object.keys(group.metadata.providerIds).length > 0) {
+    lines.push(`X-CONTACTS-MCP-PROVIDER-IDS:${escapeVCardValue(JSON.stringify(group.metadata.providerIds))}`);
+  }
+  lines.push(`X-CONTACTS-MCP-CREATED:${group.metadata.created}`);
+  lines.push('END:VCARD');
+
+  return foldLines(lines.join('\r\n'));
+}
+
+/**
+ * True for group cards: KIND:group (4.0) or Apple's X-ADDRESSBOOKSERVER-KIND:group (3.0).
+ */
+export function isGroupVCard(vcard: string): boolean {
+  const props = parseProperties(unfoldLines(vcard));
+  const kind = props.get('KIND')?.value ?? props.get('X-ADDRESSBOOKSERVER-KIND')?.value;
+  return kind?.trim().toLowerCase() === 'group';
+}
+
+/** Split a multi-contact vCard file into individual vCard strings. */
+export function splitVCards(raw: string): string[] {
+  const cards: string[] = [];
+  const lines = raw.split(/\r?\n/);
+  let current: string[] = [];
+  let inCard = false;
+
+  for (const line of lines) {
+    if (line.toUpperCase().startsWith('BEGIN:VCARD')) {
+      inCard = true;
+      current = [line];
+    } else if (line.toUpperCase().startsWith('END:VCARD')) {
+      current.push(line);
+      if (inCard) cards.push(current.join('\r\n'));
+      inCard = false;
+      current = [];
+    } else if (inCard) {
+      current.push(line);
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Parse a group vCard. Members are returned as the UIDs they reference;
+ * non-UID member URIs (mailto:, http:) are skipped.
+ */
+export function vcardToGroup(vcard: string): ContactGroup {
+  const props = parseProperties(unfoldLines(vcard));
+  const version = props.get('VERSION')?.value.trim() ?? '4.0';
+  const text = (value: string) => unescapeVCardValue(value, version);
+
+  const members = [...props.getAll('MEMBER'), ...props.getAll('X-ADDRESSBOOKSERVER-MEMBER')];
+  const memberIds = [...new Set(
+    members.map(p => extractUid(p.value.trim().replace(/^urn:uuid:/i, ''))).filter((id): id is string => !!id),
+  )];
+
+  const noteValue = props.get('NOTE')?.value;
+  const rev = props.get('REV')?.value;
+  const source = props.get('X-CONTACTS-MCP-SOURCE')?.value;
+  const providerIdsRaw = props.get('X-CONTACTS-MCP-PROVIDER-IDS')?.value;
+  let providerIds: Record<string, string> = {};
+  if (providerIdsRaw) {
+    try { providerIds = JSON.parse(unescapeVCardValue(providerIdsRaw)); } catch { /* ignore */ }
+  }
+
+  return {
+    id: extractUid(props.get('UID')?.value ?? '') ?? generateId(),
+    name: text(props.get('FN')?.value ?? '') || 'Unnamed group',
+    description: noteValue ? text(noteValue) : undefined,
+    memberIds,
+    metadata: {
+      created: props.get('X-CONTACTS-MCP-CREATED')?.value ?? rev ?? new Date().toISOString(),
+      modified: rev ?? new Date().toISOString(),
+      source: source ? unescapeVCardValue(source) : undefined,
+      providerIds,
+    },
+  };
+}
+
 // --- Helpers ---
 
 interface VCardProperty {
+  group?: string;
   name: string;
-  params: string[];
+  /** Upper-cased parameter names; bare 2.1 params are filed under TYPE or ENCODING. */
+  params: Record<string, string[]>;
+  /** Value with transfer encodings (quoted-printable, charset) decoded but still vCard-escaped. */
   value: string;
+  /** Parameters and value exactly as they appeared, for properties kept verbatim. */
+  raw: { params: string[]; value: string };
 }
 
+/** Properties vcardToContact maps; only the first occurrence is used. */
+const SINGLE_PROPERTIES = new Set([
+  'VERSION', 'UID', 'FN', 'N', 'NICKNAME', 'GENDER', 'ORG',
+  'X-PHONETIC-FIRST-NAME', 'X-PHONETIC-MIDDLE-NAME', 'X-PHONETIC-LAST-NAME', 'TITLE', 'BDAY', 'ANNIVERSARY', 'NOTE', 'PHOTO', 'REV',
+  'X-CONTACTS-MCP-SOURCE', 'X-CONTACTS-MCP-PROVIDER-IDS', 'X-CONTACTS-MCP-CREATED', 'X-CONTACTS-MCP-ARCHIVED',
+]);
+
+/** Properties vcardToContact maps every occurrence of. */
+const LIST_PROPERTIES = new Set([
+  'EMAIL', 'TEL', 'ADR', 'URL', 'IMPP', 'X-SOCIALPROFILE', 'RELATED', 'LANG', 'CATEGORIES',
+]);
+
+/** Properties describing the file rather than the contact; regenerated on write. */
+const DISCARDED_PROPERTIES = new Set(['PRODID']);
+
 class PropertyMap {
   private entries: VCardProperty[] = [];
 
@@ -229,53 +466,203 @@ class PropertyMap {
     this.entries.push(prop);
   }
 
-  get(name: string): string | undefined {
-    return this.entries.find(e => e.name === name.toUpperCase())?.value;
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  get(name: string): VCardProperty | undefined {
+    return this.entries.find(e => e.name === name.toUpperCase());
   }
 
   getAll(name: string): VCardProperty[] {
     return this.entries.filter(e => e.name === name.toUpperCase());
   }
-}
 
-function getFirstValue(props: PropertyMap, name: string): string | undefined {
-  return props.get(name);
+  /** Everything the Contact model doesn't capture, as extra properties. */
+  unmapped(): ContactExtraProperty[] {
+    return this.entries
+      .filter(e => {
+        if (LIST_PROPERTIES.has(e.name) || DISCARDED_PROPERTIES.has(e.name)) return false;
+        return !SINGLE_PROPERTIES.has(e.name) || this.get(e.name) !== e;
+      })
+      .map(e => ({ group: e.group, name: e.name, params: e.raw.params, value: e.raw.value }));
+  }
 }
 
+const ENCODING_PARAMS = new Set(['QUOTED-PRINTABLE', 'BASE64', 'B', '8BIT', '7BIT']);
+
 function parseProperties(lines: string[]): PropertyMap {
   const map = new PropertyMap();
   for (const line of lines) {
-    if (!line.includes(':')) continue;
-    const colonIdx = line.indexOf(':');
-    const left = line.substring(0, colonIdx);
-    const value = line.substring(colonIdx + 1);
+    const colonIdx = findUnquoted(line, ':');
+    if (colonIdx === -1) continue;
 
-    const parts = left.split(';');
-    const name = parts[0].toUpperCase();
-    const params = parts.slice(1);
+    const [nameWithGroup, ...rawParams] = splitUnquoted(line.substring(0, colonIdx), ';');
+    const dotIdx = nameWithGroup.lastIndexOf('.');
+    const group = dotIdx > 0 ? nameWithGroup.substring(0, dotIdx) : undefined;
+    const name = nameWithGroup.substring(dotIdx + 1).toUpperCase();
 
     if (name === 'BEGIN' || name === 'END') continue;
 
-    map.add({ name, params, value });
+    const params = parseParams(rawParams);
+    const rawValue = line.substring(colonIdx + 1);
+    const value = decodeValue(rawValue, params);
+    map.add({ group, name, params, value, raw: { params: rawParams.filter(Boolean), value: rawValue } });
   }
   return map;
 }
 
-function extractUid(value: string): string | undefined {
-  if (!value) return undefined;
-  return value.replace(/^urn:uuid:/, '');
+function parseParams(rawParams: string[]): Record<string, string[]> {
+  const params: Record<string, string[]> = {};
+  const add = (key: string, values: string[]) => {
+    (params[key] ??= []).push(...values);
+  };
+
+  for (const raw of rawParams) {
+    if (!raw) continue;
+    const eqIdx = raw.indexOf('=');
+    if (eqIdx === -1) {
+      // vCard 2.1 bare parameter: TEL;CELL;HOME or PHOTO;BASE64;JPEG
+      const upper = raw.toUpperCase();
+      add(ENCODING_PARAMS.has(upper) ? 'ENCODING' : 'TYPE', [raw]);
+      continue;
+    }
+    const key = raw.substring(0, eqIdx).toUpperCase();
+    let values = splitUnquoted(raw.substring(eqIdx + 1), ',').map(v => v.replace(/^"|"$/g, ''));
+    // Google quotes the whole list: TYPE="WORK,VOICE"
+    if (key === 'TYPE') values = values.flatMap(v => v.split(','));
+    add(key, values);
+  }
+  return params;
 }
 
-function extractType(params: string[]): string | undefined {
-  for (const p of params) {
-    const upper = p.toUpperCase();
-    if (upper.startsWith('TYPE=')) {
-      return p.substring(5).toLowerCase();
+function decodeValue(value: string, params: Record<string, string[]>): string {
+  const encoding = params.ENCODING?.[0]?.toUpperCase();
+  if (encoding !== 'QUOTED-PRINTABLE') return value;
+
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value[i] === '=' ? value.substring(i + 1, i + 3) : '';
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(value[i], 'utf-8'));
     }
   }
+
+  const charset = params.CHARSET?.[0] ?? 'utf-8';
+  let decoded: string;
+  try {
+    decoded = new TextDecoder(charset).decode(Uint8Array.from(bytes));
+  } catch {
+    decoded = new TextDecoder('utf-8').decode(Uint8Array.from(bytes));
+  }
+  return decoded.replace(/\r\n?/g, '\n');
+}
+
+const EMAIL_TYPES: Record<string, ContactEmail['type']> = {
+  home: 'home', work: 'work', other: 'other',
+};
+
+// Ordered by priority: TYPE=WORK,FAX is a fax, TYPE=CELL,HOME is a mobile.
+const PHONE_TYPES: Record<string, ContactPhone['type']> = {
+  fax: 'fax', cell: 'mobile', mobile: 'mobile', iphone: 'mobile', work: 'work', home: 'home', other: 'other',
+};
+
+const ADDRESS_TYPES: Record<string, ContactAddress['type']> = {
+  home: 'home', work: 'work', other: 'other',
+};
+
+const IM_TYPES: Record<string, ContactIm['type']> = {
+  home: 'home', work: 'work', other: 'other',
+};
+
+const URL_TYPES: Record<string, ContactUrl['type']> = {
+  home: 'home', work: 'work', blog: 'blog', profile: 'profile', other: 'other',
+};
+
+/** Map a property's TYPE values onto one of our types, honoring the mapping's priority order. */
+function pickType<T>(prop: VCardProperty, mapping: Record<string, T>): T | undefined {
+  const types = new Set((prop.params.TYPE ?? []).map(t => t.toLowerCase()));
+  for (const [key, type] of Object.entries(mapping)) {
+    if (types.has(key)) return type;
+  }
   return undefined;
 }
 
+function isPreferred(prop: VCardProperty): boolean {
+  if (prop.params.PREF) return true;
+  return (prop.params.TYPE ?? []).some(t => t.toLowerCase() === 'pref');
+}
+
+/** Normalize BDAY/ANNIVERSARY to YYYY-MM-DD (or --MMDD when the year is unknown). */
+function parseDate(prop: VCardProperty | undefined): string | undefined {
+  if (!prop?.value) return undefined;
+  const value = prop.value.trim();
+
+  const basic = value.match(/^(\d{4})(\d{2})(\d{2})(?:T.*)?$/);
+  const extended = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T.*)?$/);
+  const match = basic ?? extended;
+  if (!match) return value;
+
+  const [, year, month, day] = match;
+  // Apple marks year-less birthdays with a placeholder year
+  if (prop.params['X-APPLE-OMIT-YEAR']?.[0] === year) return `--${month}${day}`;
+  return `${year}-${month}-${day}`;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg', jpg: 'image/jpeg', png: 'image/png', gif: 'image/gif', bmp: 'image/bmp', webp: 'image/webp',
+};
+
+/** Inline base64 photos (3.0 ENCODING=b, 2.1 BASE64) become data: URIs; URIs pass through. */
+function parsePhoto(prop: VCardProperty | undefined): string | undefined {
+  if (!prop?.value) return undefined;
+  const encoding = prop.params.ENCODING?.[0]?.toUpperCase();
+  if (encoding !== 'B' && encoding !== 'BASE64') return prop.value;
+
+  const type = (prop.params.TYPE ?? []).map(t => t.toLowerCase()).find(t => IMAGE_TYPES[t] || t.startsWith('image/'));
+  const mime = type ? (IMAGE_TYPES[type] ?? type) : 'image/jpeg';
+  return `data:${mime};base64,${prop.value.replace(/\s/g, '')}`;
+}
+
+const GENDER_SEXES = new Set(['M', 'F', 'O', 'N', 'U']);
+
+/** GENDER is "sex;identity", e.g. "F", "O;non-binary", ";it's complicated". */
+function parseGender(prop: VCardProperty | undefined, text: (value: string) => string): ContactGender | undefined {
+  if (!prop?.value) return undefined;
+  const [rawSex, ...rest] = splitValue(prop.value, ';');
+  const sex = rawSex.trim().toUpperCase();
+  const identity = text(rest.join(';')) || undefined;
+  if (!GENDER_SEXES.has(sex) && !identity) return undefined;
+  return { sex: GENDER_SEXES.has(sex) ? sex as ContactGender['sex'] : undefined, identity };
+}
+
+function imScheme(service: string): string {
+  return service.toLowerCase().replace(/[^a-z0-9+.-]/g, '');
+}
+
+function isUri(value: string): boolean {
+  return /^[A-Za-z][A-Za-z0-9+.-]*:/.test(value);
+}
+
+/** Quote a parameter value when it contains characters that would end the parameter. */
+function quoteParam(value: string): string {
+  return /[;:,]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+function withGroup(group: string | undefined, name: string): string {
+  return group ? `${group}.${name}` : name;
+}
+
+function extractUid(value: string): string | undefined {
+  const uid = value.trim().replace(/^urn:uuid:/i, '');
+  // The UID doubles as the file name in the store, so only accept safe ones
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(uid)) return undefined;
+  return uid;
+}
+
 function escapeVCardValue(value: string): string {
   return value
     .replace(/\\/g, '\\\\')
@@ -284,12 +671,56 @@ function escapeVCardValue(value: string): string {
     .replace(/\n/g, '\\n');
 }
 
-function unescapeVCardValue(value: string): string {
-  return value
-    .replace(/\\n/g, '\n')
-    .replace(/\\,/g, ',')
-    .replace(/\\;/g, ';')
-    .replace(/\\\\/g, '\\');
+/**
+ * Undo vCard escaping. 2.1 only escapes semicolons (newlines arrive quoted-printable);
+ * Google's 3.0 exports also escape colons.
+ */
+function unescapeVCardValue(value: string, version: string = '4.0'): string {
+  if (version === '2.1') return value.replace(/\\;/g, ';');
+  return value.replace(/\\([\\;,:nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/** Split a structured value (N, ADR, ORG, CATEGORIES) on separators that aren't escaped. */
+function splitValue(value: string, separator: ';' | ','): string[] {
+  const result: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      result.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  result.push(current);
+  return result;
+}
+
+function findUnquoted(text: string, ch: string): number {
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (text[i] === ch && !quoted) return i;
+  }
+  return -1;
+}
+
+function splitUnquoted(text: string, separator: string): string[] {
+  const result: string[] = [];
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (text[i] === separator && !quoted) {
+      result.push(text.substring(start, i));
+      start = i + 1;
+    }
+  }
+  result.push(text.substring(start));
+  return result;
 }
 
 /** RFC 6350 line folding: lines longer than 75 octets are folded with CRLF + space. */
@@ -314,16 +745,28 @@ function foldLines(text: string): string {
   }).join('\r\n');
 }
 
-/** Unfold continuation lines (lines starting with space or tab). */
+/**
+ * Unfold continuation lines (lines starting with space or tab), and join
+ * 2.1 quoted-printable soft line breaks (a trailing "=").
+ */
 function unfoldLines(text: string): string[] {
   const raw = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
   const result: string[] = [];
   for (const line of raw) {
-    if ((line.startsWith(' ') || line.startsWith('\t')) && result.length > 0) {
-      result[result.length - 1] += line.substring(1);
+    const last = result.length - 1;
+    if (last >= 0 && isQuotedPrintableSoftBreak(result[last])) {
+      result[last] = result[last].slice(0, -1) + line;
+    } else if ((line.startsWith(' ') || line.startsWith('\t')) && last >= 0) {
+      result[last] += line.substring(1);
     } else {
       result.push(line);
     }
   }
   return result.filter(l => l.length > 0);
 }
+
+function isQuotedPrintableSoftBreak(line: string): boolean {
+  if (!line.endsWith('=')) return false;
+  const colonIdx = findUnquoted(line, ':');
+  return colonIdx !== -1 && /QUOTED-PRINTABLE/i.test(line.substring(0, colonIdx));
+}
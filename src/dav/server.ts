@@ -0,0 +1,356 @@
+import * as http from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { Contact } from '../types/index.js';
+import type { GitContactStore } from '../store/index.js';
+import { CONTACTS_DIR, extractIdFromPath } from '../store/file-layout.js';
+import { contactToVCard, isGroupVCard, vcardToContact } from '../contacts/vcard.js';
+import { replacementFields } from '../contacts/model.js';
+import { ContactNotFoundError, DavError, logger } from '../utils/index.js';
+
+export interface CardDAVServerConfig {
+  /** Address to listen on; default 127.0.0.1 (this machine only) */
+  host?: string;
+  /** Default 5232; 0 picks a free port */
+  port?: number;
+  /** Basic auth credentials clients must send */
+  username: string;
+  password: string;
+  /** Name clients show for the address book; default "Contacts" */
+  displayName?: string;
+}
+
+const DEFAULT_PORT = 5232;
+const BOOK_PATH = '/contacts/';
+const SYNC_TOKEN_PREFIX = 'urn:contacts-mcp:sync:';
+/** Largest request body read; a vCard with a photo is far smaller */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const NAMESPACES = 'xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav" xmlns:cs="http://calendarserver.org/ns/"';
+
+/**
+ * Serves the store as a single CardDAV address book at /contacts/, one
+ * /contacts/<id>.vcf per active contact, for clients that only speak CardDAV
+ * (phones, Thunderbird). Supports PROPFIND, REPORT (addressbook-query,
+ * addressbook-multiget, sync-collection), GET, PUT and DELETE. Writes go
+ * through the store, so each PUT or DELETE is a commit; DELETE archives.
+ *
+ * The git HEAD doubles as the ctag and sync-token, and a card's etag is a hash
+ * of its vCard, so If-Match and If-None-Match protect concurrent writers.
+ */
+export class CardDAVServer {
+  private store: GitContactStore;
+  private config: CardDAVServerConfig;
+  private server = http.createServer((req, res) => void this.handle(req, res));
+
+  constructor(store: GitContactStore, config: CardDAVServerConfig) {
+    this.store = store;
+    this.config = config;
+  }
+
+  /** Refuses to start without credentials, which would otherwise let anyone in. */
+  async start(): Promise<void> {
+    const { host = '127.0.0.1', port = DEFAULT_PORT, username, password } = this.config;
+    if (!isNonEmptyString(username) || !isNonEmptyString(password)) {
+      throw new Error('carddavServer needs a non-empty username and password');
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    logger.info('CardDAV server listening at', this.url);
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  get url(): string {
+    const { address, port } = this.server.address() as AddressInfo;
+    const host = address.includes(':') ? `[${address}]` : address;
+    return `http://${host}:${port}/`;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      if (!this.authorized(req.headers.authorization)) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="contacts-mcp"' });
+        res.end();
+        return;
+      }
+
+      const body = await readBody(req);
+      const pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+
+      if (req.method === 'OPTIONS') {
+        res.writeHead(200, {
+          DAV: '1, 3, addressbook',
+          Allow: 'OPTIONS, PROPFIND, REPORT, GET, HEAD, PUT, DELETE',
+        });
+        res.end();
+        return;
+      }
+      if (pathname === '/.well-known/carddav') {
+        res.writeHead(301, { Location: '/' });
+        res.end();
+        return;
+      }
+
+      if (pathname === '/') return await this.root(req, res);
+      if (pathname === BOOK_PATH || pathname === BOOK_PATH.slice(0, -1)) return await this.book(req, res, body);
+      const id = cardId(pathname);
+      if (id) return await this.card(req, res, id, body);
+      reply(res, 404);
+    } catch (err: any) {
+      if (err instanceof DavError) {
+        reply(res, err.status, err.body);
+        return;
+      }
+      logger.error('CardDAV server error:', err);
+      reply(res, 500, err.message);
+    }
+  }
+
+  private authorized(header: string | undefined): boolean {
+    const expected = Buffer.from(`Basic ${Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64')}`);
+    const given = Buffer.from(header ?? '');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  /** The server root acts as both the user's principal and their address book home. */
+  private async root(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'PROPFIND') throw new DavError(405, 'Method not allowed');
+
+    const responses = [response('/', [
+      '<d:resourcetype><d:collection/><d:principal/></d:resourcetype>',
+      '<d:current-user-principal><d:href>/</d:href></d:current-user-principal>',
+      '<d:principal-URL><d:href>/</d:href></d:principal-URL>',
+      '<card:addressbook-home-set><d:href>/</d:href></card:addressbook-home-set>',
+      `<d:displayname>${escapeXml(this.config.username)}</d:displayname>`,
+    ].join(''))];
+    if (req.headers.depth !== '0') responses.push(await this.bookResponse());
+    multistatus(res, responses);
+  }
+
+  private async book(req: http.IncomingMessage, res: http.ServerResponse, body: string): Promise<void> {
+    if (req.method === 'PROPFIND') {
+      const responses = [await this.bookResponse()];
+      if (req.headers.depth === '1') {
+        for (const card of await this.cards()) responses.push(cardResponse(card, false));
+      }
+      return multistatus(res, responses);
+    }
+    if (req.method !== 'REPORT') throw new DavError(405, 'Method not allowed');
+
+    const withData = body.includes('address-data');
+    if (body.includes('sync-collection')) {
+      const token = /sync-token[^>]*>([^<]*)</.exec(body)?.[1]?.trim() ?? '';
+      return this.syncCollection(res, token, withData);
+    }
+    if (body.includes('addressbook-multiget')) {
+      const byId = new Map((await this.cards()).map(card => [card.contact.id, card]));
+      const hrefs = [...body.matchAll(/<(?:[\w-]+:)?href>([^<]+)</g)].map(m => m[1].trim());
+      return multistatus(res, hrefs.map(href => {
+        const card = byId.get(cardId(decodeURIComponent(new URL(href, 'http://localhost').pathname)) ?? '');
+        return card ? cardResponse(card, withData) : missing(href);
+      }));
+    }
+    if (body.includes('addressbook-query')) {
+      // Filters are ignored: every card matches, which clients handle by filtering themselves
+      return multistatus(res, (await this.cards()).map(card => cardResponse(card, withData)));
+    }
+    throw new DavError(501, 'Unsupported report');
+  }
+
+  /** RFC 6578: cards changed and removed since the commit named by the token, or all cards without one. */
+  private async syncCollection(res: http.ServerResponse, token: string, withData: boolean): Promise<void> {
+    const head = await this.store.gitOps.head();
+    const cards = await this.cards();
+    let responses: string[];
+
+    if (!token) {
+      responses = cards.map(card => cardResponse(card, withData));
+    } else {
+      const since = token.startsWith(SYNC_TOKEN_PREFIX) ? token.slice(SYNC_TOKEN_PREFIX.length) : '';
+      let changes: { status: string; path: string }[];
+      try {
+        if (!/^[0-9a-f]{7,40}$/.test(since)) throw new Error('not a commit');
+        changes = await this.store.gitOps.changedFiles(since, head, CONTACTS_DIR);
+      } catch {
+        throw new DavError(403, 'Invalid sync token', xmlDocument('<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>'));
+      }
+      const byId = new Map(cards.map(card => [card.contact.id, card]));
+      responses = changes.flatMap(change => {
+        const id = extractIdFromPath(change.path);
+        if (!id) return [];
+        const card = byId.get(id);
+        return card ? [cardResponse(card, withData)] : [missing(cardHref(id))];
+      });
+    }
+
+    multistatus(res, responses, `<d:sync-token>${SYNC_TOKEN_PREFIX}${head}</d:sync-token>`);
+  }
+
+  private async card(req: http.IncomingMessage, res: http.ServerResponse, id: string, body: string): Promise<void> {
+    const current = await this.findCard(id);
+
+    switch (req.method) {
+      case 'GET':
+      case 'HEAD': {
+        if (!current) throw new DavError(404, 'Not found');
+        res.writeHead(200, { 'Content-Type': 'text/vcard; charset=utf-8', ETag: current.etag });
+        res.end(req.method === 'GET' ? current.vcard : undefined);
+        return;
+      }
+      case 'PROPFIND': {
+        if (!current) throw new DavError(404, 'Not found');
+        return multistatus(res, [cardResponse(current, false)]);
+      }
+      case 'PUT': {
+        checkPreconditions(req, current);
+        // The address book holds contacts only; groups live in the store's group files
+        if (isGroupVCard(body)) {
+          throw new DavError(403, 'Contact groups are not supported', xmlDocument('<d:error xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav"><card:valid-address-data/></d:error>'));
+        }
+        let parsed: Contact;
+        try {
+          parsed = vcardToContact(body);
+        } catch (err: any) {
+          throw new DavError(400, `Invalid vCard: ${err.message}`);
+        }
+        const written = current
+          ? await this.store.update(id, replacementFields(parsed))
+          : await this.store.create({ ...replacementFields(parsed), fullName: parsed.fullName, id });
+        res.writeHead(current ? 204 : 201, { ETag: toCard(written).etag });
+        res.end();
+        return;
+      }
+      case 'DELETE': {
+        if (!current) throw new DavError(404, 'Not found');
+        checkPreconditions(req, current);
+        await this.store.delete(id);
+        reply(res, 204);
+        return;
+      }
+      default:
+        throw new DavError(405, 'Method not allowed');
+    }
+  }
+
+  private async bookResponse(): Promise<string> {
+    const head = await this.store.gitOps.head();
+    const reports = ['card:addressbook-query', 'card:addressbook-multiget', 'd:sync-collection']
+      .map(r => `<d:supported-report><d:report><${r}/></d:report></d:supported-report>`);
+    return response(BOOK_PATH, [
+      '<d:resourcetype><d:collection/><card:addressbook/></d:resourcetype>',
+      `<d:displayname>${escapeXml(this.config.displayName ?? 'Contacts')}</d:displayname>`,
+      `<cs:getctag>${head}</cs:getctag>`,
+      `<d:sync-token>${SYNC_TOKEN_PREFIX}${head}</d:sync-token>`,
+      `<d:supported-report-set>${reports.join('')}</d:supported-report-set>`,
+      '<card:supported-address-data><card:address-data-type content-type="text/vcard" version="4.0"/></card:supported-address-data>',
+      '<d:current-user-principal><d:href>/</d:href></d:current-user-principal>',
+    ].join(''));
+  }
+
+  private async cards(): Promise<Card[]> {
+    return (await this.store.list(false)).map(toCard);
+  }
+
+  /** The active contact served at /contacts/<id>.vcf; archived ones are gone as far as clients know. */
+  private async findCard(id: string): Promise<Card | null> {
+    try {
+      const contact = await this.store.get(id);
+      return contact.metadata.archived ? null : toCard(contact);
+    } catch (err) {
+      if (err instanceof ContactNotFoundError) return null;
+      throw err;
+    }
+  }
+}
+
+interface Card {
+  contact: Contact;
+  vcard: string;
+  etag: string;
+}
+
+function toCard(contact: Contact): Card {
+  const vcard = contactToVCard(contact);
+  return { contact, vcard, etag: `"${createHash('sha1').update(vcard).digest('hex')}"` };
+}
+
+function cardHref(id: string): string {
+  return `${BOOK_PATH}${encodeURIComponent(id)}.vcf`;
+}
+
+/** Contact ID from a card path like /contacts/<id>.vcf, if it is one. */
+function cardId(pathname: string): string | undefined {
+  const match = /^\/contacts\/([A-Za-z0-9][A-Za-z0-9._-]*)\.vcf$/.exec(pathname);
+  return match?.[1];
+}
+
+/** If-Match must name the current etag; If-None-Match: * only allows creating. */
+function checkPreconditions(req: http.IncomingMessage, current: Card | null): void {
+  const ifMatch = req.headers['if-match'];
+  if (ifMatch && (!current || (ifMatch !== '*' && ifMatch !== current.etag))) {
+    throw new DavError(412, 'Precondition failed');
+  }
+  if (req.headers['if-none-match'] === '*' && current) {
+    throw new DavError(412, 'Precondition failed');
+  }
+}
+
+function cardResponse(card: Card, withData: boolean): string {
+  const data = withData ? `<card:address-data>${escapeXml(card.vcard)}</card:address-data>` : '';
+  return response(cardHref(card.contact.id), `<d:getetag>${escapeXml(card.etag)}</d:getetag><d:getcontenttype>text/vcard; charset=utf-8</d:getcontenttype>${data}`);
+}
+
+function response(href: string, props: string): string {
+  return `<d:response><d:href>${escapeXml(href)}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+}
+
+function missing(href: string): string {
+  return `<d:response><d:href>${escapeXml(href)}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`;
+}
+
+function multistatus(res: http.ServerResponse, responses: string[], trailer: string = ''): void {
+  reply(res, 207, xmlDocument(`<d:multistatus ${NAMESPACES}>${responses.join('')}${trailer}</d:multistatus>`));
+}
+
+function xmlDocument(root: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>${root}`;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/** The request body as text, or a 413 DavError once it passes MAX_BODY_BYTES. */
+function readBody(req: http.IncomingMessage): Promise<string> {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    return Promise.reject(new DavError(413, 'Request body too large'));
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep draining past the limit, so the client still gets the 413
+      if (size > MAX_BODY_BYTES) reject(new DavError(413, 'Request body too large'));
+      else chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function reply(res: http.ServerResponse, status: number, body: string = ''): void {
+  res.writeHead(status, body.startsWith('<?xml') ? { 'Content-Type': 'application/xml; charset=utf-8' } : {});
+  res.end(body);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
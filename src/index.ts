@@ -2,10 +2,14 @@
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { loadConfig } from './config.js';
 import { createServer } from './server.js';
+import { SyncScheduler } from './sync/scheduler.js';
+import { CardDAVServer } from './dav/server.js';
+import { providerRegistry } from './providers/registry.js';
 import { logger } from './utils/index.js';
 
 async function main() {
   const config = await loadConfig();
+  await providerRegistry.loadPlugins(config.plugins ?? []);
   const { server, store } = createServer(config);
 
   await store.init();
@@ -14,6 +18,14 @@ async function main() {
   await server.connect(transport);
 
   logger.info('contacts-mcp server running on stdio');
+
+  await new SyncScheduler(store, config.providers, cfg => providerRegistry.create(cfg)).start();
+
+  if (config.carddavServer && config.carddavServer.enabled !== false) {
+    // The MCP server is still useful without it, e.g. if the port is taken
+    await new CardDAVServer(store, config.carddavServer).start()
+      .catch(err => logger.error('CardDAV server not started:', err.message));
+  }
 }
 
 main().catch((err) => {
@@ -1,12 +1,42 @@
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
-import type { Contact } from '../types/index.js';
+import type { Contact, ContactGroup, RemoteGroup, RemoteRevision } from '../types/index.js';
 import { BaseProvider } from './base.js';
 import { createContact } from '../contacts/model.js';
 import { generateId, logger, ProviderError } from '../utils/index.js';
 
 const execFileAsync = promisify(execFile);
 
+/** JXA function turning a Contacts.app person into plain JSON for rawToContact. */
+const SERIALIZE_PERSON = `
+  function serializePerson(p) {
+    return {
+      id: p.id(),
+      firstName: p.firstName() || '',
+      lastName: p.lastName() || '',
+      middleName: p.middleName() || '',
+      nickname: p.nickname() || '',
+      phoneticFirstName: p.phoneticFirstName() || '',
+      phoneticMiddleName: p.phoneticMiddleName() || '',
+      phoneticLastName: p.phoneticLastName() || '',
+      organization: p.organization() || '',
+      jobTitle: p.jobTitle() || '',
+      note: p.note() || '',
+      birthday: p.birthDate() ? p.birthDate().toISOString().split('T')[0] : null,
+      emails: p.emails().map(e => ({ value: e.value(), label: e.label() })),
+      phones: p.phones().map(ph => ({ value: ph.value(), label: ph.label() })),
+      addresses: p.addresses().map(a => ({
+        street: a.street() || '', city: a.city() || '', state: a.state() || '',
+        zip: a.zip() || '', country: a.country() || '', label: a.label() || '',
+      })),
+      urls: p.urls().map(u => ({ value: u.value(), label: u.label() })),
+      ims: p.instantMessages().map(im => ({ service: im.serviceName(), user: im.userName(), label: im.label() })),
+      socialProfiles: p.socialProfiles().map(sp => ({ service: sp.serviceName(), user: sp.userName(), url: sp.url() })),
+      related: p.relatedNames().map(r => ({ value: r.value(), label: r.label() })),
+    };
+  }
+`;
+
 /**
  * Apple Contacts provider using JXA (JavaScript for Automation) via osascript.
  * Only works on macOS. Requires Contacts access permission.
@@ -14,6 +44,11 @@ const execFileAsync = promisify(execFile);
 export class AppleProvider extends BaseProvider {
   readonly name: string;
   readonly type = 'apple' as const;
+  readonly syncFields = [
+    'fullName', 'name', 'nickname', 'emails', 'phones', 'addresses', 'organization', 'birthday',
+    'urls', 'ims', 'socialProfiles', 'related', 'notes',
+  ];
+  readonly relatedAsNames = true;
 
   constructor(name: string = 'apple', config: Record<string, unknown> = {}) {
     super(config);
@@ -32,34 +67,13 @@ export class AppleProvider extends BaseProvider {
 
   async fetchAll(): Promise<Contact[]> {
     const script = `
+      ${SERIALIZE_PERSON}
       const app = Application("Contacts");
       const people = app.people();
       const results = [];
       for (let i = 0; i < people.length; i++) {
-        const p = people[i];
         try {
-          results.push({
-            id: p.id(),
-            firstName: p.firstName() || '',
-            lastName: p.lastName() || '',
-            middleName: p.middleName() || '',
-            nickname: p.nickname() || '',
-            organization: p.organization() || '',
-            jobTitle: p.jobTitle() || '',
-            note: p.note() || '',
-            birthday: p.birthDate() ? p.birthDate().toISOString().split('T')[0] : null,
-            emails: p.emails().map(e => ({ value: e.value(), label: e.label() })),
-            phones: p.phones().map(ph => ({ value: ph.value(), label: ph.label() })),
-            addresses: p.addresses().map(a => ({
-              street: a.street() || '',
-              city: a.city() || '',
-              state: a.state() || '',
-              zip: a.zip() || '',
-              country: a.country() || '',
-              label: a.label() || '',
-            })),
-            urls: p.urls().map(u => ({ value: u.value(), label: u.label() })),
-          });
+          results.push(serializePerson(people[i]));
         } catch(e) { /* skip contacts that error */ }
       }
       JSON.stringify(results);
@@ -75,29 +89,10 @@ export class AppleProvider extends BaseProvider {
 
   async fetchOne(remoteId: string): Promise<Contact | null> {
     const script = `
+      ${SERIALIZE_PERSON}
       const app = Application("Contacts");
       const people = app.people.whose({ id: "${remoteId.replace(/"/g, '\\"')}" })();
-      if (people.length === 0) { JSON.stringify(null); }
-      else {
-        const p = people[0];
-        JSON.stringify({
-          id: p.id(),
-          firstName: p.firstName() || '',
-          lastName: p.lastName() || '',
-          middleName: p.middleName() || '',
-          organization: p.organization() || '',
-          jobTitle: p.jobTitle() || '',
-          note: p.note() || '',
-          birthday: p.birthDate() ? p.birthDate().toISOString().split('T')[0] : null,
-          emails: p.emails().map(e => ({ value: e.value(), label: e.label() })),
-          phones: p.phones().map(ph => ({ value: ph.value(), label: ph.label() })),
-          addresses: p.addresses().map(a => ({
-            street: a.street() || '', city: a.city() || '', state: a.state() || '',
-            zip: a.zip() || '', country: a.country() || '', label: a.label() || '',
-          })),
-          urls: p.urls().map(u => ({ value: u.value(), label: u.label() })),
-        });
-      }
+      JSON.stringify(people.length === 0 ? null : serializePerson(people[0]));
     `;
 
     const output = await this.runJxa(script);
@@ -106,7 +101,7 @@ export class AppleProvider extends BaseProvider {
     return this.rawToContact(raw);
   }
 
-  async pushContact(contact: Contact): Promise<string> {
+  async pushContact(contact: Contact): Promise<RemoteRevision> {
     const c = contact;
     const script = `
       const app = Application("Contacts");
@@ -116,23 +111,29 @@ export class AppleProvider extends BaseProvider {
         organization: ${JSON.stringify(c.organization?.name ?? '')},
         jobTitle: ${JSON.stringify(c.organization?.title ?? '')},
         note: ${JSON.stringify(c.notes ?? '')},
+        nickname: ${JSON.stringify(c.nickname ?? '')},
+        phoneticFirstName: ${JSON.stringify(c.name.phoneticGivenName ?? '')},
+        phoneticLastName: ${JSON.stringify(c.name.phoneticFamilyName ?? '')},
       });
       app.people.push(p);
       ${c.emails.map(e => `p.emails.push(app.Email({ value: ${JSON.stringify(e.value)}, label: ${JSON.stringify(e.type ?? 'other')} }));`).join('\n')}
       ${c.phones.map(p => `p.phones.push(app.Phone({ value: ${JSON.stringify(p.value)}, label: ${JSON.stringify(p.type ?? 'other')} }));`).join('\n')}
+      ${c.ims.map(im => `p.instantMessages.push(app.InstantMessage({ serviceName: ${JSON.stringify(im.service ?? '')}, userName: ${JSON.stringify(im.value)}, label: ${JSON.stringify(im.type ?? 'other')} }));`).join('\n')}
+      ${c.socialProfiles.map(sp => `p.socialProfiles.push(app.SocialProfile({ serviceName: ${JSON.stringify(sp.service ?? '')}, userName: ${JSON.stringify(sp.username ?? '')}, url: ${JSON.stringify(sp.value)} }));`).join('\n')}
+      ${c.related.map(r => `p.relatedNames.push(app.RelatedName({ value: ${JSON.stringify(r.value)}, label: ${JSON.stringify(r.type ?? 'other')} }));`).join('\n')}
       app.save();
       p.id();
     `;
 
     const id = await this.runJxa(script);
-    return id.trim();
+    return { remoteId: id.trim() };
   }
 
-  async updateContact(remoteId: string, contact: Contact): Promise<void> {
-    // Apple Contacts doesn't have a clean update API via JXA.
-    // Strategy: delete and re-create.
+  async updateContact(remoteId: string, contact: Contact): Promise<RemoteRevision> {
+    // Apple Contacts doesn't have a clean update API via JXA, nor revisions to check.
+    // Strategy: delete and re-create, which gives the person a new ID.
     await this.deleteContact(remoteId);
-    await this.pushContact(contact);
+    return this.pushContact(contact);
   }
 
   async deleteContact(remoteId: string): Promise<void> {
@@ -148,6 +149,64 @@ export class AppleProvider extends BaseProvider {
     await this.runJxa(script);
   }
 
+  async fetchGroups(): Promise<RemoteGroup[]> {
+    const script = `
+      const app = Application("Contacts");
+      const groups = app.groups();
+      JSON.stringify(groups.map(g => ({ id: g.id(), name: g.name(), members: g.people().map(p => p.id()) })));
+    `;
+
+    const output = await this.runJxa(script);
+    const groups: RemoteGroup[] = JSON.parse(output).map((g: any) => ({
+      remoteId: g.id,
+      name: g.name,
+      memberRemoteIds: g.members,
+    }));
+    logger.info(`Apple: fetched ${groups.length} groups`);
+    return groups;
+  }
+
+  async pushGroup(group: ContactGroup, memberRemoteIds: string[]): Promise<string> {
+    const script = `
+      const app = Application("Contacts");
+      const g = app.Group({ name: ${JSON.stringify(group.name)} });
+      app.groups.push(g);
+      for (const id of ${JSON.stringify(memberRemoteIds)}) {
+        const people = app.people.whose({ id })();
+        if (people.length > 0) app.add(people[0], { to: g });
+      }
+      app.save();
+      g.id();
+    `;
+
+    const id = await this.runJxa(script);
+    return id.trim();
+  }
+
+  async updateGroup(remoteId: string, group: ContactGroup, memberRemoteIds: string[]): Promise<void> {
+    const script = `
+      const app = Application("Contacts");
+      const groups = app.groups.whose({ id: ${JSON.stringify(remoteId)} })();
+      if (groups.length === 0) throw new Error("Group not found");
+      const g = groups[0];
+      g.name = ${JSON.stringify(group.name)};
+      const wanted = ${JSON.stringify(memberRemoteIds)};
+      const current = g.people();
+      for (const p of current) {
+        if (!wanted.includes(p.id())) app.remove(p, { from: g });
+      }
+      const currentIds = current.map(p => p.id());
+      for (const id of wanted) {
+        if (currentIds.includes(id)) continue;
+        const people = app.people.whose({ id })();
+        if (people.length > 0) app.add(people[0], { to: g });
+      }
+      app.save();
+      'ok';
+    `;
+    await this.runJxa(script);
+  }
+
   private rawToContact(raw: any): Contact {
     const fullName = [raw.firstName, raw.middleName, raw.lastName].filter(Boolean).join(' ') || 'Unknown';
 
@@ -158,7 +217,11 @@ export class AppleProvider extends BaseProvider {
         givenName: raw.firstName || undefined,
         middleName: raw.middleName || undefined,
         familyName: raw.lastName || undefined,
+        phoneticGivenName: raw.phoneticFirstName || undefined,
+        phoneticMiddleName: raw.phoneticMiddleName || undefined,
+        phoneticFamilyName: raw.phoneticLastName || undefined,
       },
+      nickname: raw.nickname || undefined,
       emails: (raw.emails ?? []).map((e: any) => ({
         value: e.value,
         type: mapAppleLabel(e.label),
@@ -184,6 +247,20 @@ export class AppleProvider extends BaseProvider {
         value: u.value,
         type: mapAppleLabel(u.label),
       })),
+      ims: (raw.ims ?? []).map((im: any) => ({
+        value: im.user,
+        service: im.service || undefined,
+        type: mapAppleLabel(im.label),
+      })),
+      socialProfiles: (raw.socialProfiles ?? []).map((sp: any) => ({
+        value: sp.url || '',
+        service: sp.service ? sp.service.toLowerCase() : undefined,
+        username: sp.user || undefined,
+      })),
+      related: (raw.related ?? []).map((r: any) => ({
+        value: r.value,
+        type: r.label ? r.label.toLowerCase().replace(/^_\$!<|>!\$_$/g, '') : undefined,
+      })),
       notes: raw.note || undefined,
       metadata: {
         created: new Date().toISOString(),
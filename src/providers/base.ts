@@ -1,4 +1,4 @@
-import type { Contact, ContactProvider } from '../types/index.js';
+import type { Contact, ContactProvider, ProviderSyncState, RemoteRevision } from '../types/index.js';
 import { ProviderError } from '../utils/index.js';
 
 /**
@@ -6,10 +6,10 @@ import { ProviderError } from '../utils/index.js';
  */
 export abstract class BaseProvider implements ContactProvider {
   abstract readonly name: string;
-  abstract readonly type: 'google' | 'apple' | 'carddav' | 'local';
+  abstract readonly type: string;
 
   protected config: Record<string, unknown>;
-  private _lastSyncTime: string | null = null;
+  protected syncState: ProviderSyncState = { etags: {} };
 
   constructor(config: Record<string, unknown> = {}) {
     this.config = config;
@@ -18,16 +18,17 @@ export abstract class BaseProvider implements ContactProvider {
   abstract isConfigured(): Promise<boolean>;
   abstract fetchAll(): Promise<Contact[]>;
   abstract fetchOne(remoteId: string): Promise<Contact | null>;
-  abstract pushContact(contact: Contact): Promise<string>;
-  abstract updateContact(remoteId: string, contact: Contact): Promise<void>;
+  abstract pushContact(contact: Contact): Promise<RemoteRevision>;
+  abstract updateContact(remoteId: string, contact: Contact, etag?: string): Promise<RemoteRevision>;
   abstract deleteContact(remoteId: string): Promise<void>;
 
-  async getLastSyncTime(): Promise<string | null> {
-    return this._lastSyncTime;
+  loadSyncState(state: ProviderSyncState): void {
+    this.syncState = structuredClone(state);
   }
 
-  async setLastSyncTime(time: string): Promise<void> {
-    this._lastSyncTime = time;
+  saveSyncState(): Pick<ProviderSyncState, 'syncToken' | 'ctag' | 'collections'> {
+    const { syncToken, ctag, collections } = this.syncState;
+    return { syncToken, ctag, collections };
   }
 
   protected assertConfigured(field: string): string {
@@ -1,8 +1,11 @@
 import { createDAVClient } from 'tsdav';
-import type { Contact } from '../types/index.js';
+import type { DAVAddressBook, DAVVCard } from 'tsdav';
+import type {
+  CollectionSyncState, Contact, ContactGroup, ProviderSyncState, RemoteChanges, RemoteGroup, RemoteRevision,
+} from '../types/index.js';
 import { BaseProvider } from './base.js';
-import { vcardToContact, contactToVCard } from '../contacts/vcard.js';
-import { generateId, logger, ProviderError } from '../utils/index.js';
+import { vcardToContact, contactToVCard, isGroupVCard, vcardToGroup, groupToVCard } from '../contacts/vcard.js';
+import { generateId, logger, PreconditionFailedError, ProviderError } from '../utils/index.js';
 
 /**
  * CardDAV provider for Fastmail, Nextcloud, iCloud, Radicale, etc.
@@ -12,11 +15,31 @@ import { generateId, logger, ProviderError } from '../utils/index.js';
  * - username: Username
  * - password: Password or app-specific password
  * - authMethod: 'Basic' or 'Digest' (default: 'Basic')
+ *
+ * Optional config:
+ * - addressBooks: address books to sync, by display name or URL (default: all).
+ *   An entry can also be `{ book, category?, group? }`: contacts in the book get
+ *   that local category, or are members of that local group. New contacts are
+ *   pushed to the first book whose category they have, otherwise the first book.
+ *
+ * Each address book's getctag and sync-token are kept after a fetch, so later
+ * syncs skip unchanged books and download only the vCards that changed;
+ * fetchGroups then reads only the books that changed.
  */
 export class CardDAVProvider extends BaseProvider {
   readonly name: string;
   readonly type = 'carddav' as const;
   private client: Awaited<ReturnType<typeof createDAVClient>> | null = null;
+  /** Contact vCard URL -> UID, so group MEMBER entries can be translated to and from URLs */
+  private uidsByUrl = new Map<string, string>();
+  /** Group vCard URL -> etag as last fetched or written, sent as If-Match on updates; saved with each book's markers */
+  private groupEtags = new Map<string, string>();
+  /** Address book URL -> the config entry that selected it, as of the last discovery */
+  private selections = new Map<string, AddressBookSelection>();
+  /** Address books the last fetch found changed, for fetchGroups; null before any fetch */
+  private fetchedBooks: DAVAddressBook[] | null = null;
+  /** Address book URL -> every vCard in it, kept by fetchAll so fetchGroups needn't download them again */
+  private fetchedCards = new Map<string, DAVVCard[]>();
 
   constructor(name: string, config: Record<string, unknown>) {
     super(config);
@@ -34,6 +57,21 @@ export class CardDAVProvider extends BaseProvider {
     }
   }
 
+  loadSyncState(state: ProviderSyncState): void {
+    super.loadSyncState(state);
+    this.groupEtags = new Map(Object.values(state.collections ?? {}).flatMap(c => Object.entries(c.groupEtags ?? {})));
+  }
+
+  saveSyncState(): Pick<ProviderSyncState, 'syncToken' | 'ctag' | 'collections'> {
+    const state = super.saveSyncState();
+    if (!state.collections) return state;
+    const collections = Object.fromEntries(Object.entries(state.collections).map(([url, collection]) => {
+      const etags = [...this.groupEtags].filter(([groupUrl]) => groupUrl.startsWith(url));
+      return [url, { ...collection, groupEtags: etags.length > 0 ? Object.fromEntries(etags) : undefined }];
+    }));
+    return { ...state, collections };
+  }
+
   private async getClient() {
     if (this.client) return this.client;
 
@@ -54,90 +92,445 @@ export class CardDAVProvider extends BaseProvider {
 
   async fetchAll(): Promise<Contact[]> {
     const client = await this.getClient();
-
-    const addressBooks = await client.fetchAddressBooks();
-    if (addressBooks.length === 0) {
-      throw new ProviderError(this.name, 'No address books found');
-    }
+    const addressBooks = await this.fetchAddressBooks();
 
     const contacts: Contact[] = [];
+    const collections: Record<string, CollectionSyncState> = {};
+    this.fetchedCards.clear();
 
     for (const book of addressBooks) {
+      // Markers are read before the vCards, so anything changed meanwhile is fetched again next time
+      collections[book.url] = collectionState(book);
       const vcards = await client.fetchVCards({ addressBook: book });
-      for (const vcard of vcards) {
-        if (!vcard.data) continue;
-        try {
-          const contact = vcardToContact(vcard.data);
-          contact.metadata.source = this.name;
-          contact.metadata.providerIds[this.name] = vcard.url;
-          contact.metadata.etag = vcard.etag ?? undefined;
-          contacts.push(contact);
-        } catch (err) {
-          logger.warn(`CardDAV: failed to parse vCard from ${vcard.url}:`, err);
-        }
-      }
+      this.fetchedCards.set(book.url, vcards);
+      contacts.push(...this.parseVCards(vcards, book));
     }
 
+    this.syncState.collections = collections;
+    this.fetchedBooks = addressBooks;
     logger.info(`CardDAV: fetched ${contacts.length} contacts from ${addressBooks.length} address book(s)`);
     return contacts;
   }
 
-  async fetchOne(remoteUrl: string): Promise<Contact | null> {
+  /**
+   * vCards changed or removed since the saved address book markers. Books with
+   * an unchanged ctag are skipped; the others are asked for changes since the
+   * saved sync-token (RFC 6578 sync-collection), or compared by etag when the
+   * server doesn't support that or the token has expired. Changed vCards are
+   * then downloaded with addressbook-multiget. Returns null, for a full fetch,
+   * when nothing was saved yet or address books were added or removed.
+   */
+  async fetchChanges(): Promise<RemoteChanges | null> {
+    const saved = this.syncState.collections;
+    if (!saved) return null;
+
     const client = await this.getClient();
+    const addressBooks = await this.fetchAddressBooks();
+    const urls = addressBooks.map(book => book.url);
+    if (urls.length !== Object.keys(saved).length || urls.some(url => !saved[url])) return null;
 
-    try {
-      const result = await client.fetchVCards({
-        addressBook: { url: remoteUrl },
-        objectUrls: [remoteUrl],
-      } as any);
-
-      if (result.length === 0 || !result[0].data) return null;
-      const contact = vcardToContact(result[0].data);
-      contact.metadata.providerIds[this.name] = remoteUrl;
-      contact.metadata.etag = result[0].etag ?? undefined;
-      return contact;
-    } catch {
+    const changes: RemoteChanges = { changed: [], deletedIds: [] };
+    const collections: Record<string, CollectionSyncState> = {};
+    const changedBooks: DAVAddressBook[] = [];
+
+    for (const book of addressBooks) {
+      const previous = saved[book.url];
+      const current = collectionState(book);
+      if (previous.ctag && previous.ctag === current.ctag) {
+        collections[book.url] = previous;
+        continue;
+      }
+      changedBooks.push(book);
+
+      const delta = (previous.syncToken && book.reports?.includes('syncCollection')
+        ? await this.syncCollection(book, previous.syncToken)
+        : null) ?? await this.compareEtags(book);
+
+      collections[book.url] = { ...current, syncToken: delta.syncToken ?? current.syncToken };
+      changes.deletedIds.push(...delta.deleted);
+      if (delta.changed.length > 0) {
+        const vcards = await client.fetchVCards({ addressBook: book, objectUrls: delta.changed });
+        changes.changed.push(...this.parseVCards(vcards, book));
+      }
+    }
+
+    this.syncState.collections = collections;
+    this.fetchedBooks = changedBooks;
+    this.fetchedCards.clear();
+    logger.info(`CardDAV: fetched ${changes.changed.length} changed and ${changes.deletedIds.length} deleted contacts`);
+    return changes;
+  }
+
+  /** Changed and removed vCard URLs since `syncToken`, or null if the server rejected the token. */
+  private async syncCollection(book: DAVAddressBook, syncToken: string): Promise<CollectionDelta | null> {
+    const client = await this.getClient();
+    const responses = await client.syncCollection({
+      url: book.url,
+      props: { 'd:getetag': {} },
+      syncLevel: 1,
+      syncToken,
+    });
+
+    // Expired or invalid tokens fail the whole request (403/409 valid-sync-token)
+    if (responses.some(res => !res.ok)) {
+      logger.info(`CardDAV: sync-token for ${book.url} was rejected, comparing etags instead`);
       return null;
     }
+
+    const delta: CollectionDelta = { changed: [], deleted: [] };
+    for (const res of responses) {
+      if (!res.href) continue;
+      const url = new URL(res.href, book.url).href;
+      if (url === book.url) continue;
+      (res.status === 404 ? delta.deleted : delta.changed).push(url);
+    }
+    const newToken = responses[0]?.raw?.multistatus?.syncToken;
+    if (newToken !== undefined) delta.syncToken = String(newToken);
+    return delta;
+  }
+
+  /** Changed and removed vCard URLs found by comparing the server's etags with the ones last synced. */
+  private async compareEtags(book: DAVAddressBook): Promise<CollectionDelta> {
+    const client = await this.getClient();
+    const responses = await client.addressBookQuery({
+      url: book.url,
+      props: { 'd:getetag': {} },
+      depth: '1',
+    });
+
+    const listed = new Map<string, string | undefined>();
+    for (const res of responses) {
+      if (!res.ok || !res.href) continue;
+      const etag = res.props?.getetag;
+      listed.set(new URL(res.href, book.url).href, etag === undefined ? undefined : String(etag));
+    }
+
+    return {
+      changed: [...listed].filter(([url, etag]) => !etag || this.syncState.etags[url] !== etag).map(([url]) => url),
+      deleted: Object.keys(this.syncState.etags).filter(url => url.startsWith(book.url) && !listed.has(url)),
+    };
+  }
+
+  /** Every address book on the server, with whether and how the config selects it. */
+  async listAddressBooks(): Promise<AddressBookInfo[]> {
+    const client = await this.getClient();
+    const selections = this.configuredSelections();
+
+    return (await client.fetchAddressBooks()).map(book => {
+      const selection = selections?.find(s => matchesAddressBook(book, s.book));
+      return {
+        url: book.url,
+        displayName: String(book.displayName ?? ''),
+        selected: !selections || selection !== undefined,
+        ...(selection?.category ? { category: selection.category } : {}),
+        ...(selection?.group ? { group: selection.group } : {}),
+      };
+    });
   }
 
-  async pushContact(contact: Contact): Promise<string> {
+  /** The address books to sync, in config order; the first one receives new contacts by default. */
+  private async fetchAddressBooks(): Promise<DAVAddressBook[]> {
     const client = await this.getClient();
     const addressBooks = await client.fetchAddressBooks();
     if (addressBooks.length === 0) {
       throw new ProviderError(this.name, 'No address books found');
     }
 
+    const configured = this.configuredSelections();
+    this.selections.clear();
+    if (!configured) return addressBooks;
+
+    return configured.map(selection => {
+      const book = addressBooks.find(b => matchesAddressBook(b, selection.book));
+      if (!book) {
+        const available = addressBooks.map(b => b.displayName || b.url).join(', ');
+        throw new ProviderError(this.name, `Address book not found: ${selection.book} (available: ${available})`);
+      }
+      this.selections.set(book.url, selection);
+      return book;
+    });
+  }
+
+  private configuredSelections(): AddressBookSelection[] | null {
+    const entries = this.config.addressBooks;
+    if (entries === undefined) return null;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new ProviderError(this.name, 'addressBooks must be a non-empty list');
+    }
+
+    return entries.map(entry => {
+      if (typeof entry === 'string') return { book: entry };
+      if (entry && typeof entry === 'object' && typeof entry.book === 'string') {
+        return {
+          book: entry.book,
+          category: typeof entry.category === 'string' ? entry.category : undefined,
+          group: typeof entry.group === 'string' ? entry.group : undefined,
+        };
+      }
+      throw new ProviderError(this.name, `Invalid addressBooks entry: ${JSON.stringify(entry)}`);
+    });
+  }
+
+  /** Parse contact vCards, skipping group vCards and anything unparseable. */
+  private parseVCards(vcards: DAVVCard[], book: DAVAddressBook): Contact[] {
+    const category = this.selections.get(book.url)?.category;
+    const contacts: Contact[] = [];
+    for (const vcard of vcards) {
+      if (!vcard.data || isGroupVCard(vcard.data)) continue;
+      try {
+        const contact = vcardToContact(vcard.data);
+        this.uidsByUrl.set(vcard.url, contact.id);
+        contact.metadata.source = this.name;
+        contact.metadata.providerIds[this.name] = vcard.url;
+        contact.metadata.etag = vcard.etag ?? undefined;
+        if (category && !hasCategory(contact, category)) contact.categories.push(category);
+        contacts.push(contact);
+      } catch (err) {
+        logger.warn(`CardDAV: failed to parse vCard from ${vcard.url}:`, err);
+      }
+    }
+    return contacts;
+  }
+
+  async fetchOne(remoteUrl: string): Promise<Contact | null> {
+    const client = await this.getClient();
+
+    // A vCard that's gone comes back without data; failed requests throw
+    const result = await client.fetchVCards({
+      addressBook: { url: remoteUrl },
+      objectUrls: [remoteUrl],
+    } as any);
+
+    if (result.length === 0 || !result[0].data) return null;
+    const contact = vcardToContact(result[0].data);
+    contact.metadata.providerIds[this.name] = remoteUrl;
+    contact.metadata.etag = result[0].etag ?? undefined;
+    return contact;
+  }
+
+  async pushContact(contact: Contact): Promise<RemoteRevision> {
+    const client = await this.getClient();
+    const addressBooks = await this.fetchAddressBooks();
+    const book = addressBooks.find(b => {
+      const category = this.selections.get(b.url)?.category;
+      return category !== undefined && hasCategory(contact, category);
+    }) ?? addressBooks[0];
+
     const vcard = contactToVCard(contact);
-    const url = `${addressBooks[0].url}${contact.id}.vcf`;
+    const url = `${book.url}${contact.id}.vcf`;
 
-    await client.createVCard({
-      addressBook: addressBooks[0],
+    const res = await client.createVCard({
+      addressBook: book,
       filename: `${contact.id}.vcf`,
+      // tsdav sends If-None-Match: * itself; passing headers would drop the auth header
       vCardString: vcard,
     });
+    if (!res.ok) {
+      throw new ProviderError(this.name, `Creating ${url} failed: ${res.status} ${res.statusText}`);
+    }
 
-    return url;
+    this.uidsByUrl.set(url, contact.id);
+    return { remoteId: url, etag: res.headers.get('etag') ?? undefined };
   }
 
-  async updateContact(remoteUrl: string, contact: Contact): Promise<void> {
+  async updateContact(remoteUrl: string, contact: Contact, etag?: string): Promise<RemoteRevision> {
+    // Without If-Match the PUT would replace whatever the server has now
+    if (!etag) throw new PreconditionFailedError(this.name, remoteUrl);
     const client = await this.getClient();
     const vcard = contactToVCard(contact);
 
-    await client.updateVCard({
+    const res = await client.updateVCard({
       vCard: {
         url: remoteUrl,
         data: vcard,
-        etag: contact.metadata.etag,
+        etag,
       },
     });
+    if (res.status === 412) throw new PreconditionFailedError(this.name, remoteUrl);
+    if (!res.ok) {
+      throw new ProviderError(this.name, `Updating ${remoteUrl} failed: ${res.status} ${res.statusText}`);
+    }
+
+    return { remoteId: remoteUrl, etag: res.headers.get('etag') ?? undefined };
   }
 
   async deleteContact(remoteUrl: string): Promise<void> {
     const client = await this.getClient();
 
-    await client.deleteVCard({
+    const res = await client.deleteVCard({
       vCard: { url: remoteUrl },
     });
+    // Already gone is as good as deleted
+    if (!res.ok && res.status !== 404) {
+      throw new ProviderError(this.name, `Deleting ${remoteUrl} failed: ${res.status} ${res.statusText}`);
+    }
+  }
+
+  /**
+   * Group vCards, and a group per address book the config gives one. After a
+   * fetch only the address books it found changed are read, reusing the vCards
+   * a full fetch downloaded; the groups in unchanged books are left out.
+   */
+  async fetchGroups(): Promise<RemoteGroup[]> {
+    const client = await this.getClient();
+    const addressBooks = this.fetchedBooks ?? await this.fetchAddressBooks();
+
+    const groupCards: { url: string; group: ContactGroup }[] = [];
+    const bookGroups: RemoteGroup[] = [];
+    for (const book of addressBooks) {
+      const vcards = this.fetchedCards.get(book.url) ?? await client.fetchVCards({ addressBook: book });
+      const groupName = this.selections.get(book.url)?.group;
+      const bookGroup: RemoteGroup | undefined = groupName
+        ? { remoteId: book.url, name: groupName, memberRemoteIds: [] }
+        : undefined;
+      if (bookGroup) bookGroups.push(bookGroup);
+
+      for (const url of this.groupEtags.keys()) {
+        if (url.startsWith(book.url)) this.groupEtags.delete(url);
+      }
+      for (const vcard of vcards) {
+        if (!vcard.data) continue;
+        try {
+          if (isGroupVCard(vcard.data)) {
+            groupCards.push({ url: vcard.url, group: vcardToGroup(vcard.data) });
+            if (vcard.etag) this.groupEtags.set(vcard.url, vcard.etag);
+          } else {
+            this.uidsByUrl.set(vcard.url, vcardToContact(vcard.data).id);
+            bookGroup?.memberRemoteIds.push(vcard.url);
+          }
+        } catch (err) {
+          logger.warn(`CardDAV: failed to parse vCard from ${vcard.url}:`, err);
+        }
+      }
+    }
+
+    const urlsByUid = new Map([...this.uidsByUrl].map(([url, uid]) => [uid, url]));
+    const groups = groupCards.map(({ url, group }) => ({
+      remoteId: url,
+      name: group.name,
+      description: group.description,
+      memberRemoteIds: group.memberIds.flatMap(uid => urlsByUid.get(uid) ?? []),
+    }));
+
+    logger.info(`CardDAV: fetched ${groups.length} group vCards`);
+    return [...groups, ...bookGroups];
+  }
+
+  async pushGroup(group: ContactGroup, memberRemoteIds: string[]): Promise<string> {
+    const client = await this.getClient();
+    const addressBooks = await this.fetchAddressBooks();
+
+    const vcard = groupToVCard({ ...group, memberIds: await this.memberUids(memberRemoteIds) });
+    const url = `${addressBooks[0].url}${group.id}.vcf`;
+    const res = await client.createVCard({
+      addressBook: addressBooks[0],
+      filename: `${group.id}.vcf`,
+      vCardString: vcard,
+    });
+    if (!res.ok) {
+      throw new ProviderError(this.name, `Creating ${url} failed: ${res.status} ${res.statusText}`);
+    }
+
+    this.rememberGroupEtag(url, res);
+    return url;
+  }
+
+  async updateGroup(remoteUrl: string, group: ContactGroup, memberRemoteIds: string[]): Promise<void> {
+    const client = await this.getClient();
+    await this.fetchAddressBooks();
+    if (this.selections.get(remoteUrl)?.group) {
+      // Membership of a group mapped to an address book is which book a contact lives in
+      logger.info(`CardDAV: ${group.name} follows address book ${remoteUrl}, not pushing membership changes`);
+      return;
+    }
+
+    // Without If-Match the PUT would replace whatever the server has now; fetchGroups learns the etag, the sync state keeps it
+    const etag = this.groupEtags.get(remoteUrl);
+    if (!etag) throw new PreconditionFailedError(this.name, remoteUrl);
+    const vcard = groupToVCard({ ...group, memberIds: await this.memberUids(memberRemoteIds) });
+
+    const res = await client.updateVCard({
+      vCard: {
+        url: remoteUrl,
+        data: vcard,
+        etag,
+      },
+    });
+    if (res.status === 412) throw new PreconditionFailedError(this.name, remoteUrl);
+    if (!res.ok) {
+      throw new ProviderError(this.name, `Updating ${remoteUrl} failed: ${res.status} ${res.statusText}`);
+    }
+
+    this.rememberGroupEtag(remoteUrl, res);
   }
+
+  private rememberGroupEtag(url: string, res: Response): void {
+    const etag = res.headers.get('etag');
+    if (etag) {
+      this.groupEtags.set(url, etag);
+    } else {
+      this.groupEtags.delete(url);
+    }
+  }
+
+  /** Translate member vCard URLs to the UIDs MEMBER entries reference. */
+  private async memberUids(urls: string[]): Promise<string[]> {
+    const missing = urls.filter(url => !this.uidsByUrl.has(url));
+    if (missing.length > 0) {
+      // Only to learn UIDs, so only those vCards; the sync state stays as the engine's fetch left it
+      const client = await this.getClient();
+      for (const book of await this.fetchAddressBooks()) {
+        const objectUrls = missing.filter(url => url.startsWith(book.url));
+        if (objectUrls.length > 0) this.parseVCards(await client.fetchVCards({ addressBook: book, objectUrls }), book);
+      }
+    }
+    return urls.flatMap(url => {
+      const uid = this.uidsByUrl.get(url);
+      if (!uid) logger.warn(`CardDAV: group member ${url} not found on server, skipping`);
+      return uid ?? [];
+    });
+  }
+}
+
+/** An `addressBooks` config entry. */
+interface AddressBookSelection {
+  /** Display name or URL */
+  book: string;
+  category?: string;
+  group?: string;
+}
+
+export interface AddressBookInfo {
+  url: string;
+  displayName: string;
+  selected: boolean;
+  category?: string;
+  group?: string;
+}
+
+interface CollectionDelta {
+  changed: string[];
+  deleted: string[];
+  syncToken?: string;
+}
+
+function collectionState(book: DAVAddressBook): CollectionSyncState {
+  return {
+    ctag: book.ctag === undefined ? undefined : String(book.ctag),
+    syncToken: book.syncToken === undefined ? undefined : String(book.syncToken),
+  };
+}
+
+function matchesAddressBook(book: DAVAddressBook, wanted: string): boolean {
+  if (book.displayName === wanted) return true;
+  try {
+    const trim = (url: string) => url.replace(/\/$/, '');
+    return trim(new URL(wanted, book.url).href) === trim(book.url);
+  } catch {
+    return false;
+  }
+}
+
+function hasCategory(contact: Contact, category: string): boolean {
+  return contact.categories.some(c => c.toLowerCase() === category.toLowerCase());
 }
@@ -1,8 +1,18 @@
 import { google } from 'googleapis';
-import type { Contact } from '../types/index.js';
+import type { Contact, ContactGender, ContactGroup, RemoteGroup, RemoteChanges, RemoteRevision } from '../types/index.js';
 import { BaseProvider } from './base.js';
 import { createContact } from '../contacts/model.js';
-import { generateId, logger } from '../utils/index.js';
+import { generateId, logger, PreconditionFailedError } from '../utils/index.js';
+
+const PERSON_FIELDS = 'names,nicknames,emailAddresses,phoneNumbers,addresses,organizations,birthdays,urls,'
+  + 'imClients,relations,genders,locales,biographies,photos,metadata';
+
+const UPDATE_PERSON_FIELDS = 'names,nicknames,emailAddresses,phoneNumbers,addresses,organizations,birthdays,urls,'
+  + 'imClients,relations,genders,locales,biographies';
+
+/** contactGroups.batchGet accepts at most 200 resource names per call. */
+const GROUP_BATCH_SIZE = 200;
+const MAX_GROUP_MEMBERS = 10000;
 
 /**
  * Google Contacts provider using the People API.
@@ -11,10 +21,22 @@ import { generateId, logger } from '../utils/index.js';
  * - clientId: OAuth2 client ID
  * - clientSecret: OAuth2 client secret
  * - refreshToken: OAuth2 refresh token
+ *
+ * Optional config (for proxies and test servers):
+ * - rootUrl: People API base URL (default https://people.googleapis.com/)
+ * - tokenUrl: OAuth2 token endpoint (default https://oauth2.googleapis.com/token)
+ *
+ * After a full fetch the provider keeps the People API sync token, so later
+ * syncs only fetch people changed or deleted since.
  */
 export class GoogleProvider extends BaseProvider {
   readonly name: string;
   readonly type = 'google' as const;
+  readonly syncFields = [
+    'fullName', 'name', 'nickname', 'emails', 'phones', 'addresses', 'organization', 'birthday',
+    'urls', 'ims', 'related', 'gender', 'languages', 'notes',
+  ];
+  readonly relatedAsNames = true;
 
   constructor(name: string, config: Record<string, unknown>) {
     super(config);
@@ -26,11 +48,21 @@ export class GoogleProvider extends BaseProvider {
     const clientSecret = this.assertConfigured('clientSecret');
     const refreshToken = this.assertConfigured('refreshToken');
 
-    const auth = new google.auth.OAuth2(clientId, clientSecret);
+    const tokenUrl = this.config.tokenUrl as string | undefined;
+    const auth = new google.auth.OAuth2({
+      clientId,
+      clientSecret,
+      ...(tokenUrl ? { endpoints: { oauth2TokenUrl: tokenUrl } } : {}),
+    });
     auth.setCredentials({ refresh_token: refreshToken });
     return auth;
   }
 
+  private getPeople() {
+    const rootUrl = this.config.rootUrl as string | undefined;
+    return google.people({ version: 'v1', auth: this.getAuth(), ...(rootUrl ? { rootUrl } : {}) });
+  }
+
   async isConfigured(): Promise<boolean> {
     try {
       this.assertConfigured('clientId');
@@ -43,8 +75,7 @@ export class GoogleProvider extends BaseProvider {
   }
 
   async fetchAll(): Promise<Contact[]> {
-    const auth = this.getAuth();
-    const people = google.people({ version: 'v1', auth });
+    const people = this.getPeople();
 
     const contacts: Contact[] = [];
     let nextPageToken: string | undefined;
@@ -53,8 +84,9 @@ export class GoogleProvider extends BaseProvider {
       const res = await people.people.connections.list({
         resourceName: 'people/me',
         pageSize: 1000,
-        personFields: 'names,emailAddresses,phoneNumbers,addresses,organizations,birthdays,urls,biographies,photos,metadata',
+        personFields: PERSON_FIELDS,
         pageToken: nextPageToken,
+        requestSyncToken: true,
       });
 
       for (const person of res.data.connections ?? []) {
@@ -62,67 +94,220 @@ export class GoogleProvider extends BaseProvider {
       }
 
       nextPageToken = res.data.nextPageToken ?? undefined;
+      if (res.data.nextSyncToken) this.syncState.syncToken = res.data.nextSyncToken;
     } while (nextPageToken);
 
     logger.info(`Google: fetched ${contacts.length} contacts`);
     return contacts;
   }
 
+  /**
+   * People changed or deleted since the saved sync token. Returns null when
+   * there is no token, or it expired (tokens last 7 days), so the caller does a full fetch.
+   */
+  async fetchChanges(): Promise<RemoteChanges | null> {
+    const syncToken = this.syncState.syncToken;
+    if (!syncToken) return null;
+
+    const people = this.getPeople();
+    const changes: RemoteChanges = { changed: [], deletedIds: [] };
+    let nextPageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    try {
+      do {
+        const res = await people.people.connections.list({
+          resourceName: 'people/me',
+          pageSize: 1000,
+          personFields: PERSON_FIELDS,
+          pageToken: nextPageToken,
+          requestSyncToken: true,
+          syncToken,
+        });
+
+        for (const person of res.data.connections ?? []) {
+          if (person.metadata?.deleted) {
+            if (person.resourceName) changes.deletedIds.push(person.resourceName);
+          } else {
+            changes.changed.push(googlePersonToContact(person, this.name));
+          }
+        }
+
+        nextPageToken = res.data.nextPageToken ?? undefined;
+        nextSyncToken = res.data.nextSyncToken ?? nextSyncToken;
+      } while (nextPageToken);
+    } catch (err: any) {
+      if (!isExpiredSyncToken(err)) throw err;
+      logger.info('Google: sync token expired, falling back to a full fetch');
+      this.syncState.syncToken = undefined;
+      return null;
+    }
+
+    if (nextSyncToken) this.syncState.syncToken = nextSyncToken;
+    logger.info(`Google: fetched ${changes.changed.length} changed and ${changes.deletedIds.length} deleted contacts`);
+    return changes;
+  }
+
   async fetchOne(remoteId: string): Promise<Contact | null> {
-    const auth = this.getAuth();
-    const people = google.people({ version: 'v1', auth });
+    const people = this.getPeople();
 
     try {
       const res = await people.people.get({
         resourceName: remoteId,
-        personFields: 'names,emailAddresses,phoneNumbers,addresses,organizations,birthdays,urls,biographies,photos,metadata',
+        personFields: PERSON_FIELDS,
       });
       return googlePersonToContact(res.data, this.name);
-    } catch {
-      return null;
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
     }
   }
 
-  async pushContact(contact: Contact): Promise<string> {
-    const auth = this.getAuth();
-    const people = google.people({ version: 'v1', auth });
+  async pushContact(contact: Contact): Promise<RemoteRevision> {
+    const people = this.getPeople();
 
     const res = await people.people.createContact({
       requestBody: contactToGooglePerson(contact),
     });
 
-    return res.data.resourceName ?? '';
+    return { remoteId: res.data.resourceName ?? '', etag: res.data.etag ?? undefined };
   }
 
-  async updateContact(remoteId: string, contact: Contact): Promise<void> {
-    const auth = this.getAuth();
-    const people = google.people({ version: 'v1', auth });
+  async updateContact(remoteId: string, contact: Contact, etag?: string): Promise<RemoteRevision> {
+    // The People API requires an etag; without a known one the caller has to refetch
+    if (!etag) throw new PreconditionFailedError(this.name, remoteId);
+    const people = this.getPeople();
 
-    // Fetch current etag first
-    const current = await people.people.get({
-      resourceName: remoteId,
-      personFields: 'metadata',
+    try {
+      const res = await people.people.updateContact({
+        resourceName: remoteId,
+        updatePersonFields: UPDATE_PERSON_FIELDS,
+        requestBody: {
+          ...contactToGooglePerson(contact),
+          etag,
+        },
+      });
+      return { remoteId, etag: res.data.etag ?? undefined };
+    } catch (err: any) {
+      if (isEtagMismatch(err)) throw new PreconditionFailedError(this.name, remoteId);
+      throw err;
+    }
+  }
+
+  async deleteContact(remoteId: string): Promise<void> {
+    const people = this.getPeople();
+    await people.people.deleteContact({ resourceName: remoteId });
+  }
+
+  async fetchGroups(): Promise<RemoteGroup[]> {
+    const people = this.getPeople();
+
+    // System groups (myContacts, starred, ...) aren't user lists; leave them alone
+    const resourceNames: string[] = [];
+    let nextPageToken: string | undefined;
+    do {
+      const res = await people.contactGroups.list({
+        pageSize: 1000,
+        groupFields: 'name,groupType',
+        pageToken: nextPageToken,
+      });
+      for (const group of res.data.contactGroups ?? []) {
+        if (group.groupType === 'USER_CONTACT_GROUP' && group.resourceName) {
+          resourceNames.push(group.resourceName);
+        }
+      }
+      nextPageToken = res.data.nextPageToken ?? undefined;
+    } while (nextPageToken);
+
+    const groups: RemoteGroup[] = [];
+    for (let i = 0; i < resourceNames.length; i += GROUP_BATCH_SIZE) {
+      const res = await people.contactGroups.batchGet({
+        resourceNames: resourceNames.slice(i, i + GROUP_BATCH_SIZE),
+        maxMembers: MAX_GROUP_MEMBERS,
+        groupFields: 'name',
+      });
+      for (const { contactGroup } of res.data.responses ?? []) {
+        if (!contactGroup?.resourceName) continue;
+        groups.push({
+          remoteId: contactGroup.resourceName,
+          name: contactGroup.name ?? '',
+          memberRemoteIds: contactGroup.memberResourceNames ?? [],
+        });
+      }
+    }
+
+    logger.info(`Google: fetched ${groups.length} contact groups`);
+    return groups;
+  }
+
+  async pushGroup(group: ContactGroup, memberRemoteIds: string[]): Promise<string> {
+    const people = this.getPeople();
+
+    const res = await people.contactGroups.create({
+      requestBody: { contactGroup: { name: group.name } },
     });
+    const resourceName = res.data.resourceName ?? '';
+
+    if (memberRemoteIds.length > 0) {
+      await people.contactGroups.members.modify({
+        resourceName,
+        requestBody: { resourceNamesToAdd: memberRemoteIds },
+      });
+    }
+    return resourceName;
+  }
 
-    const etag = current.data.etag;
+  async updateGroup(remoteId: string, group: ContactGroup, memberRemoteIds: string[]): Promise<void> {
+    const people = this.getPeople();
 
-    await people.people.updateContact({
+    const current = await people.contactGroups.get({
       resourceName: remoteId,
-      updatePersonFields: 'names,emailAddresses,phoneNumbers,addresses,organizations,birthdays,urls,biographies',
-      requestBody: {
-        ...contactToGooglePerson(contact),
-        etag: etag ?? undefined,
-      },
+      maxMembers: MAX_GROUP_MEMBERS,
     });
-  }
 
-  async deleteContact(remoteId: string): Promise<void> {
-    const auth = this.getAuth();
-    const people = google.people({ version: 'v1', auth });
-    await people.people.deleteContact({ resourceName: remoteId });
+    if (current.data.name !== group.name) {
+      await people.contactGroups.update({
+        resourceName: remoteId,
+        requestBody: {
+          contactGroup: { name: group.name, etag: current.data.etag },
+          updateGroupFields: 'name',
+        },
+      });
+    }
+
+    const existing = new Set(current.data.memberResourceNames ?? []);
+    const wanted = new Set(memberRemoteIds);
+    const resourceNamesToAdd = memberRemoteIds.filter(id => !existing.has(id));
+    const resourceNamesToRemove = [...existing].filter(id => !wanted.has(id));
+    if (resourceNamesToAdd.length > 0 || resourceNamesToRemove.length > 0) {
+      await people.contactGroups.members.modify({
+        resourceName: remoteId,
+        requestBody: { resourceNamesToAdd, resourceNamesToRemove },
+      });
+    }
   }
 }
 
+/** A person that was deleted, or never existed, fails with 404. */
+function isNotFound(err: any): boolean {
+  const status = err?.response?.status ?? err?.code;
+  return status === 404 || status === '404';
+}
+
+/** A stale person etag fails with 412, or 400 FAILED_PRECONDITION. */
+function isEtagMismatch(err: any): boolean {
+  const status = err?.response?.status ?? err?.code;
+  if (status === 412 || status === '412') return true;
+  return JSON.stringify(err?.response?.data ?? '').includes('FAILED_PRECONDITION');
+}
+
+/** Expired tokens fail with 410 Gone, or 400 with reason EXPIRED_SYNC_TOKEN. */
+function isExpiredSyncToken(err: any): boolean {
+  const status = err?.response?.status ?? err?.code;
+  if (status === 410 || status === '410') return true;
+  return JSON.stringify(err?.response?.data ?? err?.message ?? '').includes('EXPIRED_SYNC_TOKEN');
+}
+
 function googlePersonToContact(person: any, providerName: string): Contact {
   const primaryName = person.names?.[0];
   const fullName = primaryName?.displayName ?? 'Unknown';
@@ -136,7 +321,11 @@ function googlePersonToContact(person: any, providerName: string): Contact {
       middleName: primaryName?.middleName,
       prefix: primaryName?.honorificPrefix,
       suffix: primaryName?.honorificSuffix,
+      phoneticGivenName: primaryName?.phoneticGivenName,
+      phoneticMiddleName: primaryName?.phoneticMiddleName,
+      phoneticFamilyName: primaryName?.phoneticFamilyName,
     },
+    nickname: person.nicknames?.[0]?.value,
     emails: (person.emailAddresses ?? []).map((e: any) => ({
       value: e.value ?? '',
       type: mapGoogleType(e.type),
@@ -167,6 +356,17 @@ function googlePersonToContact(person: any, providerName: string): Contact {
       value: u.value ?? '',
       type: mapGoogleType(u.type),
     })),
+    ims: (person.imClients ?? []).map((im: any) => ({
+      value: im.username ?? '',
+      service: im.protocol,
+      type: mapGoogleType(im.type),
+    })),
+    related: (person.relations ?? []).map((r: any) => ({
+      value: r.person ?? '',
+      type: r.type,
+    })),
+    gender: googleGenderToContact(person.genders?.[0]?.value),
+    languages: (person.locales ?? []).map((l: any) => l.value).filter(Boolean),
     notes: person.biographies?.[0]?.value,
     photo: person.photos?.[0]?.url,
     metadata: {
@@ -188,7 +388,11 @@ function contactToGooglePerson(contact: Contact): any {
       middleName: contact.name.middleName,
       honorificPrefix: contact.name.prefix,
       honorificSuffix: contact.name.suffix,
+      phoneticGivenName: contact.name.phoneticGivenName,
+      phoneticMiddleName: contact.name.phoneticMiddleName,
+      phoneticFamilyName: contact.name.phoneticFamilyName,
     }],
+    nicknames: contact.nickname ? [{ value: contact.nickname }] : [],
     emailAddresses: contact.emails.map(e => ({
       value: e.value,
       type: e.type ?? 'other',
@@ -210,10 +414,41 @@ function contactToGooglePerson(contact: Contact): any {
       title: contact.organization.title,
       department: contact.organization.department,
     }] : [],
+    imClients: contact.ims.map(im => ({
+      username: im.value,
+      protocol: im.service,
+      type: im.type ?? 'other',
+    })),
+    relations: contact.related.map(r => ({
+      person: r.value,
+      type: r.type,
+    })),
+    genders: contact.gender ? [{ value: contactGenderToGoogle(contact.gender) }] : [],
+    locales: contact.languages.map(value => ({ value })),
     biographies: contact.notes ? [{ value: contact.notes }] : [],
   };
 }
 
+/** Google uses "male"/"female"/"unspecified" or a free-text value. */
+function googleGenderToContact(value?: string): ContactGender | undefined {
+  if (!value) return undefined;
+  switch (value.toLowerCase()) {
+    case 'male': return { sex: 'M' };
+    case 'female': return { sex: 'F' };
+    case 'unspecified': return { sex: 'U' };
+    default: return { sex: 'O', identity: value };
+  }
+}
+
+function contactGenderToGoogle(gender: ContactGender): string {
+  if (gender.identity) return gender.identity;
+  switch (gender.sex) {
+    case 'M': return 'male';
+    case 'F': return 'female';
+    default: return 'unspecified';
+  }
+}
+
 function mapGoogleType(type?: string): string | undefined {
   if (!type) return undefined;
   const lower = type.toLowerCase();
@@ -3,3 +3,7 @@ export { LocalProvider } from './local.js';
 export { GoogleProvider } from './google.js';
 export { AppleProvider } from './apple.js';
 export { CardDAVProvider } from './carddav.js';
+export { OutlookProvider } from './outlook.js';
+export { VcfDirectoryProvider } from './vcf-directory.js';
+export { ProviderRegistry, createProviderRegistry, providerRegistry } from './registry.js';
+export type { ProviderDefinition, ProviderCapabilities } from './registry.js';
@@ -1,47 +1,188 @@
-import type { Contact } from '../types/index.js';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { Contact, RemoteChanges, RemoteRevision } from '../types/index.js';
 import { BaseProvider } from './base.js';
-import type { GitContactStore } from '../store/index.js';
+import { GitContactStore } from '../store/git-store.js';
+import { CONTACTS_DIR, contactPath, extractIdFromPath } from '../store/file-layout.js';
+import { contactToVCard } from '../contacts/vcard.js';
+import { replacementFields } from '../contacts/model.js';
+import { expandTilde, loadConfig } from '../config.js';
+import { ContactNotFoundError, logger, PreconditionFailedError, ProviderError } from '../utils/index.js';
 
 /**
- * Local provider wrapping the git-backed store directly.
- * This is always available and doesn't require external configuration.
+ * Provider for another contact store on disk, such as a shared team store or a
+ * checkout of this store on another machine, so two stores can be kept in sync
+ * without a cloud service in between.
+ *
+ * Required config:
+ * - path: the other store's directory (a leading ~ is expanded); it must
+ *   already be a contact store, and not this server's own
+ *
+ * Contacts keep their UID in both stores: it's the remote ID, which also links
+ * contacts with the same UID on the first sync. A contact's etag is a hash of
+ * its vCard. The other store's HEAD commit is kept after a fetch, so later
+ * syncs only read contacts changed in commits since. Deleted contacts are
+ * archived in the other store, like local deletions.
  */
 export class LocalProvider extends BaseProvider {
-  readonly name = 'local';
+  readonly name: string;
   readonly type = 'local' as const;
-  private store: GitContactStore;
+  private opened: Promise<GitContactStore> | null = null;
 
-  constructor(store: GitContactStore) {
-    super({});
-    this.store = store;
+  constructor(name: string, config: Record<string, unknown>) {
+    super(config);
+    this.name = name;
   }
 
+  /** Whether `path` is a contact store this provider can sync with; sets nothing up. */
   async isConfigured(): Promise<boolean> {
-    return true;
+    try {
+      await this.storePath();
+      return true;
+    } catch (err: any) {
+      logger.error(`Store for ${this.name} not usable:`, err.message);
+      return false;
+    }
   }
 
   async fetchAll(): Promise<Contact[]> {
-    return this.store.list(false);
+    const store = await this.store();
+    const head = await store.gitOps.head();
+    const contacts = (await store.list(false)).map(c => this.toRemote(c));
+    this.syncState.syncToken = head;
+    return contacts;
   }
 
-  async fetchOne(remoteId: string): Promise<Contact | null> {
+  /**
+   * Contacts changed or archived in the other store since the last fetch, or
+   * null for a full fetch, when no commit was saved yet or it's no longer in
+   * the store's history.
+   */
+  async fetchChanges(): Promise<RemoteChanges | null> {
+    const since = this.syncState.syncToken;
+    if (!since) return null;
+
+    const store = await this.store();
+    const head = await store.gitOps.head();
+    let files: { status: string; path: string }[];
     try {
-      return await this.store.get(remoteId);
+      files = await store.gitOps.changedFiles(since, head, CONTACTS_DIR);
     } catch {
+      logger.info(`Store for ${this.name}: commit ${since} not found, doing a full fetch`);
+      this.syncState.syncToken = undefined;
       return null;
     }
+
+    const changes: RemoteChanges = { changed: [], deletedIds: [] };
+    for (const id of new Set(files.map(f => extractIdFromPath(f.path)))) {
+      if (!id) continue;
+      const contact = await this.fetchOne(id);
+      if (!contact) {
+        if (this.syncState.etags[id] !== undefined) changes.deletedIds.push(id);
+      } else if (this.syncState.etags[id] !== contact.metadata.etag) {
+        changes.changed.push(contact);
+      }
+    }
+
+    this.syncState.syncToken = head;
+    logger.info(`Store for ${this.name}: found ${changes.changed.length} changed and ${changes.deletedIds.length} deleted contacts`);
+    return changes;
   }
 
-  async pushContact(contact: Contact): Promise<string> {
-    const created = await this.store.create(contact);
-    return created.id;
+  async fetchOne(remoteId: string): Promise<Contact | null> {
+    const store = await this.store();
+    if (!await this.isActive(store, remoteId)) return null;
+    return this.toRemote(await store.get(remoteId));
   }
 
-  async updateContact(remoteId: string, contact: Contact): Promise<void> {
-    await this.store.update(remoteId, contact);
+  async pushContact(contact: Contact): Promise<RemoteRevision> {
+    const store = await this.store();
+    const existing = await store.get(contact.id).catch(err => {
+      if (err instanceof ContactNotFoundError) return null;
+      throw err;
+    });
+    if (existing) throw new ProviderError(this.name, `Contact ${contact.id} already exists in ${store.path}`);
+
+    const created = await store.create({ ...replacementFields(contact), id: contact.id });
+    return { remoteId: created.id, etag: hashContact(await store.get(created.id)) };
+  }
+
+  async updateContact(remoteId: string, contact: Contact, etag?: string): Promise<RemoteRevision> {
+    const store = await this.store();
+    // The other store may have been edited since; without an etag there's no telling
+    if (!etag) throw new PreconditionFailedError(this.name, remoteId);
+
+    return store.exclusive(async () => {
+      if (!await this.isActive(store, remoteId) || hashContact(await store.get(remoteId)) !== etag) {
+        throw new PreconditionFailedError(this.name, remoteId);
+      }
+      await store.update(remoteId, replacementFields(contact));
+      return { remoteId, etag: hashContact(await store.get(remoteId)) };
+    });
   }
 
   async deleteContact(remoteId: string): Promise<void> {
-    await this.store.delete(remoteId, false);
+    const store = await this.store();
+    // Already archived is as good as deleted
+    if (!await this.isActive(store, remoteId)) return;
+    await store.delete(remoteId, false);
+  }
+
+  /** The other store, opened on first use. */
+  private store(): Promise<GitContactStore> {
+    if (!this.opened) {
+      this.opened = this.storePath().then(async storePath => {
+        const store = new GitContactStore(storePath);
+        await store.init();
+        return store;
+      });
+      this.opened.catch(() => { this.opened = null; });
+    }
+    return this.opened;
   }
+
+  /** The configured path, once it's known to be an existing contact store other than the server's own. */
+  private async storePath(): Promise<string> {
+    const storePath = await realPath(expandTilde(this.assertConfigured('path')));
+    const [contacts, git] = await Promise.all([
+      fs.stat(path.join(storePath, CONTACTS_DIR)).catch(() => null),
+      fs.stat(path.join(storePath, '.git')).catch(() => null),
+    ]);
+    if (!contacts?.isDirectory() || !git) {
+      throw new ProviderError(this.name, `Not a contact store: ${storePath}`);
+    }
+    if (storePath === await realPath((await loadConfig()).storePath)) {
+      throw new ProviderError(this.name, `${storePath} is this server's own store`);
+    }
+    return storePath;
+  }
+
+  /** Whether the contact is in the other store and not archived there. */
+  private async isActive(store: GitContactStore, id: string): Promise<boolean> {
+    try {
+      await fs.access(contactPath(store.path, id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** The contact as this provider reports it: linked by its UID, without the other store's links. */
+  private toRemote(contact: Contact): Contact {
+    return {
+      ...contact,
+      metadata: { ...contact.metadata, providerIds: { [this.name]: contact.id }, etag: hashContact(contact) },
+    };
+  }
+}
+
+/** Absolute path with symlinks resolved, so two spellings of one store compare equal. */
+async function realPath(target: string): Promise<string> {
+  const absolute = path.resolve(target);
+  return fs.realpath(absolute).catch(() => absolute);
+}
+
+function hashContact(contact: Contact): string {
+  return createHash('sha1').update(contactToVCard(contact)).digest('hex');
 }
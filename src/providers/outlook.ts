@@ -0,0 +1,530 @@
+import type {
+  CollectionSyncState, Contact, ContactAddress, ContactEmail, ContactIm, ContactPhone, ContactRelated, ContactUrl,
+  RemoteChanges, RemoteRevision,
+} from '../types/index.js';
+import { BaseProvider } from './base.js';
+import { createContact } from '../contacts/model.js';
+import { normalizePhone } from '../contacts/normalize.js';
+import { generateId, logger, PreconditionFailedError, ProviderError } from '../utils/index.js';
+
+const DEFAULT_GRAPH_URL = 'https://graph.microsoft.com/v1.0/';
+const SCOPE = 'https://graph.microsoft.com/Contacts.ReadWrite offline_access';
+
+const CONTACT_FIELDS = 'displayName,givenName,middleName,surname,title,generation,nickName,yomiGivenName,yomiSurname,'
+  + 'emailAddresses,businessPhones,homePhones,mobilePhone,homeAddress,businessAddress,otherAddress,companyName,'
+  + 'department,jobTitle,birthday,businessHomePage,imAddresses,spouseName,children,personalNotes,categories,'
+  + 'parentFolderId,changeKey';
+
+/** Graph contacts have three email slots. */
+const MAX_EMAILS = 3;
+
+/** Tries at a request Graph throttles (429, 503) before giving up, waiting as told by Retry-After. */
+const MAX_ATTEMPTS = 3;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Outlook / Microsoft 365 contacts provider using Microsoft Graph.
+ *
+ * Required config:
+ * - clientId: Azure app registration (application) ID
+ * - refreshToken: OAuth2 refresh token with the Contacts.ReadWrite scope
+ *
+ * Optional config:
+ * - clientSecret: for confidential (web) app registrations
+ * - tenant: directory ID or domain (default "common")
+ * - folders: contact folders to sync, by name (default: all)
+ * - graphUrl: Graph base URL (default https://graph.microsoft.com/v1.0/)
+ * - tokenUrl: OAuth2 token endpoint (default https://login.microsoftonline.com/<tenant>/oauth2/v2.0/token)
+ *
+ * Contacts in a folder other than the default one get the folder's name as a
+ * category, and new contacts with that category are created in that folder.
+ * Each folder's delta link is kept after a fetch, so later syncs only fetch
+ * contacts changed or deleted since.
+ */
+export class OutlookProvider extends BaseProvider {
+  readonly name: string;
+  readonly type = 'outlook' as const;
+  readonly syncFields = [
+    'fullName', 'name', 'nickname', 'emails', 'phones', 'addresses', 'organization', 'birthday',
+    'urls', 'ims', 'related', 'notes', 'categories',
+  ];
+  readonly relatedAsNames = true;
+
+  private accessToken: { value: string; expires: number } | null = null;
+  /** Microsoft may rotate the refresh token with each access token it hands out */
+  private refreshToken: string | null = null;
+  /** The synced folders as of the last discovery */
+  private folders: GraphFolder[] = [];
+
+  constructor(name: string, config: Record<string, unknown>) {
+    super(config);
+    this.name = name;
+  }
+
+  async isConfigured(): Promise<boolean> {
+    try {
+      this.assertConfigured('clientId');
+      this.assertConfigured('refreshToken');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchAll(): Promise<Contact[]> {
+    const folders = await this.fetchFolders();
+    const contacts: Contact[] = [];
+    const collections: Record<string, CollectionSyncState> = {};
+
+    // A delta query without a token returns every contact, then the link for the next one
+    for (const folder of folders) {
+      const delta = await this.delta(folder, `me/contactFolders/${encodeURIComponent(folder.id)}/contacts/delta?$select=${CONTACT_FIELDS}`);
+      if (!delta) throw new ProviderError(this.name, `Reading folder ${folder.name} failed: 410 Gone`);
+      contacts.push(...delta.changed);
+      collections[folder.id] = { syncToken: delta.deltaLink };
+    }
+
+    this.syncState.collections = collections;
+    logger.info(`Outlook: fetched ${contacts.length} contacts from ${folders.length} folder(s)`);
+    return contacts;
+  }
+
+  /**
+   * Contacts changed or deleted since each folder's saved delta link. Returns
+   * null, for a full fetch, when nothing was saved yet, folders were added or
+   * removed, or Graph no longer knows a delta link.
+   */
+  async fetchChanges(): Promise<RemoteChanges | null> {
+    const saved = this.syncState.collections;
+    if (!saved) return null;
+
+    const folders = await this.fetchFolders();
+    if (folders.length !== Object.keys(saved).length || folders.some(f => !saved[f.id]?.syncToken)) return null;
+
+    const changes: RemoteChanges = { changed: [], deletedIds: [] };
+    const collections: Record<string, CollectionSyncState> = {};
+
+    for (const folder of folders) {
+      const delta = await this.delta(folder, saved[folder.id].syncToken!);
+      if (!delta) {
+        logger.info(`Outlook: delta link for ${folder.name} expired, falling back to a full fetch`);
+        this.syncState.collections = undefined;
+        return null;
+      }
+      changes.changed.push(...delta.changed);
+      changes.deletedIds.push(...delta.deleted);
+      collections[folder.id] = { syncToken: delta.deltaLink };
+    }
+
+    // A contact moved between folders is removed from one and added to the other
+    const moved = new Set(changes.changed.map(c => c.metadata.providerIds[this.name]));
+    changes.deletedIds = changes.deletedIds.filter(id => !moved.has(id));
+
+    this.syncState.collections = collections;
+    logger.info(`Outlook: fetched ${changes.changed.length} changed and ${changes.deletedIds.length} deleted contacts`);
+    return changes;
+  }
+
+  async fetchOne(remoteId: string): Promise<Contact | null> {
+    const res = await this.request('GET', `me/contacts/${encodeURIComponent(remoteId)}?$select=${CONTACT_FIELDS}`);
+    if (res.status === 404) return null;
+    if (!res.ok) throw await this.failure(res, `Reading ${remoteId}`);
+    const item: any = await res.json();
+    return graphToContact(item, this.name, this.folders.find(f => f.id === item.parentFolderId));
+  }
+
+  async pushContact(contact: Contact): Promise<RemoteRevision> {
+    const folders = await this.knownFolders();
+    const folder = folders.find(f => !f.isDefault && hasCategory(contact, f.name)) ?? folders[0];
+
+    const res = await this.request('POST', `me/contactFolders/${encodeURIComponent(folder.id)}/contacts`, {
+      body: this.toGraph(contact),
+    });
+    if (!res.ok) throw await this.failure(res, `Creating ${contact.fullName}`);
+    const created: any = await res.json();
+    return { remoteId: created.id, etag: etagOf(created) };
+  }
+
+  async updateContact(remoteId: string, contact: Contact, etag?: string): Promise<RemoteRevision> {
+    // Without If-Match the PATCH would overwrite whatever Outlook has now
+    if (!etag) throw new PreconditionFailedError(this.name, remoteId);
+    await this.knownFolders();
+
+    const res = await this.request('PATCH', `me/contacts/${encodeURIComponent(remoteId)}`, {
+      body: this.toGraph(contact),
+      headers: { 'If-Match': etag },
+    });
+    if (res.status === 412) throw new PreconditionFailedError(this.name, remoteId);
+    if (!res.ok) throw await this.failure(res, `Updating ${remoteId}`);
+    return { remoteId, etag: etagOf(await res.json()) };
+  }
+
+  async deleteContact(remoteId: string): Promise<void> {
+    const res = await this.request('DELETE', `me/contacts/${encodeURIComponent(remoteId)}`);
+    // Already gone is as good as deleted
+    if (!res.ok && res.status !== 404) throw await this.failure(res, `Deleting ${remoteId}`);
+  }
+
+  /**
+   * Fill in from the local contact what Graph has no slot for: email types and
+   * primary flags, phone and address types that share a slot (fax numbers are
+   * stored as business phones), values beyond the slots (a fourth email, a
+   * second mobile number, a second home address, ...) and the local order.
+   */
+  completeRemote(remote: Contact, local: Contact): Contact {
+    return {
+      ...remote,
+      emails: completeList(remote.emails, local.emails, e => e.value.toLowerCase(), emailSlots),
+      phones: completeList(remote.phones, local.phones, p => normalizePhone(p.value), phoneSlots),
+      addresses: completeList(remote.addresses, local.addresses, addressKey, addressSlots),
+      urls: completeList(remote.urls, local.urls, u => u.value, urlSlots),
+      ims: completeList(remote.ims, local.ims, im => im.value.toLowerCase(), ims => ims.map(() => 'im')),
+      related: completeList(remote.related, local.related, r => r.value, relatedSlots),
+      categories: completeList(remote.categories, local.categories, c => c.toLowerCase(), cs => cs.map(() => 'category')),
+    };
+  }
+
+  /** A Graph contact with every synced field set, so a PATCH also clears what the contact no longer has. */
+  private toGraph(contact: Contact): Record<string, unknown> {
+    // The folder a contact is in shows up as a category; it isn't an Outlook category
+    const folderNames = this.folders.filter(f => !f.isDefault).map(f => f.name.toLowerCase());
+    const emails = slotted(contact.emails, emailSlots).get('email') ?? [];
+    const phones = slotted(contact.phones, phoneSlots);
+    const addresses = slotted(contact.addresses, addressSlots);
+    const related = slotted(contact.related, relatedSlots);
+
+    return {
+      displayName: contact.fullName,
+      givenName: contact.name.givenName ?? null,
+      middleName: contact.name.middleName ?? null,
+      surname: contact.name.familyName ?? null,
+      title: contact.name.prefix ?? null,
+      generation: contact.name.suffix ?? null,
+      yomiGivenName: contact.name.phoneticGivenName ?? null,
+      yomiSurname: contact.name.phoneticFamilyName ?? null,
+      nickName: contact.nickname ?? null,
+      emailAddresses: emails.map(e => ({ address: e.value, name: contact.fullName })),
+      businessPhones: (phones.get('business') ?? []).map(p => p.originalValue ?? p.value),
+      homePhones: (phones.get('home') ?? []).map(p => p.originalValue ?? p.value),
+      mobilePhone: phones.get('mobile')?.map(p => p.originalValue ?? p.value)[0] ?? null,
+      homeAddress: toPhysicalAddress(addresses.get('home')?.[0]),
+      businessAddress: toPhysicalAddress(addresses.get('business')?.[0]),
+      otherAddress: toPhysicalAddress(addresses.get('other')?.[0]),
+      companyName: contact.organization?.name ?? null,
+      department: contact.organization?.department ?? null,
+      jobTitle: contact.organization?.title ?? null,
+      // Noon UTC keeps the date the same in every time zone Outlook shows it in
+      birthday: contact.birthday && /^\d{4}-\d{2}-\d{2}$/.test(contact.birthday) ? `${contact.birthday}T11:59:00Z` : null,
+      businessHomePage: slotted(contact.urls, urlSlots).get('web')?.[0]?.value ?? null,
+      imAddresses: contact.ims.map(im => im.value),
+      spouseName: related.get('spouse')?.[0]?.value ?? null,
+      children: (related.get('child') ?? []).map(r => r.value),
+      personalNotes: contact.notes ?? null,
+      categories: contact.categories.filter(c => !folderNames.includes(c.toLowerCase())),
+    };
+  }
+
+  /** The folders to sync: the default folder and its subfolders, or the ones named in config, in that order. */
+  private async fetchFolders(): Promise<GraphFolder[]> {
+    // The default folder answers to its well-known name; other folders are listed under it
+    const root = await this.json('GET', 'me/contactFolders/contacts');
+    const all: GraphFolder[] = [{ id: root.id, name: root.displayName ?? 'Contacts', isDefault: true }];
+    let next: string | undefined = 'me/contactFolders?$top=100';
+    while (next) {
+      const page = await this.json('GET', next);
+      for (const folder of page.value ?? []) all.push({ id: folder.id, name: folder.displayName ?? '', isDefault: false });
+      next = page['@odata.nextLink'];
+    }
+
+    const configured = this.config.folders;
+    if (configured === undefined) {
+      this.folders = all;
+      return all;
+    }
+    if (!Array.isArray(configured) || configured.length === 0 || configured.some(f => typeof f !== 'string')) {
+      throw new ProviderError(this.name, 'folders must be a non-empty list of folder names');
+    }
+    this.folders = configured.map((name: string) => {
+      const folder = all.find(f => f.name.toLowerCase() === name.toLowerCase());
+      if (!folder) {
+        throw new ProviderError(this.name, `Contact folder not found: ${name} (available: ${all.map(f => f.name).join(', ')})`);
+      }
+      return folder;
+    });
+    return this.folders;
+  }
+
+  /** The synced folders, discovered now unless a fetch already did. */
+  private async knownFolders(): Promise<GraphFolder[]> {
+    return this.folders.length > 0 ? this.folders : this.fetchFolders();
+  }
+
+  /** Follow a delta query through its pages; null if Graph no longer knows the delta link (410 Gone). */
+  private async delta(folder: GraphFolder, link: string): Promise<FolderDelta | null> {
+    const delta: FolderDelta = { changed: [], deleted: [], deltaLink: link };
+    let next: string | undefined = link;
+
+    while (next) {
+      const res = await this.request('GET', next);
+      if (res.status === 410) return null;
+      if (!res.ok) throw await this.failure(res, `Reading folder ${folder.name}`);
+      const page: any = await res.json();
+      for (const item of page.value ?? []) {
+        if (item['@removed']) delta.deleted.push(item.id);
+        else delta.changed.push(graphToContact(item, this.name, folder));
+      }
+      next = page['@odata.nextLink'];
+      if (page['@odata.deltaLink']) delta.deltaLink = page['@odata.deltaLink'];
+    }
+    return delta;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expires > Date.now()) return this.accessToken.value;
+
+    const clientId = this.assertConfigured('clientId');
+    const tenant = (this.config.tenant as string | undefined) ?? 'common';
+    const tokenUrl = (this.config.tokenUrl as string | undefined)
+      ?? `https://login.microsoftonline.com/${encodeURIComponent(tenant)}/oauth2/v2.0/token`;
+    const body = new URLSearchParams({
+      client_id: clientId,
+      grant_type: 'refresh_token',
+      refresh_token: this.refreshToken ?? this.assertConfigured('refreshToken'),
+      scope: SCOPE,
+    });
+    if (typeof this.config.clientSecret === 'string') body.set('client_secret', this.config.clientSecret);
+
+    const res = await fetch(tokenUrl, { method: 'POST', body });
+    const data: any = await res.json().catch(() => ({}));
+    if (!res.ok || !data.access_token) {
+      throw new ProviderError(this.name, `Token refresh failed: ${data.error_description ?? data.error ?? res.status}`);
+    }
+    if (data.refresh_token) this.refreshToken = data.refresh_token;
+    // Renew a minute early so the token can't expire halfway through a request
+    this.accessToken = { value: data.access_token, expires: Date.now() + (Number(data.expires_in ?? 3600) - 60) * 1000 };
+    return data.access_token;
+  }
+
+  /** A Graph request to `path`, relative to graphUrl, or a full next or delta link. */
+  private async request(
+    method: string,
+    path: string,
+    options: { body?: unknown; headers?: Record<string, string> } = {},
+  ): Promise<Response> {
+    const base = (this.config.graphUrl as string | undefined) ?? DEFAULT_GRAPH_URL;
+    const url = /^https?:\/\//.test(path) ? path : new URL(path, base.endsWith('/') ? base : `${base}/`).href;
+
+    for (let attempt = 1; ; attempt++) {
+      const res = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${await this.getAccessToken()}`,
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...options.headers,
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+      if ((res.status !== 429 && res.status !== 503) || attempt === MAX_ATTEMPTS) return res;
+
+      const delay = Math.min(Number(res.headers.get('retry-after') ?? 1) * 1000, MAX_RETRY_DELAY_MS);
+      logger.info(`Outlook: throttled on ${method} ${path}, retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private async json(method: string, path: string): Promise<any> {
+    const res = await this.request(method, path);
+    if (!res.ok) throw await this.failure(res, `${method} ${path}`);
+    return res.json();
+  }
+
+  private async failure(res: Response, what: string): Promise<ProviderError> {
+    const data: any = await res.json().catch(() => null);
+    return new ProviderError(this.name, `${what} failed: ${res.status} ${data?.error?.message ?? res.statusText}`);
+  }
+}
+
+interface GraphFolder {
+  id: string;
+  name: string;
+  /** The mailbox's default Contacts folder, which maps to no category */
+  isDefault: boolean;
+}
+
+interface FolderDelta {
+  changed: Contact[];
+  deleted: string[];
+  deltaLink: string;
+}
+
+function graphToContact(item: any, providerName: string, folder?: GraphFolder): Contact {
+  const categories: string[] = [...(item.categories ?? [])];
+  if (folder && !folder.isDefault && !categories.some(c => c.toLowerCase() === folder.name.toLowerCase())) {
+    categories.push(folder.name);
+  }
+  const organization = item.companyName || item.department || item.jobTitle
+    ? { name: item.companyName || undefined, department: item.department || undefined, title: item.jobTitle || undefined }
+    : undefined;
+
+  return createContact({
+    id: generateId(),
+    fullName: item.displayName || [item.givenName, item.surname].filter(Boolean).join(' ') || 'Unknown',
+    name: {
+      givenName: item.givenName || undefined,
+      middleName: item.middleName || undefined,
+      familyName: item.surname || undefined,
+      prefix: item.title || undefined,
+      suffix: item.generation || undefined,
+      phoneticGivenName: item.yomiGivenName || undefined,
+      phoneticFamilyName: item.yomiSurname || undefined,
+    },
+    nickname: item.nickName || undefined,
+    emails: (item.emailAddresses ?? [])
+      .filter((e: any) => e.address)
+      .map((e: any): ContactEmail => ({ value: e.address })),
+    phones: [
+      ...(item.mobilePhone ? [{ value: item.mobilePhone, type: 'mobile' as const }] : []),
+      ...(item.businessPhones ?? []).map((value: string): ContactPhone => ({ value, type: 'work' })),
+      ...(item.homePhones ?? []).map((value: string): ContactPhone => ({ value, type: 'home' })),
+    ],
+    addresses: [
+      fromPhysicalAddress(item.homeAddress, 'home'),
+      fromPhysicalAddress(item.businessAddress, 'work'),
+      fromPhysicalAddress(item.otherAddress, 'other'),
+    ].filter((a): a is ContactAddress => a !== undefined),
+    organization,
+    birthday: item.birthday ? String(item.birthday).slice(0, 10) : undefined,
+    urls: item.businessHomePage ? [{ value: item.businessHomePage, type: 'work' }] : [],
+    ims: (item.imAddresses ?? []).map((value: string): ContactIm => ({ value })),
+    related: [
+      ...(item.spouseName ? [{ value: item.spouseName, type: 'spouse' }] : []),
+      ...(item.children ?? []).map((value: string): ContactRelated => ({ value, type: 'child' })),
+    ],
+    notes: item.personalNotes || undefined,
+    categories,
+    metadata: {
+      created: new Date().toISOString(),
+      modified: new Date().toISOString(),
+      source: providerName,
+      providerIds: { [providerName]: item.id },
+      archived: false,
+      etag: etagOf(item),
+    },
+  });
+}
+
+/** Delta pages may leave out @odata.etag; it's the change key wrapped as a weak etag. */
+function etagOf(item: any): string | undefined {
+  return item['@odata.etag'] ?? (item.changeKey ? `W/"${item.changeKey}"` : undefined);
+}
+
+function fromPhysicalAddress(address: any, type: ContactAddress['type']): ContactAddress | undefined {
+  if (!address || !(address.street || address.city || address.state || address.postalCode || address.countryOrRegion)) {
+    return undefined;
+  }
+  return {
+    street: address.street || undefined,
+    city: address.city || undefined,
+    state: address.state || undefined,
+    postalCode: address.postalCode || undefined,
+    country: address.countryOrRegion || undefined,
+    type,
+  };
+}
+
+function toPhysicalAddress(address?: ContactAddress): Record<string, string> {
+  return {
+    street: address?.street ?? '',
+    city: address?.city ?? '',
+    state: address?.state ?? '',
+    postalCode: address?.postalCode ?? '',
+    countryOrRegion: address?.country ?? '',
+  };
+}
+
+function addressKey(address: ContactAddress): string {
+  return [address.street, address.city, address.state, address.postalCode, address.country].join('|').toLowerCase();
+}
+
+/*
+ * Which Graph slot each element of a list field is written to, in order; null
+ * for elements there's no slot left for. Pulled contacts map back to the same
+ * slots, which is how completeRemote tells a moved value from a retyped one.
+ */
+
+function emailSlots(emails: ContactEmail[]): (string | null)[] {
+  return emails.map((_, i) => (i < MAX_EMAILS ? 'email' : null));
+}
+
+function phoneSlots(phones: ContactPhone[]): (string | null)[] {
+  let mobileTaken = false;
+  return phones.map(phone => {
+    if (phone.type === 'home') return 'home';
+    if (phone.type !== 'mobile') return 'business';
+    if (mobileTaken) return null;
+    mobileTaken = true;
+    return 'mobile';
+  });
+}
+
+function addressSlots(addresses: ContactAddress[]): (string | null)[] {
+  const taken = new Set<string>();
+  return addresses.map(address => {
+    const slot = address.type === 'home' ? 'home' : address.type === 'work' ? 'business' : 'other';
+    if (taken.has(slot)) return null;
+    taken.add(slot);
+    return slot;
+  });
+}
+
+function urlSlots(urls: ContactUrl[]): (string | null)[] {
+  return urls.map((_, i) => (i === 0 ? 'web' : null));
+}
+
+function relatedSlots(related: ContactRelated[]): (string | null)[] {
+  let spouseTaken = false;
+  return related.map(r => {
+    const type = r.type?.toLowerCase();
+    if (type === 'child') return 'child';
+    if (type !== 'spouse' || spouseTaken) return null;
+    spouseTaken = true;
+    return 'spouse';
+  });
+}
+
+/** Elements grouped by the slot they're written to, leaving out those without one. */
+function slotted<T>(items: T[], slots: (items: T[]) => (string | null)[]): Map<string, T[]> {
+  const bySlot = new Map<string, T[]>();
+  const assigned = slots(items);
+  items.forEach((item, i) => {
+    const slot = assigned[i];
+    if (slot !== null) bySlot.set(slot, [...(bySlot.get(slot) ?? []), item]);
+  });
+  return bySlot;
+}
+
+/**
+ * A remote list as the local one would have it: elements both have in the
+ * same slot are taken from local (keeping what Graph doesn't store about
+ * them), local elements without a slot were never written so they're kept,
+ * and all of these stay in local order. Elements only Graph has come last.
+ */
+function completeList<T>(remote: T[], local: T[], key: (item: T) => string, slots: (items: T[]) => (string | null)[]): T[] {
+  const localSlots = slots(local);
+  const remoteSlots = slots(remote);
+  const remoteKeys = new Set(remote.map(key));
+  const matched = new Set<number>();
+  const added: T[] = [];
+
+  remote.forEach((item, i) => {
+    const match = local.findIndex((l, j) => !matched.has(j) && key(l) === key(item) && localSlots[j] === remoteSlots[i]);
+    if (match === -1) added.push(item);
+    else matched.add(match);
+  });
+  const kept = local.filter((l, j) => matched.has(j) || (localSlots[j] === null && !remoteKeys.has(key(l))));
+  return [...kept, ...added];
+}
+
+function hasCategory(contact: Contact, category: string): boolean {
+  return contact.categories.some(c => c.toLowerCase() === category.toLowerCase());
+}
@@ -0,0 +1,201 @@
+import { pathToFileURL } from 'node:url';
+import * as path from 'node:path';
+import { z } from 'zod';
+import type { ContactProvider, ProviderConfig } from '../types/index.js';
+import { AppleProvider } from './apple.js';
+import { CardDAVProvider } from './carddav.js';
+import { GoogleProvider } from './google.js';
+import { LocalProvider } from './local.js';
+import { OutlookProvider } from './outlook.js';
+import { VcfDirectoryProvider } from './vcf-directory.js';
+import { logger, ProviderError } from '../utils/index.js';
+
+/** What a provider type supports, as shown by list_providers. */
+export interface ProviderCapabilities {
+  /** Fetches only what changed since the last sync (fetchChanges) */
+  incremental: boolean;
+  /** Syncs contact groups */
+  groups: boolean;
+  /** Refuses updates to a contact that changed since it was fetched (etags) */
+  conditionalWrites: boolean;
+}
+
+/**
+ * A provider type: how to build one from its `config` in config.json, and
+ * what it can do. Built-in types are registered up front; plugins add theirs.
+ */
+export interface ProviderDefinition<P extends ContactProvider = ContactProvider> {
+  type: string;
+  description: string;
+  /** Schema of the provider's `config` object */
+  configSchema: z.ZodType<Record<string, unknown>>;
+  capabilities: ProviderCapabilities;
+  create(name: string, config: Record<string, unknown>): P;
+  /** Shown when a provider of this type isn't configured or reachable */
+  setupHint?: string;
+  /** Extra status for list_providers, e.g. the address books on a CardDAV server */
+  status?(provider: P): Promise<Record<string, unknown>>;
+}
+
+const url = z.string().url();
+
+const BUILTIN_PROVIDERS: ProviderDefinition<any>[] = [
+  {
+    type: 'google',
+    description: 'Google Contacts via the People API',
+    configSchema: z.object({
+      clientId: z.string().min(1),
+      clientSecret: z.string().min(1),
+      refreshToken: z.string().min(1),
+      rootUrl: url.optional(),
+      tokenUrl: url.optional(),
+    }).passthrough(),
+    capabilities: { incremental: true, groups: true, conditionalWrites: true },
+    create: (name, config) => new GoogleProvider(name, config),
+  },
+  {
+    type: 'apple',
+    description: 'macOS Contacts via JavaScript for Automation',
+    configSchema: z.object({}).passthrough(),
+    capabilities: { incremental: false, groups: true, conditionalWrites: false },
+    create: (name, config) => new AppleProvider(name, config),
+    setupHint: 'Ensure macOS Contacts permission is granted in System Settings > Privacy & Security > Contacts.',
+  },
+  {
+    type: 'carddav',
+    description: 'Any CardDAV server (Fastmail, Nextcloud, iCloud, Radicale, ...)',
+    configSchema: z.object({
+      serverUrl: url,
+      username: z.string().min(1),
+      password: z.string().min(1),
+      authMethod: z.enum(['Basic', 'Digest']).optional(),
+      addressBooks: z.array(z.union([
+        z.string(),
+        z.object({ book: z.string(), category: z.string().optional(), group: z.string().optional() }),
+      ])).nonempty().optional(),
+    }).passthrough(),
+    capabilities: { incremental: true, groups: true, conditionalWrites: true },
+    create: (name, config) => new CardDAVProvider(name, config),
+    status: async (provider: CardDAVProvider) => ({
+      addressBooks: await provider.listAddressBooks().catch((err: Error) => ({ error: err.message })),
+    }),
+  },
+  {
+    type: 'outlook',
+    description: 'Outlook / Microsoft 365 contacts via Microsoft Graph',
+    configSchema: z.object({
+      clientId: z.string().min(1),
+      refreshToken: z.string().min(1),
+      clientSecret: z.string().optional(),
+      tenant: z.string().optional(),
+      folders: z.array(z.string()).nonempty().optional(),
+      graphUrl: url.optional(),
+      tokenUrl: url.optional(),
+    }).passthrough(),
+    capabilities: { incremental: true, groups: false, conditionalWrites: true },
+    create: (name, config) => new OutlookProvider(name, config),
+  },
+  {
+    type: 'vcf-directory',
+    description: 'A directory of .vcf files shared with other tools',
+    configSchema: z.object({ path: z.string().min(1) }).passthrough(),
+    capabilities: { incremental: true, groups: false, conditionalWrites: true },
+    create: (name, config) => new VcfDirectoryProvider(name, config),
+    setupHint: 'Check that config.path in ~/.contacts-mcp/config.json is an existing directory.',
+  },
+  {
+    type: 'local',
+    description: 'Another contact store on disk, e.g. a shared team store',
+    configSchema: z.object({ path: z.string().min(1) }).passthrough(),
+    capabilities: { incremental: true, groups: false, conditionalWrites: true },
+    create: (name, config) => new LocalProvider(name, config),
+    setupHint: 'Check that config.path in ~/.contacts-mcp/config.json is an existing contact store, other than this server\'s own, that it can write to.',
+  },
+];
+
+const DEFAULT_SETUP_HINT = 'Check your credentials in ~/.contacts-mcp/config.json';
+
+/** Provider types by name, used by sync_provider, list_providers and scheduled syncs. */
+export class ProviderRegistry {
+  private definitions = new Map<string, ProviderDefinition<any>>();
+
+  register(definition: ProviderDefinition<any>): void {
+    if (this.definitions.has(definition.type)) {
+      throw new ProviderError(definition.type, `Provider type "${definition.type}" is already registered`);
+    }
+    this.definitions.set(definition.type, definition);
+  }
+
+  get(type: string): ProviderDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  list(): ProviderDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /** Problems with a provider's config, one line each; empty when it's valid. */
+  validate(providerConfig: Pick<ProviderConfig, 'type' | 'config'>): string[] {
+    const definition = this.definitions.get(providerConfig.type);
+    if (!definition) return [`Unknown provider type: ${providerConfig.type}`];
+    const parsed = definition.configSchema.safeParse(providerConfig.config ?? {});
+    if (parsed.success) return [];
+    return parsed.error.issues.map(issue => `${['config', ...issue.path].join('.')}: ${issue.message}`);
+  }
+
+  /** Build the provider a config.json entry describes; throws ProviderError if its type or config is invalid. */
+  create(providerConfig: Pick<ProviderConfig, 'name' | 'type' | 'config'>): ContactProvider {
+    const problems = this.validate(providerConfig);
+    if (problems.length > 0) throw new ProviderError(providerConfig.name, problems.join('; '));
+    return this.definitions.get(providerConfig.type)!.create(providerConfig.name, providerConfig.config ?? {});
+  }
+
+  setupHint(type: string): string {
+    return this.definitions.get(type)?.setupHint ?? DEFAULT_SETUP_HINT;
+  }
+
+  /**
+   * Register the provider types of plugin modules: npm packages or paths to
+   * modules, each exporting `providers`, a list of provider definitions. A
+   * plugin that fails to load is logged and skipped; its types are only
+   * registered once all of them check out, so it never half-loads.
+   */
+  async loadPlugins(modules: string[]): Promise<void> {
+    for (const specifier of modules) {
+      try {
+        const imported = await import(path.isAbsolute(specifier) ? pathToFileURL(specifier).href : specifier);
+        const definitions: unknown = imported.providers ?? imported.default?.providers;
+        if (!Array.isArray(definitions) || definitions.length === 0) {
+          throw new Error('it exports no `providers` list');
+        }
+        const types = new Set<string>();
+        for (const definition of definitions) {
+          if (typeof definition?.type !== 'string' || typeof definition.create !== 'function'
+            || typeof definition.configSchema?.safeParse !== 'function') {
+            throw new Error('a provider definition needs a type, a configSchema and a create function');
+          }
+          if (this.definitions.has(definition.type) || types.has(definition.type)) {
+            throw new Error(`provider type "${definition.type}" is already registered`);
+          }
+          types.add(definition.type);
+        }
+        for (const definition of definitions) {
+          this.register(definition);
+          logger.info(`Registered provider type "${definition.type}" from ${specifier}`);
+        }
+      } catch (err: any) {
+        logger.error(`Provider plugin ${specifier} not loaded:`, err.message);
+      }
+    }
+  }
+}
+
+/** A registry holding the built-in provider types. */
+export function createProviderRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+  for (const definition of BUILTIN_PROVIDERS) registry.register(definition);
+  return registry;
+}
+
+/** The registry the server uses; plugins from config.json are added at startup. */
+export const providerRegistry = createProviderRegistry();
@@ -0,0 +1,245 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { CollectionSyncState, Contact, RemoteChanges, RemoteRevision } from '../types/index.js';
+import { BaseProvider } from './base.js';
+import { contactToVCard, vcardToContact, isGroupVCard, splitVCards } from '../contacts/vcard.js';
+import { expandTilde } from '../config.js';
+import { logger, PreconditionFailedError, ProviderError } from '../utils/index.js';
+
+/**
+ * Provider for a directory of .vcf files that other tools read and write, such
+ * as a Syncthing-shared folder.
+ *
+ * Required config:
+ * - path: the directory (a leading ~ is expanded)
+ *
+ * Files may hold one contact or many, and can be in subdirectories; hidden
+ * files and directories (.stfolder, .stversions, editor temp files) are
+ * skipped. A contact's remote ID is its file path relative to the directory
+ * followed by `#<UID>`, so it stays the same when other cards are added to or
+ * removed from the file; a card without a UID is known by the file alone, or
+ * by its position in a multi-contact file. Its etag is a hash of its vCard text.
+ *
+ * Each file's mtime and size are kept after a fetch, so later syncs only read
+ * files that changed. New contacts are written to `<id>.vcf`.
+ */
+export class VcfDirectoryProvider extends BaseProvider {
+  readonly name: string;
+  readonly type = 'vcf-directory' as const;
+
+  constructor(name: string, config: Record<string, unknown>) {
+    super(config);
+    this.name = name;
+  }
+
+  async isConfigured(): Promise<boolean> {
+    try {
+      return (await fs.stat(this.directory())).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchAll(): Promise<Contact[]> {
+    const files = await this.listFiles();
+    const contacts: Contact[] = [];
+
+    for (const file of files.keys()) {
+      contacts.push(...this.parseCards(file, await this.readCards(file)));
+    }
+
+    this.syncState.collections = Object.fromEntries(files);
+    logger.info(`vCard directory: read ${contacts.length} contacts from ${files.size} file(s)`);
+    return contacts;
+  }
+
+  /**
+   * Contacts in files whose mtime or size changed since the last fetch, minus
+   * those whose vCard text is still the same. Contacts missing from a changed
+   * file, or in a file that's gone, are reported deleted. Returns null, for a
+   * full fetch, when no file stats were saved yet.
+   */
+  async fetchChanges(): Promise<RemoteChanges | null> {
+    const saved = this.syncState.collections;
+    if (!saved) return null;
+
+    const files = await this.listFiles();
+    const changes: RemoteChanges = { changed: [], deletedIds: [] };
+    const known = Object.keys(this.syncState.etags);
+    const inFile = (file: string) => known.filter(id => fileOf(id) === file);
+
+    for (const [file, state] of files) {
+      if (saved[file]?.ctag === state.ctag) continue;
+
+      const contacts = this.parseCards(file, await this.readCards(file));
+      const present = new Set(contacts.map(c => c.metadata.providerIds[this.name]));
+      changes.changed.push(...contacts.filter(c => this.syncState.etags[c.metadata.providerIds[this.name]] !== c.metadata.etag));
+      changes.deletedIds.push(...inFile(file).filter(id => !present.has(id)));
+    }
+    for (const file of Object.keys(saved)) {
+      if (!files.has(file)) changes.deletedIds.push(...inFile(file));
+    }
+
+    this.syncState.collections = Object.fromEntries(files);
+    logger.info(`vCard directory: found ${changes.changed.length} changed and ${changes.deletedIds.length} deleted contacts`);
+    return changes;
+  }
+
+  async fetchOne(remoteId: string): Promise<Contact | null> {
+    const file = fileOf(remoteId);
+    return this.parseCards(file, await this.readCards(file)).find(c => c.metadata.providerIds[this.name] === remoteId) ?? null;
+  }
+
+  async pushContact(contact: Contact): Promise<RemoteRevision> {
+    const file = `${contact.id}.vcf`;
+    const vcard = contactToVCard(contact);
+    try {
+      // wx: never overwrite a file another tool wrote under the same name
+      await fs.writeFile(this.resolve(file), vcard, { encoding: 'utf-8', flag: 'wx' });
+    } catch (err: any) {
+      throw new ProviderError(this.name, `Creating ${file} failed: ${err.message}`);
+    }
+    return { remoteId: `${file}#${contact.id}`, etag: hashCard(vcard) };
+  }
+
+  async updateContact(remoteId: string, contact: Contact, etag?: string): Promise<RemoteRevision> {
+    // Another tool may have edited the file since; without an etag there's no telling
+    if (!etag) throw new PreconditionFailedError(this.name, remoteId);
+    const vcard = contactToVCard(contact);
+    await this.rewriteCard(remoteId, current => {
+      if (current === undefined || hashCard(current) !== etag) throw new PreconditionFailedError(this.name, remoteId);
+      return vcard;
+    });
+    return { remoteId, etag: hashCard(vcard) };
+  }
+
+  async deleteContact(remoteId: string): Promise<void> {
+    await this.rewriteCard(remoteId, () => null);
+  }
+
+  private directory(): string {
+    return expandTilde(this.assertConfigured('path'));
+  }
+
+  /** Absolute path of a file given relative to the directory, refusing paths that leave it. */
+  private resolve(file: string): string {
+    const root = path.resolve(this.directory());
+    const absolute = path.resolve(root, file);
+    if (!absolute.startsWith(root + path.sep)) {
+      throw new ProviderError(this.name, `Not inside the vCard directory: ${file}`);
+    }
+    return absolute;
+  }
+
+  /** Every .vcf file, by relative path with / separators, with its mtime and size as the ctag. */
+  private async listFiles(): Promise<Map<string, CollectionSyncState>> {
+    const root = this.directory();
+    const files = new Map<string, CollectionSyncState>();
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+      } catch (err: any) {
+        throw new ProviderError(this.name, `Can't read ${path.join(root, dir)}: ${err.message}`);
+      }
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const relative = dir ? `${dir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(relative);
+        } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.vcf')) {
+          const stat = await fs.stat(path.join(root, relative));
+          files.set(relative, { ctag: `${stat.mtimeMs}:${stat.size}` });
+        }
+      }
+    };
+
+    await walk('');
+    return files;
+  }
+
+  /** The cards in a file; none if it doesn't exist. */
+  private async readCards(file: string): Promise<string[]> {
+    try {
+      return splitVCards(await fs.readFile(this.resolve(file), 'utf-8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return [];
+      throw new ProviderError(this.name, `Can't read ${file}: ${err.message}`);
+    }
+  }
+
+  /** Parse a file's contact cards, skipping group cards and anything unparseable. */
+  private parseCards(file: string, cards: string[]): Contact[] {
+    const contacts: Contact[] = [];
+    for (const [remoteId, card] of cardIds(file, cards)) {
+      if (isGroupVCard(card)) continue;
+      try {
+        const contact = vcardToContact(card);
+        contact.metadata.source = this.name;
+        contact.metadata.providerIds[this.name] = remoteId;
+        contact.metadata.etag = hashCard(card);
+        contacts.push(contact);
+      } catch (err) {
+        logger.warn(`vCard directory: failed to parse ${remoteId}:`, err);
+      }
+    }
+    return contacts;
+  }
+
+  /**
+   * Replace one card in its file with what `edit` returns, or remove it for
+   * null; a card that's already gone stays gone, and a file left without cards
+   * is deleted. The file is replaced through a rename, so other tools never see
+   * it half-written.
+   */
+  private async rewriteCard(remoteId: string, edit: (current: string | undefined) => string | null): Promise<void> {
+    const file = fileOf(remoteId);
+    const cards = cardIds(file, await this.readCards(file));
+    const replacement = edit(cards.get(remoteId));
+    if (!cards.has(remoteId)) return;
+
+    const kept = [...cards].flatMap(([id, card]) => {
+      if (id !== remoteId) return [card];
+      return replacement === null ? [] : [replacement];
+    });
+
+    const target = this.resolve(file);
+    if (kept.length === 0) {
+      await fs.rm(target, { force: true });
+      return;
+    }
+    const temp = path.join(path.dirname(target), `.${path.basename(target)}.tmp`);
+    await fs.writeFile(temp, kept.map(card => card.replace(/(\r\n)*$/, '\r\n')).join(''), 'utf-8');
+    await fs.rename(temp, target);
+  }
+}
+
+/** Remote ID -> card text for a file's cards: `file#UID`, whatever else the file holds. */
+function cardIds(file: string, cards: string[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  cards.forEach((card, index) => {
+    // Cards without a UID fall back to the file, or their position in it
+    const uid = /^UID(?:;[^:]*)?:(.*)$/im.exec(card)?.[1]?.trim().replace(/^urn:uuid:/i, '')
+      || (cards.length === 1 ? '' : String(index));
+    const id = uid ? `${file}#${uid}` : file;
+    if (ids.has(id)) {
+      logger.warn(`vCard directory: skipping a second card with UID ${uid} in ${file}`);
+      return;
+    }
+    ids.set(id, card);
+  });
+  return ids;
+}
+
+function fileOf(remoteId: string): string {
+  const hash = remoteId.indexOf('#');
+  return hash === -1 ? remoteId : remoteId.slice(0, hash);
+}
+
+/** Etag of a card: line endings and trailing blank lines don't count as changes. */
+function hashCard(card: string): string {
+  const normalized = card.replace(/\r\n/g, '\n').trimEnd();
+  return createHash('sha1').update(normalized).digest('hex');
+}
@@ -2,6 +2,8 @@ import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { GitContactStore } from '../store/index.js';
 import { findDuplicates } from '../contacts/index.js';
+import { toGroupSummary } from '../types/index.js';
+import { ConflictQueue } from '../sync/conflict-queue.js';
 
 export function registerAllResources(server: McpServer, store: GitContactStore): void {
   // contacts://all - summary list of all contacts
@@ -20,6 +22,43 @@ export function registerAllResources(server: McpServer, store: GitContactStore):
     };
   });
 
+  // contacts://groups/{id} - a group with its members
+  server.registerResource('group-detail',
+    new ResourceTemplate('contacts://groups/{id}', {
+      list: async () => {
+        const groups = await store.listGroups();
+        return {
+          resources: groups.map(g => ({
+            uri: `contacts://groups/${g.id}`,
+            name: g.name,
+            description: g.description,
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    {
+      title: 'Contact Group',
+      description: 'A contact group with its member summaries',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const group = await store.getGroup(variables.id as string);
+      const byId = new Map((await store.listSummaries(false)).map(s => [s.id, s]));
+      return {
+        contents: [{
+          uri: uri.href,
+          text: JSON.stringify({
+            ...toGroupSummary(group),
+            metadata: group.metadata,
+            members: group.memberIds.map(id => byId.get(id) ?? { id, missing: true }),
+          }, null, 2),
+          mimeType: 'application/json',
+        }],
+      };
+    },
+  );
+
   // contacts://{id} - individual contact detail
   server.registerResource('contact-detail',
     new ResourceTemplate('contacts://{id}', {
@@ -69,6 +108,35 @@ export function registerAllResources(server: McpServer, store: GitContactStore):
     };
   });
 
+  // contacts://conflicts - sync conflicts waiting for resolve_conflict
+  server.registerResource('conflicts', 'contacts://conflicts', {
+    title: 'Sync Conflicts',
+    description: 'Sync conflicts queued by the manual strategy or by pull_store, with the values each side has for every conflicting field',
+    mimeType: 'application/json',
+  }, async (uri) => {
+    const conflicts = await new ConflictQueue(store.path).list();
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({
+          count: conflicts.length,
+          conflicts: conflicts.map(c => ({
+            id: c.id,
+            provider: c.provider,
+            source: c.source ?? 'sync',
+            contactId: c.contactId,
+            fullName: c.local.fullName,
+            detectedAt: c.detectedAt,
+            hasBase: c.base !== undefined,
+            conflicts: c.conflicts,
+            diffs: c.diffs,
+          })),
+        }, null, 2),
+        mimeType: 'application/json',
+      }],
+    };
+  });
+
   // contacts://history - recent changes
   server.registerResource('history', 'contacts://history', {
     title: 'Recent Changes',
@@ -0,0 +1,182 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type Fuse from 'fuse.js';
+import type { Contact } from '../types/index.js';
+import { vcardToContact } from '../contacts/vcard.js';
+import { createSearchIndex } from '../contacts/search.js';
+import { logger } from '../utils/index.js';
+import type { GitOps } from './git-ops.js';
+import { metadataPath, INDEX_FILE, CONTACTS_DIR, ARCHIVE_DIR } from './file-layout.js';
+
+/** Bump whenever the parsed Contact shape changes so stale indexes are rebuilt. */
+const INDEX_VERSION = 4;
+
+interface IndexFile {
+  version: number;
+  head: string;
+  contacts: Contact[];
+  archived: Contact[];
+}
+
+/** Changes made by a single store commit, applied to the index incrementally. */
+export interface IndexChanges {
+  /** Parsed contacts written to contacts/ (or archive/ when flagged archived) */
+  upsert?: Contact[];
+  /** IDs moved from contacts/ to archive/ */
+  archive?: string[];
+  /** IDs removed from the store entirely */
+  remove?: string[];
+}
+
+/**
+ * On-disk index of parsed contacts, keyed by the git HEAD it was built from.
+ *
+ * Store mutations update it incrementally; any HEAD it doesn't know about
+ * (rollback, external commits) triggers a full rebuild from the .vcf files.
+ */
+export class ContactIndex {
+  private storePath: string;
+  private git: GitOps;
+  private head: string | null = null;
+  private active = new Map<string, Contact>();
+  private archived = new Map<string, Contact>();
+  private searchers = new Map<boolean, Fuse<Contact>>();
+
+  constructor(storePath: string, git: GitOps) {
+    this.storePath = storePath;
+    this.git = git;
+  }
+
+  /** Return copies of the indexed contacts, rebuilding first if HEAD moved. */
+  async list(includeArchived: boolean = false): Promise<Contact[]> {
+    await this.ensureFresh();
+    return this.entries(includeArchived).map(c => structuredClone(c));
+  }
+
+  /** Return a fuzzy search index over the current contacts, cached until the next change. */
+  async searcher(includeArchived: boolean = false): Promise<{ contacts: Contact[]; fuse: Fuse<Contact> }> {
+    await this.ensureFresh();
+    const contacts = this.entries(includeArchived);
+    let fuse = this.searchers.get(includeArchived);
+    if (!fuse) {
+      fuse = createSearchIndex(contacts);
+      this.searchers.set(includeArchived, fuse);
+    }
+    return { contacts, fuse };
+  }
+
+  /**
+   * Apply the changes of a commit that moved HEAD from `previousHead` to `newHead`.
+   * If the index wasn't built from `previousHead` it is dropped and rebuilt on next read.
+   */
+  async apply(previousHead: string, newHead: string, changes: IndexChanges): Promise<void> {
+    if (this.head !== previousHead) {
+      this.invalidate();
+      return;
+    }
+
+    for (const contact of changes.upsert ?? []) {
+      const [into, from] = contact.metadata.archived ? [this.archived, this.active] : [this.active, this.archived];
+      from.delete(contact.id);
+      into.set(contact.id, contact);
+    }
+    for (const id of changes.archive ?? []) {
+      const contact = this.active.get(id);
+      if (!contact) {
+        this.invalidate();
+        return;
+      }
+      this.active.delete(id);
+      contact.metadata.archived = true;
+      this.archived.set(id, contact);
+    }
+    for (const id of changes.remove ?? []) {
+      this.active.delete(id);
+      this.archived.delete(id);
+    }
+
+    this.head = newHead;
+    this.searchers.clear();
+    await this.save();
+  }
+
+  invalidate(): void {
+    this.head = null;
+    this.active.clear();
+    this.archived.clear();
+    this.searchers.clear();
+  }
+
+  private entries(includeArchived: boolean): Contact[] {
+    const contacts = [...this.active.values()];
+    if (includeArchived) contacts.push(...this.archived.values());
+    return contacts;
+  }
+
+  private async ensureFresh(): Promise<void> {
+    const head = await this.git.head();
+    if (this.head === head) return;
+    if (await this.load(head)) return;
+    await this.rebuild(head);
+  }
+
+  private async load(head: string): Promise<boolean> {
+    let index: IndexFile;
+    try {
+      index = JSON.parse(await fs.readFile(metadataPath(this.storePath, INDEX_FILE), 'utf-8'));
+    } catch {
+      return false;
+    }
+    if (index.version !== INDEX_VERSION || index.head !== head) return false;
+
+    this.active = new Map(index.contacts.map(c => [c.id, c]));
+    this.archived = new Map(index.archived.map(c => [c.id, c]));
+    this.head = head;
+    this.searchers.clear();
+    return true;
+  }
+
+  private async rebuild(head: string): Promise<void> {
+    const started = Date.now();
+    this.active = new Map((await this.readDir(CONTACTS_DIR)).map(c => [c.id, c]));
+    this.archived = new Map((await this.readDir(ARCHIVE_DIR)).map(c => {
+      c.metadata.archived = true;
+      return [c.id, c];
+    }));
+    this.head = head;
+    this.searchers.clear();
+    await this.save();
+    logger.info(`Rebuilt contact index (${this.active.size} active, ${this.archived.size} archived) in ${Date.now() - started}ms`);
+  }
+
+  private async readDir(dir: string): Promise<Contact[]> {
+    const contacts: Contact[] = [];
+    const fullDir = path.join(this.storePath, dir);
+    try {
+      const files = await fs.readdir(fullDir);
+      for (const file of files) {
+        if (!file.endsWith('.vcf')) continue;
+        const vcard = await fs.readFile(path.join(fullDir, file), 'utf-8');
+        contacts.push(vcardToContact(vcard));
+      }
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+    return contacts;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.head) return;
+    const index: IndexFile = {
+      version: INDEX_VERSION,
+      head: this.head,
+      contacts: [...this.active.values()],
+      archived: [...this.archived.values()],
+    };
+    const filePath = metadataPath(this.storePath, INDEX_FILE);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(index), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+}
@@ -2,7 +2,13 @@ import * as path from 'node:path';
 
 export const CONTACTS_DIR = 'contacts';
 export const ARCHIVE_DIR = 'archive';
+export const GROUPS_DIR = 'groups';
 export const METADATA_DIR = '.metadata';
+export const INDEX_FILE = 'index.json';
+export const SYNC_DIR = 'sync';
+export const CONFLICTS_DIR = 'conflicts';
+export const PLANS_DIR = 'plans';
+export const RUNS_DIR = 'runs';
 
 export function contactPath(storePath: string, id: string): string {
   return path.join(storePath, CONTACTS_DIR, `${id}.vcf`);
@@ -12,10 +18,56 @@ export function archivePath(storePath: string, id: string): string {
   return path.join(storePath, ARCHIVE_DIR, `${id}.vcf`);
 }
 
+export function groupPath(storePath: string, id: string): string {
+  return path.join(storePath, GROUPS_DIR, `${id}.vcf`);
+}
+
 export function metadataPath(storePath: string, filename: string): string {
   return path.join(storePath, METADATA_DIR, filename);
 }
 
+/** Per-provider sync state, e.g. .metadata/sync/google-personal.json */
+export function syncStatePath(storePath: string, provider: string): string {
+  return path.join(storePath, METADATA_DIR, SYNC_DIR, `${provider}.json`);
+}
+
+export function relativeSyncStatePath(provider: string): string {
+  return `${METADATA_DIR}/${SYNC_DIR}/${provider}.json`;
+}
+
+export function conflictPath(storePath: string, id: string): string {
+  return path.join(storePath, METADATA_DIR, CONFLICTS_DIR, `${id}.json`);
+}
+
+/** Directory of queued sync conflicts, relative to the store root (kept out of git). */
+export function relativeConflictsDir(): string {
+  return `${METADATA_DIR}/${CONFLICTS_DIR}/`;
+}
+
+export function planPath(storePath: string, id: string): string {
+  return path.join(storePath, METADATA_DIR, PLANS_DIR, `${id}.json`);
+}
+
+/** Directory of saved sync plans, relative to the store root (kept out of git). */
+export function relativePlansDir(): string {
+  return `${METADATA_DIR}/${PLANS_DIR}/`;
+}
+
+/** History of scheduled sync runs for a provider, e.g. .metadata/runs/google-personal.json */
+export function runLogPath(storePath: string, provider: string): string {
+  return path.join(storePath, METADATA_DIR, RUNS_DIR, `${provider}.json`);
+}
+
+/** Directory of scheduled sync run histories, relative to the store root (kept out of git). */
+export function relativeRunsDir(): string {
+  return `${METADATA_DIR}/${RUNS_DIR}/`;
+}
+
+/** Path of the search index, relative to the store root (kept out of git). */
+export function relativeIndexPath(): string {
+  return `${METADATA_DIR}/${INDEX_FILE}`;
+}
+
 export function relativeContactPath(id: string): string {
   return `${CONTACTS_DIR}/${id}.vcf`;
 }
@@ -24,6 +76,10 @@ export function relativeArchivePath(id: string): string {
   return `${ARCHIVE_DIR}/${id}.vcf`;
 }
 
+export function relativeGroupPath(id: string): string {
+  return `${GROUPS_DIR}/${id}.vcf`;
+}
+
 /** Extract contact ID from a file path like "contacts/abc-123.vcf" */
 export function extractIdFromPath(filePath: string): string | undefined {
   const match = filePath.match(/(?:contacts|archive)\/([^/]+)\.vcf$/);
@@ -2,6 +2,7 @@ import { simpleGit, type SimpleGit, type LogResult } from 'simple-git';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { logger } from '../utils/index.js';
+import { relativeIndexPath, relativeConflictsDir, relativePlansDir, relativeRunsDir } from './file-layout.js';
 
 export class GitOps {
   private git!: SimpleGit;
@@ -17,6 +18,7 @@ export class GitOps {
     await fs.mkdir(this.storePath, { recursive: true });
     await fs.mkdir(path.join(this.storePath, 'contacts'), { recursive: true });
     await fs.mkdir(path.join(this.storePath, 'archive'), { recursive: true });
+    await fs.mkdir(path.join(this.storePath, 'groups'), { recursive: true });
     await fs.mkdir(path.join(this.storePath, '.metadata'), { recursive: true });
 
     this.git = simpleGit(this.storePath);
@@ -27,13 +29,33 @@ export class GitOps {
       await this.git.init();
       // Create initial commit so git log doesn't fail
       const gitignorePath = path.join(this.storePath, '.gitignore');
-      await fs.writeFile(gitignorePath, '.lock\n', 'utf-8');
+      await fs.writeFile(gitignorePath, `.lock\n${relativeIndexPath()}\n${relativeConflictsDir()}\n${relativePlansDir()}\n${relativeRunsDir()}\n`, 'utf-8');
       await this.git.add('.gitignore');
       await this.git.commit('Initial commit');
       logger.info('Initialized git repository at', this.storePath);
     }
   }
 
+  /** Append any missing patterns to .gitignore and commit the change. */
+  async ensureIgnored(patterns: string[]): Promise<void> {
+    const gitignorePath = path.join(this.storePath, '.gitignore');
+    let content = '';
+    try {
+      content = await fs.readFile(gitignorePath, 'utf-8');
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+
+    const existing = new Set(content.split(/\r?\n/).map(l => l.trim()));
+    const missing = patterns.filter(p => !existing.has(p));
+    if (missing.length === 0) return;
+
+    const prefix = content && !content.endsWith('\n') ? '\n' : '';
+    await fs.writeFile(gitignorePath, `${content}${prefix}${missing.join('\n')}\n`, 'utf-8');
+    await this.git.add('.gitignore');
+    await this.git.commit(`Update .gitignore: ignore ${missing.join(', ')}`);
+  }
+
   async add(filePath: string): Promise<void> {
     await this.git.add(filePath);
   }
@@ -100,8 +122,75 @@ export class GitOps {
     return result.trim();
   }
 
+  /** Commit hash a ref such as `origin/main` points at. */
+  async resolve(ref: string): Promise<string> {
+    return (await this.git.revparse([ref])).trim();
+  }
+
+  /** Files under `dir` added (A), modified (M) or deleted (D) between two commits; moves count as a delete and an add. */
+  async changedFiles(from: string, to: string, dir: string): Promise<{ status: string; path: string }[]> {
+    const output = await this.git.raw(['diff', '--name-status', '--no-renames', from, to, '--', dir]);
+    return output.split('\n').filter(Boolean).map(line => {
+      const [status, filePath] = line.split('\t');
+      return { status, path: filePath };
+    });
+  }
+
   /** Get diff between two refs. */
   async diff(refA: string, refB: string): Promise<string> {
     return this.git.diff([refA, refB]);
   }
+
+  // --- Remotes ---
+
+  /** Point `name` at `url`, adding the remote if it doesn't exist yet. */
+  async setRemote(name: string, url: string): Promise<void> {
+    const remotes = await this.git.getRemotes(true);
+    const existing = remotes.find(r => r.name === name);
+    if (!existing) {
+      await this.git.addRemote(name, url);
+    } else if (existing.refs.fetch !== url) {
+      await this.git.remote(['set-url', name, url]);
+    }
+  }
+
+  async currentBranch(): Promise<string> {
+    return (await this.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+  }
+
+  async setConfig(key: string, value: string): Promise<void> {
+    await this.git.addConfig(key, value);
+  }
+
+  /** Fetch `branch` from `remote`; false if the remote doesn't have it (yet). */
+  async fetch(remote: string, branch: string): Promise<boolean> {
+    const refs = await this.git.listRemote(['--heads', remote, branch]);
+    if (!refs.trim()) return false;
+    await this.git.fetch(remote, branch);
+    return true;
+  }
+
+  /** Push HEAD to `branch` on `remote`; only fast-forwards. */
+  async push(remote: string, branch: string): Promise<void> {
+    await this.git.push(remote, `HEAD:refs/heads/${branch}`);
+  }
+
+  /**
+   * Merge `ref` into HEAD, fast-forwarding when possible. On conflicts the
+   * merge is aborted and the conflicting files are returned. `env` is passed
+   * to merge drivers.
+   */
+  async merge(ref: string, message: string, env: Record<string, string> = {}): Promise<{ conflicts: string[] }> {
+    const git = simpleGit(this.storePath).env({ ...process.env, ...env });
+    try {
+      await git.raw(['merge', '--no-edit', '--allow-unrelated-histories', '-m', message, ref]);
+      return { conflicts: [] };
+    } catch (err) {
+      const unmerged = await this.git.raw(['diff', '--name-only', '--diff-filter=U']).catch(() => '');
+      const conflicts = unmerged.split('\n').filter(Boolean);
+      if (conflicts.length === 0) throw err;
+      await this.git.raw(['merge', '--abort']);
+      return { conflicts };
+    }
+  }
 }
@@ -1,52 +1,75 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import type { Contact, ContactSummary, HistoryEntry, CommitInfo } from '../types/index.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Contact, ContactSummary, ContactGroup, HistoryEntry, CommitInfo, SyncState } from '../types/index.js';
 import { toSummary } from '../types/index.js';
-import { contactToVCard, vcardToContact } from '../contacts/vcard.js';
+import { contactToVCard, vcardToContact, groupToVCard, vcardToGroup } from '../contacts/vcard.js';
 import { normalizeContact } from '../contacts/normalize.js';
 import { createContact } from '../contacts/model.js';
-import { generateId, ContactNotFoundError, StoreError, logger } from '../utils/index.js';
+import { searchContacts } from '../contacts/search.js';
+import {
+  contactRef, parseContactRef, inverseRelationType, retargetRelations, detachRelations,
+} from '../contacts/relations.js';
+import { generateId, ContactNotFoundError, GroupNotFoundError, StoreError, logger } from '../utils/index.js';
 import { GitOps } from './git-ops.js';
+import { ContactIndex } from './contact-index.js';
 import {
-  contactPath, archivePath, relativeContactPath, relativeArchivePath,
-  extractIdFromPath, CONTACTS_DIR, ARCHIVE_DIR,
+  contactPath, archivePath, groupPath, relativeContactPath, relativeArchivePath, relativeGroupPath,
+  relativeIndexPath, relativeConflictsDir, relativePlansDir, relativeRunsDir, relativeSyncStatePath, syncStatePath, GROUPS_DIR,
 } from './file-layout.js';
 
+/** A lock file older than this is assumed left behind by a crashed process. */
+const STALE_LOCK_MS = 30_000;
+/** How long an operation waits for another to release the lock before giving up. */
+const LOCK_WAIT_MS = 60_000;
+const LOCK_POLL_MS = 100;
+
 export class GitContactStore {
   private git: GitOps;
+  private index: ContactIndex;
   private storePath: string;
   private lockFile: string;
+  /** Set inside withLock, so nested store calls (e.g. from within exclusive()) don't wait for themselves */
+  private lockHolder = new AsyncLocalStorage<boolean>();
 
   constructor(storePath: string) {
     this.storePath = storePath;
     this.git = new GitOps(storePath);
+    this.index = new ContactIndex(storePath, this.git);
     this.lockFile = path.join(storePath, '.lock');
   }
 
   async init(): Promise<void> {
     await this.git.init();
+    await this.git.ensureIgnored([relativeIndexPath(), relativeConflictsDir(), relativePlansDir(), relativeRunsDir()]);
   }
 
   // --- Locking ---
 
   private async acquireLock(): Promise<void> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    while (!await this.tryLock()) {
+      if (Date.now() >= deadline) throw new StoreError('Store is locked by another operation');
+      await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+    }
+  }
+
+  private async tryLock(): Promise<boolean> {
     try {
       await fs.writeFile(this.lockFile, process.pid.toString(), { flag: 'wx' });
+      return true;
     } catch (err: any) {
-      if (err.code === 'EEXIST') {
-        // Check if lock is stale (> 30 seconds old)
-        try {
-          const stat = await fs.stat(this.lockFile);
-          if (Date.now() - stat.mtimeMs > 30000) {
-            await fs.unlink(this.lockFile);
-            await fs.writeFile(this.lockFile, process.pid.toString(), { flag: 'wx' });
-            return;
-          }
-        } catch { /* ignore */ }
-        throw new StoreError('Store is locked by another operation');
-      }
-      throw err;
+      if (err.code !== 'EEXIST') throw err;
     }
+    try {
+      const stat = await fs.stat(this.lockFile);
+      if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+        await fs.unlink(this.lockFile);
+        await fs.writeFile(this.lockFile, process.pid.toString(), { flag: 'wx' });
+        return true;
+      }
+    } catch { /* released or taken meanwhile */ }
+    return false;
   }
 
   private async releaseLock(): Promise<void> {
@@ -54,14 +77,31 @@ export class GitContactStore {
   }
 
   private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.lockHolder.getStore()) return fn();
+
     await this.acquireLock();
+    // Keep a long holder (see exclusive) from looking stale
+    const refresh = setInterval(() => {
+      const now = new Date();
+      fs.utimes(this.lockFile, now, now).catch(() => {});
+    }, STALE_LOCK_MS / 3);
+    refresh.unref();
     try {
-      return await fn();
+      return await this.lockHolder.run(true, fn);
     } finally {
+      clearInterval(refresh);
       await this.releaseLock();
     }
   }
 
+  /**
+   * Run `fn` holding the store lock throughout, e.g. a whole background sync.
+   * Store calls made by `fn` go ahead; everyone else waits until it's done.
+   */
+  async exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    return this.withLock(fn);
+  }
+
   // --- CRUD ---
 
   async create(fields: Partial<Contact> & { fullName: string }): Promise<Contact> {
@@ -71,12 +111,14 @@ export class GitContactStore {
         id: fields.id ?? generateId(),
       }));
 
+      const previousHead = await this.git.head();
       const vcard = contactToVCard(contact);
       const filePath = contactPath(this.storePath, contact.id);
       await fs.writeFile(filePath, vcard, 'utf-8');
 
       await this.git.add(relativeContactPath(contact.id));
       await this.git.commit(`Create contact: ${contact.fullName} (${contact.id})`);
+      await this.index.apply(previousHead, await this.git.head(), { upsert: [vcardToContact(vcard)] });
 
       logger.info('Created contact:', contact.id, contact.fullName);
       return contact;
@@ -98,6 +140,7 @@ export class GitContactStore {
 
   async update(id: string, updates: Partial<Omit<Contact, 'id' | 'metadata'>>): Promise<Contact> {
     return this.withLock(async () => {
+      const previousHead = await this.git.head();
       const existing = await this.get(id);
       const changedFields: string[] = [];
 
@@ -110,6 +153,10 @@ export class GitContactStore {
         existing.name = { ...existing.name, ...updates.name };
         if (!changedFields.includes('name')) changedFields.push('name');
       }
+      if (updates.nickname !== undefined) {
+        existing.nickname = updates.nickname;
+        changedFields.push('nickname');
+      }
       if (updates.emails !== undefined) {
         existing.emails = updates.emails;
         changedFields.push('emails');
@@ -138,6 +185,26 @@ export class GitContactStore {
         existing.urls = updates.urls;
         changedFields.push('urls');
       }
+      if (updates.ims !== undefined) {
+        existing.ims = updates.ims;
+        changedFields.push('ims');
+      }
+      if (updates.socialProfiles !== undefined) {
+        existing.socialProfiles = updates.socialProfiles;
+        changedFields.push('socialProfiles');
+      }
+      if (updates.related !== undefined) {
+        existing.related = updates.related;
+        changedFields.push('related');
+      }
+      if (updates.gender !== undefined) {
+        existing.gender = updates.gender;
+        changedFields.push('gender');
+      }
+      if (updates.languages !== undefined) {
+        existing.languages = updates.languages;
+        changedFields.push('languages');
+      }
       if (updates.notes !== undefined) {
         existing.notes = updates.notes;
         changedFields.push('notes');
@@ -150,6 +217,10 @@ export class GitContactStore {
         existing.photo = updates.photo;
         changedFields.push('photo');
       }
+      if (updates.extraProperties !== undefined) {
+        existing.extraProperties = updates.extraProperties;
+        changedFields.push('extraProperties');
+      }
 
       existing.metadata.modified = new Date().toISOString();
       const normalized = normalizeContact(existing);
@@ -160,6 +231,7 @@ export class GitContactStore {
       await this.git.add(relativeContactPath(id));
       const fieldList = changedFields.length > 0 ? changedFields.join(', ') : 'metadata';
       await this.git.commit(`Update contact: ${normalized.fullName} - changed ${fieldList}`);
+      await this.index.apply(previousHead, await this.git.head(), { upsert: [vcardToContact(vcard)] });
 
       logger.info('Updated contact:', id, 'fields:', fieldList);
       return normalized;
@@ -168,8 +240,16 @@ export class GitContactStore {
 
   async delete(id: string, permanent: boolean = false): Promise<void> {
     return this.withLock(async () => {
+      const previousHead = await this.git.head();
       const contact = await this.get(id);
 
+      // Links to this contact become plain-text names, and it leaves its groups, in the same commit
+      const referrers = await this.rewriteContacts(c => detachRelations(c, contact), new Set([id]));
+      const groupPaths = await this.rewriteGroups(g => removeMembers(g, new Set([id])));
+      if (referrers.paths.length + groupPaths.length > 0) {
+        await this.git.addMultiple([...referrers.paths, ...groupPaths]);
+      }
+
       if (permanent) {
         // Hard delete - remove file entirely
         try {
@@ -178,50 +258,257 @@ export class GitContactStore {
           await this.git.remove(relativeArchivePath(id));
         }
         await this.git.commit(`Delete contact permanently: ${contact.fullName} (${id})`);
+        await this.index.apply(previousHead, await this.git.head(), { upsert: referrers.contacts, remove: [id] });
       } else {
         // Soft delete - move to archive
         await this.git.move(relativeContactPath(id), relativeArchivePath(id));
         await this.git.commit(`Archive contact: ${contact.fullName} (${id})`);
+        await this.index.apply(previousHead, await this.git.head(), { upsert: referrers.contacts, archive: [id] });
       }
 
       logger.info(permanent ? 'Deleted' : 'Archived', 'contact:', id, contact.fullName);
     });
   }
 
-  async list(includeArchived: boolean = false): Promise<Contact[]> {
-    const contacts: Contact[] = [];
+  /** Record the ID a provider assigned to a contact when it was pushed there. */
+  async setProviderId(id: string, provider: string, remoteId: string): Promise<Contact> {
+    return this.withLock(async () => {
+      const previousHead = await this.git.head();
+      const contact = await this.get(id);
+      if (contact.metadata.providerIds[provider] === remoteId) return contact;
+
+      contact.metadata.providerIds[provider] = remoteId;
+      const written = await this.writeExisting(contact);
+      await this.git.add(written.path);
+      await this.git.commit(`Update contact: ${contact.fullName} - linked to ${provider}`);
+      await this.index.apply(previousHead, await this.git.head(), { upsert: [written.contact] });
+      return written.contact;
+    });
+  }
 
-    // Read active contacts
-    const contactsDir = path.join(this.storePath, CONTACTS_DIR);
-    try {
-      const files = await fs.readdir(contactsDir);
-      for (const file of files) {
-        if (!file.endsWith('.vcf')) continue;
-        const vcard = await fs.readFile(path.join(contactsDir, file), 'utf-8');
-        contacts.push(vcardToContact(vcard));
+  /** Forget a contact's ID at a provider, so the next sync treats it as never synced there. */
+  async removeProviderId(id: string, provider: string): Promise<Contact> {
+    return this.withLock(async () => {
+      const previousHead = await this.git.head();
+      const contact = await this.get(id);
+      if (!(provider in contact.metadata.providerIds)) return contact;
+
+      delete contact.metadata.providerIds[provider];
+      const written = await this.writeExisting(contact);
+      await this.git.add(written.path);
+      await this.git.commit(`Update contact: ${contact.fullName} - unlinked from ${provider}`);
+      await this.index.apply(previousHead, await this.git.head(), { upsert: [written.contact] });
+      return written.contact;
+    });
+  }
+
+  // --- Relationships ---
+
+  /** Record that `toId` is `fromId`'s `type` (e.g. manager), as a RELATED link on `fromId`. */
+  async link(fromId: string, toId: string, type?: string): Promise<Contact> {
+    return this.withLock(async () => {
+      if (fromId === toId) throw new StoreError('Cannot link a contact to itself');
+      const previousHead = await this.git.head();
+      const from = await this.get(fromId);
+      const to = await this.get(toId);
+
+      const ref = contactRef(toId);
+      const existing = from.related.find(r => r.value === ref && r.type?.toLowerCase() === type?.toLowerCase());
+      if (existing) return from;
+
+      from.related.push({ value: ref, type });
+      const written = await this.writeExisting(from);
+      await this.git.add(written.path);
+      await this.git.commit(`Link contacts: ${from.fullName} (${fromId}) -> ${to.fullName} as ${type ?? 'related'}`);
+      await this.index.apply(previousHead, await this.git.head(), { upsert: [written.contact] });
+
+      logger.info('Linked contacts:', fromId, '->', toId, type ?? '');
+      return written.contact;
+    });
+  }
+
+  /**
+   * Remove links between two contacts, whichever side they're stored on.
+   * With a type, only that relationship (as seen from `fromId`) is removed.
+   */
+  async unlink(fromId: string, toId: string, type?: string): Promise<number> {
+    return this.withLock(async () => {
+      const previousHead = await this.git.head();
+      const from = await this.get(fromId);
+      const to = await this.get(toId);
+
+      const written: { path: string; contact: Contact }[] = [];
+      let removed = 0;
+      for (const [owner, targetId, wanted] of [
+        [from, toId, type],
+        [to, fromId, inverseRelationType(type)],
+      ] as const) {
+        const before = owner.related.length;
+        owner.related = owner.related.filter(r =>
+          parseContactRef(r.value) !== targetId || (!!wanted && r.type?.toLowerCase() !== wanted.toLowerCase()));
+        if (owner.related.length === before) continue;
+        removed += before - owner.related.length;
+        written.push(await this.writeExisting(owner));
+      }
+
+      if (removed === 0) {
+        throw new StoreError(`No ${type ? `${type} ` : ''}relationship between ${fromId} and ${toId}`);
       }
+
+      await this.git.addMultiple(written.map(w => w.path));
+      await this.git.commit(`Unlink contacts: ${from.fullName} (${fromId}) -x- ${to.fullName}${type ? ` as ${type}` : ''}`);
+      await this.index.apply(previousHead, await this.git.head(), { upsert: written.map(w => w.contact) });
+
+      logger.info('Unlinked contacts:', fromId, toId, 'removed', removed);
+      return removed;
+    });
+  }
+
+  // --- Groups ---
+
+  async listGroups(): Promise<ContactGroup[]> {
+    const dir = path.join(this.storePath, GROUPS_DIR);
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
     } catch (err: any) {
-      if (err.code !== 'ENOENT') throw err;
+      if (err.code === 'ENOENT') return [];
+      throw err;
     }
 
-    // Optionally include archived
-    if (includeArchived) {
-      const archiveDir = path.join(this.storePath, ARCHIVE_DIR);
-      try {
-        const files = await fs.readdir(archiveDir);
-        for (const file of files) {
-          if (!file.endsWith('.vcf')) continue;
-          const vcard = await fs.readFile(path.join(archiveDir, file), 'utf-8');
-          const contact = vcardToContact(vcard);
-          contact.metadata.archived = true;
-          contacts.push(contact);
-        }
-      } catch (err: any) {
-        if (err.code !== 'ENOENT') throw err;
-      }
+    const groups: ContactGroup[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.vcf')) continue;
+      groups.push(vcardToGroup(await fs.readFile(path.join(dir, file), 'utf-8')));
     }
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+  }
 
-    return contacts;
+  async getGroup(id: string): Promise<ContactGroup> {
+    try {
+      return vcardToGroup(await fs.readFile(groupPath(this.storePath, id), 'utf-8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') throw new GroupNotFoundError(id);
+      throw err;
+    }
+  }
+
+  async createGroup(fields: {
+    name: string;
+    description?: string;
+    memberIds?: string[];
+    id?: string;
+    metadata?: ContactGroup['metadata'];
+  }): Promise<ContactGroup> {
+    return this.withLock(async () => {
+      const memberIds = [...new Set(fields.memberIds ?? [])];
+      await this.assertContactsExist(memberIds);
+
+      const now = new Date().toISOString();
+      const group: ContactGroup = {
+        id: fields.id ?? generateId(),
+        name: fields.name,
+        description: fields.description,
+        memberIds,
+        metadata: fields.metadata ?? { created: now, modified: now, providerIds: {} },
+      };
+
+      await this.writeGroup(group);
+      await this.git.add(relativeGroupPath(group.id));
+      await this.commitWithoutContacts(`Create group: ${group.name} (${group.id})`);
+
+      logger.info('Created group:', group.id, group.name);
+      return group;
+    });
+  }
+
+  /** Rename, describe, or replace the membership of a group. */
+  async updateGroup(
+    id: string,
+    updates: { name?: string; description?: string; memberIds?: string[]; providerIds?: Record<string, string> },
+  ): Promise<ContactGroup> {
+    return this.withLock(async () => {
+      const group = await this.getGroup(id);
+      const changedFields: string[] = [];
+
+      if (updates.name !== undefined && updates.name !== group.name) {
+        group.name = updates.name;
+        changedFields.push('name');
+      }
+      if (updates.description !== undefined && (updates.description || undefined) !== group.description) {
+        group.description = updates.description || undefined;
+        changedFields.push('description');
+      }
+      if (updates.memberIds !== undefined) {
+        const memberIds = [...new Set(updates.memberIds)];
+        await this.assertContactsExist(memberIds.filter(m => !group.memberIds.includes(m)));
+        group.memberIds = memberIds;
+        changedFields.push('members');
+      }
+      if (updates.providerIds !== undefined) {
+        group.metadata.providerIds = { ...group.metadata.providerIds, ...updates.providerIds };
+      }
+
+      await this.writeGroup(group);
+      await this.git.add(relativeGroupPath(id));
+      const fieldList = changedFields.length > 0 ? changedFields.join(', ') : 'metadata';
+      await this.commitWithoutContacts(`Update group: ${group.name} - changed ${fieldList}`);
+
+      logger.info('Updated group:', id, 'fields:', fieldList);
+      return group;
+    });
+  }
+
+  async addGroupMembers(id: string, contactIds: string[]): Promise<ContactGroup> {
+    return this.withLock(async () => {
+      const group = await this.getGroup(id);
+      const added = [...new Set(contactIds)].filter(c => !group.memberIds.includes(c));
+      if (added.length === 0) return group;
+      await this.assertContactsExist(added);
+
+      group.memberIds.push(...added);
+      await this.writeGroup(group);
+      await this.git.add(relativeGroupPath(id));
+      await this.commitWithoutContacts(`Add ${added.length} member(s) to group: ${group.name} (${id})`);
+
+      logger.info('Added', added.length, 'members to group:', id);
+      return group;
+    });
+  }
+
+  async removeGroupMembers(id: string, contactIds: string[]): Promise<ContactGroup> {
+    return this.withLock(async () => {
+      const group = await this.getGroup(id);
+      const before = group.memberIds.length;
+      if (!removeMembers(group, new Set(contactIds))) return group;
+
+      await this.writeGroup(group);
+      await this.git.add(relativeGroupPath(id));
+      await this.commitWithoutContacts(`Remove ${before - group.memberIds.length} member(s) from group: ${group.name} (${id})`);
+
+      logger.info('Removed', before - group.memberIds.length, 'members from group:', id);
+      return group;
+    });
+  }
+
+  /** Delete a group. Its members are untouched; the group can be brought back via rollback. */
+  async deleteGroup(id: string): Promise<void> {
+    return this.withLock(async () => {
+      const group = await this.getGroup(id);
+      await this.git.remove(relativeGroupPath(id));
+      await this.commitWithoutContacts(`Delete group: ${group.name} (${id})`);
+      logger.info('Deleted group:', id, group.name);
+    });
+  }
+
+  async list(includeArchived: boolean = false): Promise<Contact[]> {
+    return this.index.list(includeArchived);
+  }
+
+  /** Fuzzy search over the indexed contacts. */
+  async search(query: string, limit: number = 20, includeArchived: boolean = false): Promise<ContactSummary[]> {
+    const { contacts, fuse } = await this.index.searcher(includeArchived);
+    return searchContacts(contacts, query, limit, fuse);
   }
 
   async listSummaries(includeArchived: boolean = false): Promise<ContactSummary[]> {
@@ -235,9 +522,11 @@ export class GitContactStore {
     return this.withLock(async () => {
       const timestamp = Date.now();
       await this.git.tag(`pre-import-${timestamp}`);
+      const previousHead = await this.git.head();
 
       const ids: string[] = [];
       const paths: string[] = [];
+      const written: Contact[] = [];
 
       for (const fields of contacts) {
         const contact = normalizeContact(createContact({
@@ -256,10 +545,12 @@ export class GitContactStore {
         await fs.writeFile(contactPath(this.storePath, contact.id), vcard, 'utf-8');
         paths.push(relativeContactPath(contact.id));
         ids.push(contact.id);
+        written.push(vcardToContact(vcard));
       }
 
       await this.git.addMultiple(paths);
       await this.git.commit(`Import ${contacts.length} contacts${source ? ` from ${source}` : ''}`);
+      await this.index.apply(previousHead, await this.git.head(), { upsert: written });
       await this.git.tag(`post-import-${timestamp}`);
 
       logger.info('Bulk created', contacts.length, 'contacts');
@@ -387,11 +678,24 @@ export class GitContactStore {
     mergedContact: Contact,
   ): Promise<string> {
     return this.withLock(async () => {
+      const previousHead = await this.git.head();
+
+      // Links to the secondaries now point at the primary
+      const movedIds = new Set(secondaryIds);
+      retargetRelations(mergedContact, new Set([primaryId, ...secondaryIds]), primaryId);
+      const referrers = await this.rewriteContacts(
+        c => retargetRelations(c, movedIds, primaryId),
+        new Set([primaryId, ...secondaryIds]),
+      );
+
       // Write merged contact
       const vcard = contactToVCard(mergedContact);
       await fs.writeFile(contactPath(this.storePath, primaryId), vcard, 'utf-8');
 
-      const paths = [relativeContactPath(primaryId)];
+      const groupPaths = await this.rewriteGroups(g => retargetMembers(g, movedIds, primaryId));
+
+      const paths = [relativeContactPath(primaryId), ...referrers.paths, ...groupPaths];
+      const archived: string[] = [];
 
       // Archive secondary contacts
       for (const secId of secondaryIds) {
@@ -402,6 +706,7 @@ export class GitContactStore {
           );
           paths.push(relativeContactPath(secId));
           paths.push(relativeArchivePath(secId));
+          archived.push(secId);
         } catch (err: any) {
           if (err.code !== 'ENOENT') throw err;
         }
@@ -410,6 +715,10 @@ export class GitContactStore {
       await this.git.addMultiple(paths);
       const names = [mergedContact.fullName, ...secondaryIds].join(' + ');
       const hash = await this.git.commit(`Merge contacts: ${names} -> ${mergedContact.fullName}`);
+      await this.index.apply(previousHead, await this.git.head(), {
+        upsert: [vcardToContact(vcard), ...referrers.contacts],
+        archive: archived,
+      });
 
       // Update merge log
       await this.updateMergeLog(primaryId, secondaryIds);
@@ -419,6 +728,65 @@ export class GitContactStore {
     });
   }
 
+  /** Commit staged changes that don't touch contacts, keeping the index on the new HEAD. */
+  private async commitWithoutContacts(message: string): Promise<void> {
+    const previousHead = await this.git.head();
+    await this.git.commit(message);
+    await this.index.apply(previousHead, await this.git.head(), {});
+  }
+
+  private async writeGroup(group: ContactGroup): Promise<void> {
+    group.metadata.modified = new Date().toISOString();
+    await fs.mkdir(path.join(this.storePath, GROUPS_DIR), { recursive: true });
+    await fs.writeFile(groupPath(this.storePath, group.id), groupToVCard(group), 'utf-8');
+  }
+
+  /** Apply `transform` to every group and write back the ones it changed; returns paths to stage. */
+  private async rewriteGroups(transform: (group: ContactGroup) => boolean): Promise<string[]> {
+    const paths: string[] = [];
+    for (const group of await this.listGroups()) {
+      if (!transform(group)) continue;
+      await this.writeGroup(group);
+      paths.push(relativeGroupPath(group.id));
+    }
+    return paths;
+  }
+
+  private async assertContactsExist(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const known = new Set((await this.index.list(false)).map(c => c.id));
+    const missing = ids.find(id => !known.has(id));
+    if (missing) throw new ContactNotFoundError(missing);
+  }
+
+  /** Write an existing contact back to contacts/ or archive/, bumping its modified time. */
+  private async writeExisting(contact: Contact): Promise<{ path: string; contact: Contact }> {
+    contact.metadata.modified = new Date().toISOString();
+    const vcard = contactToVCard(contact);
+    const relPath = contact.metadata.archived ? relativeArchivePath(contact.id) : relativeContactPath(contact.id);
+    await fs.writeFile(path.join(this.storePath, relPath), vcard, 'utf-8');
+    return { path: relPath, contact: vcardToContact(vcard) };
+  }
+
+  /**
+   * Apply `transform` to every stored contact not in `skip` and write back the
+   * ones it changed. The caller holds the lock and stages `paths` in its commit.
+   */
+  private async rewriteContacts(
+    transform: (contact: Contact) => boolean,
+    skip: Set<string>,
+  ): Promise<{ paths: string[]; contacts: Contact[] }> {
+    const paths: string[] = [];
+    const contacts: Contact[] = [];
+    for (const contact of await this.index.list(true)) {
+      if (skip.has(contact.id) || !transform(contact)) continue;
+      const written = await this.writeExisting(contact);
+      paths.push(written.path);
+      contacts.push(written.contact);
+    }
+    return { paths, contacts };
+  }
+
   private async updateMergeLog(primaryId: string, secondaryIds: string[]): Promise<void> {
     const logPath = path.join(this.storePath, '.metadata', 'merge-log.json');
     let log: any[] = [];
@@ -436,13 +804,65 @@ export class GitContactStore {
     await fs.writeFile(logPath, JSON.stringify(log, null, 2), 'utf-8');
   }
 
+  // --- Sync state ---
+
+  /** The contact as it was at `commitHash`, or null if it didn't exist there. */
+  async getAtCommit(id: string, commitHash: string): Promise<Contact | null> {
+    for (const filePath of [relativeContactPath(id), relativeArchivePath(id)]) {
+      try {
+        return vcardToContact(await this.git.showFileAtCommit(commitHash, filePath));
+      } catch { /* not at this path in that commit */ }
+    }
+    return null;
+  }
+
+  async readSyncState(provider: string): Promise<SyncState> {
+    let saved: Partial<SyncState> = {};
+    try {
+      saved = JSON.parse(await fs.readFile(syncStatePath(this.storePath, provider), 'utf-8'));
+    } catch { /* never synced */ }
+    return { ...saved, etags: saved.etags ?? {}, bases: saved.bases ?? {} };
+  }
+
+  /** Write and commit a provider's sync state; a no-op if it hasn't changed. */
+  async writeSyncState(provider: string, state: SyncState): Promise<void> {
+    return this.withLock(async () => {
+      const filePath = syncStatePath(this.storePath, provider);
+      const content = `${JSON.stringify(state, null, 2)}\n`;
+      const existing = await fs.readFile(filePath, 'utf-8').catch(() => null);
+      if (existing === content) return;
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content, 'utf-8');
+      await this.git.add(relativeSyncStatePath(provider));
+      await this.commitWithoutContacts(`Sync state: ${provider}`);
+    });
+  }
+
   get gitOps(): GitOps {
     return this.git;
   }
+
+  /** Root directory of the store. */
+  get path(): string {
+    return this.storePath;
+  }
 }
 
 // --- Helpers ---
 
+function removeMembers(group: ContactGroup, ids: Set<string>): boolean {
+  const before = group.memberIds.length;
+  group.memberIds = group.memberIds.filter(m => !ids.has(m));
+  return group.memberIds.length !== before;
+}
+
+function retargetMembers(group: ContactGroup, fromIds: Set<string>, toId: string): boolean {
+  if (!group.memberIds.some(m => fromIds.has(m))) return false;
+  group.memberIds = [...new Set(group.memberIds.map(m => (fromIds.has(m) ? toId : m)))];
+  return true;
+}
+
 function parseOperation(message: string): HistoryEntry['operation'] {
   const lower = message.toLowerCase();
   if (lower.startsWith('create')) return 'create';
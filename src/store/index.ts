@@ -1,3 +1,4 @@
 export { GitContactStore } from './git-store.js';
 export { GitOps } from './git-ops.js';
 export * from './file-layout.js';
+export { ContactIndex, type IndexChanges } from './contact-index.js';
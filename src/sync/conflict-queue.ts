@@ -0,0 +1,85 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Contact } from '../types/index.js';
+import { conflictPath, METADATA_DIR, CONFLICTS_DIR } from '../store/file-layout.js';
+import { StoreError } from '../utils/index.js';
+import type { FieldDiff } from './diff.js';
+import type { FieldConflict } from './three-way.js';
+
+/** A sync conflict left for the user to settle with resolve_conflict. */
+export interface QueuedConflict {
+  /** `<provider>-<contact id>`; a newer conflict for the same pair replaces the older one */
+  id: string;
+  /** Provider name, or the git remote for a conflict from pull_store */
+  provider: string;
+  /** 'pull' for conflicts merging another copy of the store; default 'sync' */
+  source?: 'sync' | 'pull';
+  contactId: string;
+  remoteId: string;
+  detectedAt: string;
+  /** Last synced version, when one was recorded */
+  base?: Contact;
+  local: Contact;
+  remote: Contact;
+  /** diffContacts(local, remote) */
+  diffs: FieldDiff[];
+  /** Local contact with every non-conflicting change from both sides applied */
+  merged: Contact;
+  /** Fields that need a pick; without a base, every differing field */
+  conflicts: FieldConflict[];
+}
+
+/** Unresolved sync conflicts, one JSON file each in .metadata/conflicts/. */
+export class ConflictQueue {
+  private storePath: string;
+  private dir: string;
+
+  constructor(storePath: string) {
+    this.storePath = storePath;
+    this.dir = path.join(storePath, METADATA_DIR, CONFLICTS_DIR);
+  }
+
+  static idFor(provider: string, contactId: string): string {
+    return `${provider}-${contactId}`;
+  }
+
+  async list(): Promise<QueuedConflict[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+
+    const conflicts: QueuedConflict[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      conflicts.push(JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf-8')));
+    }
+    return conflicts.sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+  }
+
+  async get(id: string): Promise<QueuedConflict> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf-8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') throw new StoreError(`Conflict not found: ${id}`);
+      throw err;
+    }
+  }
+
+  async add(conflict: QueuedConflict): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.filePath(conflict.id), JSON.stringify(conflict, null, 2), 'utf-8');
+  }
+
+  async remove(id: string): Promise<void> {
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  private filePath(id: string): string {
+    if (id.includes('/') || id.includes('\\')) throw new StoreError(`Invalid conflict id: ${id}`);
+    return conflictPath(this.storePath, id);
+  }
+}
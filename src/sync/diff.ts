@@ -1,7 +1,10 @@
 import type { Contact } from '../types/index.js';
 
+/** A contact field sync compares: everything but the ID and metadata. */
+export type ContactField = Exclude<keyof Contact, 'id' | 'metadata'>;
+
 export interface FieldDiff {
-  field: string;
+  field: ContactField;
   localValue: unknown;
   remoteValue: unknown;
 }
@@ -20,6 +23,10 @@ export function diffContacts(local: Contact, remote: Contact): FieldDiff[] {
     diffs.push({ field: 'name', localValue: local.name, remoteValue: remote.name });
   }
 
+  if (local.nickname !== remote.nickname) {
+    diffs.push({ field: 'nickname', localValue: local.nickname, remoteValue: remote.nickname });
+  }
+
   if (JSON.stringify(local.emails) !== JSON.stringify(remote.emails)) {
     diffs.push({ field: 'emails', localValue: local.emails, remoteValue: remote.emails });
   }
@@ -40,6 +47,16 @@ export function diffContacts(local: Contact, remote: Contact): FieldDiff[] {
     diffs.push({ field: 'birthday', localValue: local.birthday, remoteValue: remote.birthday });
   }
 
+  if (local.anniversary !== remote.anniversary) {
+    diffs.push({ field: 'anniversary', localValue: local.anniversary, remoteValue: remote.anniversary });
+  }
+
+  for (const field of ['urls', 'ims', 'socialProfiles', 'related', 'gender', 'languages'] as const) {
+    if (JSON.stringify(local[field]) !== JSON.stringify(remote[field])) {
+      diffs.push({ field, localValue: local[field], remoteValue: remote[field] });
+    }
+  }
+
   if (local.notes !== remote.notes) {
     diffs.push({ field: 'notes', localValue: local.notes, remoteValue: remote.notes });
   }
@@ -48,6 +65,10 @@ export function diffContacts(local: Contact, remote: Contact): FieldDiff[] {
     diffs.push({ field: 'categories', localValue: local.categories, remoteValue: remote.categories });
   }
 
+  if (JSON.stringify(local.extraProperties) !== JSON.stringify(remote.extraProperties)) {
+    diffs.push({ field: 'extraProperties', localValue: local.extraProperties, remoteValue: remote.extraProperties });
+  }
+
   return diffs;
 }
 
@@ -1,49 +1,227 @@
-import type { Contact, ContactProvider, SyncResult } from '../types/index.js';
+import type {
+  Contact, ContactGroup, ContactProvider, RemoteGroup, RemoteRevision, SyncFilter, SyncResult, SyncState,
+} from '../types/index.js';
+import { toSummary } from '../types/index.js';
 import type { GitContactStore } from '../store/index.js';
 import { diffContacts, hasChanges } from './diff.js';
 import { resolveConflict, type ConflictStrategy } from './conflict.js';
+import {
+  mergeThreeWay, resolveFieldConflicts, differingFields, type FieldConflict, type MergeSide,
+} from './three-way.js';
+import { ConflictQueue } from './conflict-queue.js';
+import { IdentityMatcher, type IdentityMatch } from './identity.js';
+import { compileSyncFilter, filtersByGroup } from './filter.js';
+import { PlanStore, fieldChanges, sameChanges, type PlannedChange, type SyncPlan } from './plan.js';
+import { createContact } from '../contacts/model.js';
+import { relationsAsNames, relationsFromNames } from '../contacts/relations.js';
 import { normalizeContact } from '../contacts/normalize.js';
-import { logger } from '../utils/index.js';
+import { contactToVCard, vcardToContact } from '../contacts/vcard.js';
+import { generateId, logger, PreconditionFailedError, StoreError, SyncError } from '../utils/index.js';
 
 export interface SyncOptions {
   direction: 'pull' | 'push' | 'both';
   conflictStrategy: ConflictStrategy;
   dryRun: boolean;
+  /**
+   * Abort before changing anything if deletions (either direction) would exceed
+   * this percentage of the contacts synced with the provider. Default 20.
+   */
+  deleteThreshold?: number;
+  /** Remote ID -> local contact ID pairs to link on this sync, settling identity reviews */
+  links?: Record<string, string>;
+  /** Create contacts held for identity review on the other side anyway */
+  createUnmatched?: boolean;
+  /** Only sync contacts matching this filter, from the provider's config */
+  filter?: SyncFilter;
+}
+
+export const DEFAULT_DELETE_THRESHOLD = 20;
+
+/** How many times an update is refetched, re-merged and retried after the remote changed underneath it. */
+const MAX_PRECONDITION_RETRIES = 3;
+
+/** Per-run bookkeeping shared by the pull and push phases. */
+interface SyncRun {
+  state: SyncState;
+  /** Contacts whose local and remote copies match once this run completes */
+  agreed: Set<string>;
+  /** Contacts the pull merged local changes into that the remote doesn't have yet */
+  needsPush: Set<string>;
+  /** Contacts queued as conflicts; pushing them would overwrite the remote version */
+  conflicted: Set<string>;
+  /** Remote contacts the pull left unlinked (held for review); null until something fetches them */
+  unlinkedRemotes: Contact[] | null;
+  /** Matches new local contacts against unlinked remotes during push, built on first use */
+  remoteMatcher?: IdentityMatcher;
+  /** Remote copies the pull fetched, by local contact ID */
+  fetched: Map<string, Contact>;
+  /** What the run does to each contact; only collected on dry runs, for plans */
+  changes: PlannedChange[] | null;
+  /** Which copies match SyncOptions.filter */
+  selection: ContactSelection;
+  /** Linked contacts this run unlinks because a copy stopped matching the filter */
+  unlinking: Set<string>;
+  /** Contacts unlinked by the filter whose remote copy the pull fetched and checked for relinking */
+  relinkChecked: Set<string>;
+  /** Contact ID -> name, for providers that store related people as names; null for others */
+  names: Map<string, string> | null;
+  /** The provider's groups, fetched on first use so the run asks for them at most once */
+  remoteGroups: () => Promise<RemoteGroup[]>;
+}
+
+interface ContactSelection {
+  local(contact: Contact): boolean;
+  /** `localId` is the contact a remote copy is linked to, if any */
+  remote(contact: Contact, localId?: string): boolean;
+}
+
+interface RemoteFetch {
+  contacts: Contact[];
+  /** Remote IDs reported deleted by a delta fetch; null after a full fetch */
+  deletedIds: Set<string> | null;
 }
 
 export class SyncEngine {
   private store: GitContactStore;
+  private queue: ConflictQueue;
+  private plans: PlanStore;
 
   constructor(store: GitContactStore) {
     this.store = store;
+    this.queue = new ConflictQueue(store.path);
+    this.plans = new PlanStore(store.path);
   }
 
+  /**
+   * Runs hold the store lock from start to finish, so a sync started from a
+   * tool and a scheduled one can't both read the sync state and overwrite
+   * each other's.
+   */
   async sync(provider: ContactProvider, options: SyncOptions): Promise<SyncResult> {
+    return this.store.exclusive(async () => (await this.execute(provider, options)).result);
+  }
+
+  /**
+   * Dry-run a sync and save what it would do to each contact, with field
+   * diffs, as a plan applyPlan can run later.
+   */
+  async plan(provider: ContactProvider, options: Omit<SyncOptions, 'dryRun'>): Promise<SyncPlan> {
+    return this.store.exclusive(async () => {
+      const { result, changes } = await this.execute(provider, { ...options, dryRun: true });
+      const plan: SyncPlan = {
+        id: generateId(),
+        provider: provider.name,
+        createdAt: new Date().toISOString(),
+        options,
+        changes: changes ?? [],
+        result,
+      };
+      await this.plans.save(plan);
+      return plan;
+    });
+  }
+
+  /**
+   * Run a saved plan. The sync is dry-run again first and refused if it
+   * wouldn't make exactly the planned changes, because the store or the
+   * provider changed since the plan was made.
+   */
+  async applyPlan(provider: ContactProvider, planId: string): Promise<SyncResult> {
+    const plan = await this.plans.get(planId);
+    if (plan.provider !== provider.name) {
+      throw new StoreError(`Sync plan ${planId} is for provider "${plan.provider}", not "${provider.name}"`);
+    }
+
+    // One lock for check and apply, so nothing can change between them
+    return this.store.exclusive(async () => {
+      const check = await this.execute(provider, { ...plan.options, dryRun: true });
+      if (check.result.errors.length > 0) {
+        throw new SyncError(`Sync plan ${planId} can't be applied: ${check.result.errors.join('; ')}`);
+      }
+      if (!sameChanges(plan.changes, check.changes ?? [])) {
+        throw new SyncError(`Sync plan ${planId} is out of date: contacts changed locally or on ${provider.name} since it was made; plan again`);
+      }
+
+      const result = await this.sync(provider, { ...plan.options, dryRun: false });
+      await this.plans.remove(planId);
+      logger.info(`Applied sync plan ${planId}`);
+      return result;
+    });
+  }
+
+  private async execute(
+    provider: ContactProvider,
+    options: SyncOptions,
+  ): Promise<{ result: SyncResult; changes: PlannedChange[] | null }> {
     const startTime = Date.now();
     const result: SyncResult = {
       provider: provider.name,
       pulled: 0,
       pushed: 0,
       conflicts: 0,
+      deleted: { local: 0, remote: 0 },
+      linked: 0,
+      unlinked: 0,
+      review: [],
       errors: [],
       duration: 0,
     };
+    const changes: PlannedChange[] | null = options.dryRun ? [] : null;
 
     try {
       // Tag before sync
       await this.store.gitOps.tag(`pre-sync-${provider.name}-${Date.now()}`);
 
-      if (options.direction === 'pull' || options.direction === 'both') {
-        await this.pull(provider, options, result);
+      const state = await this.store.readSyncState(provider.name);
+      const { bases: _bases, unlinked: _unlinked, ...providerState } = state;
+      provider.loadSyncState(providerState);
+
+      const pulling = options.direction === 'pull' || options.direction === 'both';
+      const pushing = options.direction === 'push' || options.direction === 'both';
+      const remote = pulling ? await this.fetchRemote(provider) : null;
+      // Groups are read after the contacts, so a provider can reuse what that fetch downloaded
+      let groups: Promise<RemoteGroup[]> | undefined;
+      const remoteGroups = () => (groups ??= provider.fetchGroups?.() ?? Promise.resolve([]));
+
+      const run: SyncRun = {
+        state,
+        agreed: new Set(),
+        needsPush: new Set(),
+        conflicted: new Set(),
+        unlinkedRemotes: null,
+        fetched: new Map(),
+        changes,
+        selection: await this.selection(provider, options.filter, remoteGroups),
+        unlinking: new Set(),
+        relinkChecked: new Set(),
+        names: await this.contactNames(provider),
+        remoteGroups,
+      };
+
+      const unlinks = await this.planUnlinks(provider, run);
+      const deletions = await this.planDeletions(provider, run, remote, pushing);
+      this.checkDeleteThreshold(run, deletions, options.deleteThreshold ?? DEFAULT_DELETE_THRESHOLD);
+
+      for (const contact of unlinks) {
+        await this.unlink(provider, contact, options, result, run);
       }
 
-      if (options.direction === 'push' || options.direction === 'both') {
-        await this.push(provider, options, result);
+      if (remote) {
+        await this.pull(provider, remote.contacts, options, result, run);
+        await this.deleteLocally(provider, deletions.local, options, result, run);
+      }
+
+      if (pushing) {
+        await this.push(provider, options, result, run);
+        await this.deleteRemotely(provider, deletions.remote, options, result, run);
+      }
+
+      if (provider.fetchGroups) {
+        await this.syncGroups(provider, options, result, run);
       }
 
-      // Update sync time
       if (!options.dryRun) {
-        await provider.setLastSyncTime(new Date().toISOString());
+        await this.saveState(provider, run, result);
       }
 
       // Tag after sync
@@ -53,36 +231,74 @@ export class SyncEngine {
     }
 
     result.duration = Date.now() - startTime;
-    return result;
+    return { result, changes };
   }
 
   private async pull(
     provider: ContactProvider,
+    remoteContacts: Contact[],
     options: SyncOptions,
     result: SyncResult,
+    run: SyncRun,
   ): Promise<void> {
-    const remoteContacts = await provider.fetchAll();
-    const localContacts = await this.store.list(false);
-
-    // Build lookup by provider remote ID
-    const localByRemoteId = new Map<string, Contact>();
-    for (const local of localContacts) {
-      const remoteId = local.metadata.providerIds[provider.name];
-      if (remoteId) localByRemoteId.set(remoteId, local);
-    }
+    // Archived contacts are included so they aren't re-imported; deleteRemotely handles them
+    const localContacts = await this.store.list(true);
+    const localByRemoteId = this.byRemoteId(provider, localContacts);
+    const unlinked = run.state.unlinked ?? {};
+    const unlinkedByRemoteId = new Map(Object.entries(unlinked).map(([id, remoteId]) => [remoteId, id]));
+    const matcher = new IdentityMatcher(localContacts.filter(c =>
+      !c.metadata.archived && !c.metadata.providerIds[provider.name] && !unlinked[c.id]));
+    run.unlinkedRemotes ??= [];
 
     for (const remote of remoteContacts) {
       const remoteId = remote.metadata.providerIds[provider.name];
       if (!remoteId) continue;
+      if (remote.metadata.etag) run.state.etags[remoteId] = remote.metadata.etag;
 
       const local = localByRemoteId.get(remoteId);
+      if (local?.metadata.archived || (local && run.unlinking.has(local.id))) continue;
+      const incoming = canonicalRemote(remote, local, provider, run.names);
+      if (local && !run.selection.remote(incoming, local.id)) {
+        await this.unlink(provider, local, options, result, run);
+        continue;
+      }
+      if (local) run.fetched.set(local.id, incoming);
 
       if (!local) {
+        const unlinkedId = unlinkedByRemoteId.get(remoteId);
+        if (unlinkedId) {
+          run.relinkChecked.add(unlinkedId);
+          const previous = localContacts.find(c => c.id === unlinkedId);
+          await this.relink(provider, unlinkedId, previous, canonicalRemote(remote, previous, provider, run.names), options, result, run);
+          continue;
+        }
+        // Left alone by the filter, but a local contact could still match it on push
+        if (!run.selection.remote(incoming)) {
+          run.unlinkedRemotes.push(incoming);
+          continue;
+        }
+
+        // Not linked yet: it may be a contact the store already has
+        const identity = this.identify(matcher, options.links?.[remoteId], incoming, result);
+        if (!identity) continue;
+        if (identity.kind === 'linked') {
+          // Its counterpart is filtered out; importing it would make a duplicate
+          if (!run.selection.local(identity.contact)) continue;
+          await this.link(provider, identity.contact, incoming, options, result, run);
+          continue;
+        }
+        if (identity.kind === 'ambiguous' && !options.createUnmatched) {
+          result.review.push({ side: 'remote', contact: toSummary(incoming), remoteId, candidates: identity.candidates });
+          run.unlinkedRemotes.push(incoming);
+          continue;
+        }
+
         // New contact from remote - import it
+        run.changes?.push({ action: 'create', side: 'local', remoteId, fullName: incoming.fullName, fields: fieldChanges(null, incoming) });
         if (!options.dryRun) {
           try {
-            const normalized = normalizeContact(remote);
-            await this.store.create(normalized);
+            const created = await this.store.create(incoming);
+            run.agreed.add(created.id);
             result.pulled++;
           } catch (err: any) {
             result.errors.push(`Pull create error: ${err.message}`);
@@ -90,59 +306,559 @@ export class SyncEngine {
         } else {
           result.pulled++;
         }
-      } else if (hasChanges(local, remote)) {
-        // Contact exists locally and has changes
-        const localModified = new Date(local.metadata.modified).getTime();
-        const remoteModified = new Date(remote.metadata.modified).getTime();
+        continue;
+      }
 
-        if (localModified !== remoteModified) {
-          // Potential conflict
-          const resolution = resolveConflict(local, remote, options.conflictStrategy);
+      if (differingFields(local, incoming, provider.syncFields).length === 0) {
+        run.agreed.add(local.id);
+        continue;
+      }
 
-          if (!resolution.resolved) {
-            result.conflicts++;
-            continue;
-          }
+      // With a base from the last sync, merge field by field instead of picking a side
+      const baseCommit = run.state.bases[local.id];
+      const base = baseCommit ? await this.store.getAtCommit(local.id, baseCommit) : null;
+      if (base) {
+        await this.mergeWithBase(provider, base, local, incoming, options, result, run);
+        continue;
+      }
 
-          if (resolution.winner === 'remote' && !options.dryRun) {
-            try {
-              await this.store.update(local.id, remote);
-              result.pulled++;
-            } catch (err: any) {
-              result.errors.push(`Pull update error for ${local.id}: ${err.message}`);
-            }
+      const localModified = new Date(local.metadata.modified).getTime();
+      const remoteModified = new Date(remote.metadata.modified).getTime();
+
+      if (localModified !== remoteModified) {
+        // Potential conflict
+        const resolution = resolveConflict(local, incoming, options.conflictStrategy);
+
+        if (!resolution.resolved) {
+          // No base to tell who changed what: every differing field needs a pick
+          const conflicts = diffContacts(local, incoming)
+            .filter(d => !provider.syncFields || provider.syncFields.includes(d.field))
+            .map(d => ({ field: d.field, base: undefined, local: d.localValue, remote: d.remoteValue }));
+          await this.queueConflict(provider, { local, incoming, merged: local, conflicts }, options, result, run);
+          continue;
+        }
+
+        if (resolution.winner === 'remote') {
+          run.changes?.push({
+            action: 'update', side: 'local', contactId: local.id, remoteId, fullName: incoming.fullName,
+            fields: fieldChanges(local, incoming),
+          });
+        }
+        if (resolution.winner === 'remote' && !options.dryRun) {
+          try {
+            await this.store.update(local.id, incoming);
+            run.agreed.add(local.id);
+            result.pulled++;
+          } catch (err: any) {
+            result.errors.push(`Pull update error for ${local.id}: ${err.message}`);
           }
         }
       }
     }
   }
 
+  /**
+   * The counterpart of an unlinked contact: the one named in SyncOptions.links,
+   * otherwise the best identity match. Null (with an error recorded) when the
+   * named contact isn't an unlinked candidate.
+   */
+  private identify(
+    matcher: IdentityMatcher,
+    linkedId: string | undefined,
+    contact: Contact,
+    result: SyncResult,
+  ): IdentityMatch | null {
+    if (!linkedId) return matcher.match(contact);
+    const linked = matcher.claimById(linkedId);
+    if (!linked) result.errors.push(`Cannot link ${contact.fullName} to ${linkedId}: not an unlinked contact`);
+    return linked;
+  }
+
+  /**
+   * Link a local contact to its remote counterpart and merge the two. With no
+   * common history every field counts as changed on both sides: list fields
+   * are combined, and differing single values go through the conflict strategy.
+   */
+  private async link(
+    provider: ContactProvider,
+    local: Contact,
+    incoming: Contact,
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    const remoteId = incoming.metadata.providerIds[provider.name];
+    if (run.names) incoming = relationsFromNames(incoming, local, run.names);
+    result.linked++;
+    run.changes?.push({ action: 'link', side: 'both', contactId: local.id, remoteId, fullName: local.fullName, fields: [] });
+    run.fetched.set(local.id, incoming);
+
+    let linked = local;
+    if (!options.dryRun) {
+      try {
+        linked = await this.store.setProviderId(local.id, provider.name, remoteId);
+      } catch (err: any) {
+        result.errors.push(`Link error for ${local.id}: ${err.message}`);
+        return;
+      }
+    }
+    const blank = createContact({ id: local.id, fullName: '' });
+    await this.mergeWithBase(provider, blank, linked, incoming, options, result, run);
+  }
+
+  /**
+   * Link a contact the filter unlinked back to its remote copy once both copies
+   * match the filter again, merging them as a new link would. The remembered
+   * link is dropped when the local contact is gone. False if it stays unlinked.
+   */
+  private async relink(
+    provider: ContactProvider,
+    localId: string,
+    local: Contact | undefined,
+    incoming: Contact,
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<boolean> {
+    if (!local || local.metadata.archived) {
+      if (!options.dryRun) delete run.state.unlinked![localId];
+      return false;
+    }
+    if (!run.selection.local(local) || !run.selection.remote(incoming, local.id)) return false;
+
+    if (!options.dryRun) delete run.state.unlinked![localId];
+    await this.link(provider, local, incoming, options, result, run);
+    return true;
+  }
+
+  /** Relink from the push, fetching the remote copy the pull didn't. */
+  private async relinkForPush(
+    provider: ContactProvider,
+    local: Contact,
+    remoteId: string,
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    try {
+      const remote = await provider.fetchOne(remoteId);
+      if (!remote) {
+        // Deleted remotely meanwhile: from now on it's pushed like any new contact
+        if (!options.dryRun) delete run.state.unlinked![local.id];
+        return;
+      }
+      remote.metadata.providerIds[provider.name] = remoteId;
+      if (await this.relink(provider, local.id, local, canonicalRemote(remote, local, provider, run.names), options, result, run)) {
+        await this.pushLinked(provider, local, options, result, run);
+      }
+    } catch (err: any) {
+      result.errors.push(`Relink error for ${local.id}: ${err.message}`);
+    }
+  }
+
+  /**
+   * Three-way merge of a contact changed since the last sync. Only fields both
+   * sides changed differently go through the conflict strategy; with `manual`
+   * the contact is left alone and counted as a conflict.
+   */
+  private async mergeWithBase(
+    provider: ContactProvider,
+    base: Contact,
+    local: Contact,
+    incoming: Contact,
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    const merge = mergeThreeWay(base, local, incoming, provider.syncFields);
+    let merged = merge.contact;
+
+    if (merge.conflicts.length > 0) {
+      const resolution = resolveConflict(local, incoming, options.conflictStrategy);
+      if (!resolution.resolved) {
+        await this.queueConflict(provider, { base, local, incoming, merged, conflicts: merge.conflicts }, options, result, run);
+        return;
+      }
+      merged = resolveFieldConflicts(merge, resolution.winner === 'remote' ? 'remote' : 'local');
+    }
+
+    const remoteId = incoming.metadata.providerIds[provider.name];
+    if (hasChanges(local, merged)) {
+      run.changes?.push({
+        action: 'update', side: 'local', contactId: local.id, remoteId, fullName: merged.fullName,
+        fields: fieldChanges(local, merged),
+      });
+      if (!options.dryRun) {
+        try {
+          await this.store.update(local.id, merged);
+        } catch (err: any) {
+          result.errors.push(`Pull update error for ${local.id}: ${err.message}`);
+          return;
+        }
+      }
+      result.pulled++;
+    }
+
+    if (differingFields(merged, incoming, provider.syncFields).length === 0) {
+      run.agreed.add(local.id);
+    } else {
+      run.needsPush.add(local.id);
+      if (options.direction !== 'pull') {
+        run.changes?.push({
+          action: 'update', side: 'remote', contactId: local.id, remoteId, fullName: merged.fullName,
+          fields: fieldChanges(incoming, merged),
+        });
+      }
+    }
+  }
+
+  /**
+   * Only the changes since the last sync when the provider can deliver them,
+   * otherwise everything. `deletedIds` is null for a full fetch, where a
+   * deletion shows up as a missing contact instead.
+   */
+  private async fetchRemote(provider: ContactProvider): Promise<RemoteFetch> {
+    const changes = provider.fetchChanges ? await provider.fetchChanges() : null;
+    if (changes) {
+      return { contacts: changes.changed, deletedIds: new Set(changes.deletedIds) };
+    }
+    return { contacts: await provider.fetchAll(), deletedIds: null };
+  }
+
+  /**
+   * Contacts deleted on one side since the last sync. Only contacts with a
+   * recorded base count: those are known to have existed on both sides, so a
+   * missing copy means a deletion rather than something never synced.
+   * `remote` is null when the remote wasn't fetched (push only).
+   */
+  private async planDeletions(
+    provider: ContactProvider,
+    run: SyncRun,
+    remote: RemoteFetch | null,
+    pushing: boolean,
+  ): Promise<{ local: Contact[]; remote: Contact[] }> {
+    const deletions = { local: [] as Contact[], remote: [] as Contact[] };
+    const fetchedIds = remote && !remote.deletedIds
+      ? new Set(remote.contacts.map(c => c.metadata.providerIds[provider.name]))
+      : null;
+    const deletedRemotely = (remoteId: string) =>
+      remote?.deletedIds ? remote.deletedIds.has(remoteId) : fetchedIds !== null && !fetchedIds.has(remoteId);
+
+    for (const contact of await this.store.list(true)) {
+      const remoteId = contact.metadata.providerIds[provider.name];
+      if (!remoteId || !run.state.bases[contact.id] || run.unlinking.has(contact.id)) continue;
+
+      if (contact.metadata.archived) {
+        if (pushing) deletions.remote.push(contact);
+      } else if (deletedRemotely(remoteId)) {
+        deletions.local.push(contact);
+      }
+    }
+    return deletions;
+  }
+
+  private checkDeleteThreshold(
+    run: SyncRun,
+    deletions: { local: Contact[]; remote: Contact[] },
+    threshold: number,
+  ): void {
+    const tracked = Object.keys(run.state.bases).length;
+    const count = deletions.local.length + deletions.remote.length;
+    if (tracked === 0 || count === 0) return;
+
+    const percent = (count / tracked) * 100;
+    if (percent > threshold) {
+      throw new SyncError(
+        `Sync aborted: it would delete ${count} of ${tracked} synced contacts (${percent.toFixed(0)}%), `
+        + `above the ${threshold}% threshold (${deletions.local.length} locally, ${deletions.remote.length} remotely). `
+        + 'Raise deleteThreshold to proceed.',
+      );
+    }
+  }
+
+  /**
+   * SyncOptions.filter as tests for each side. A local contact's groups are its
+   * local groups; a remote copy's are the provider's groups, or when the
+   * provider has none, those of the local contact it's linked to.
+   */
+  private async selection(
+    provider: ContactProvider,
+    filter: SyncFilter | undefined,
+    fetchRemoteGroups: () => Promise<RemoteGroup[]>,
+  ): Promise<ContactSelection> {
+    if (!filter) return { local: () => true, remote: () => true };
+    const selects = compileSyncFilter(filter);
+
+    const localGroups = new Map<string, string[]>();
+    const remoteGroups = new Map<string, string[]>();
+    if (filtersByGroup(filter)) {
+      for (const group of await this.store.listGroups()) {
+        for (const id of group.memberIds) localGroups.set(id, [...localGroups.get(id) ?? [], group.name]);
+      }
+      for (const group of await fetchRemoteGroups()) {
+        for (const id of group.memberRemoteIds) remoteGroups.set(id, [...remoteGroups.get(id) ?? [], group.name]);
+      }
+    }
+
+    return {
+      local: contact => selects(contact, localGroups.get(contact.id) ?? []),
+      remote: (contact, localId) => selects(contact, provider.fetchGroups
+        ? remoteGroups.get(contact.metadata.providerIds[provider.name]) ?? []
+        : (localId && localGroups.get(localId)) || []),
+    };
+  }
+
+  /**
+   * Linked contacts that no longer match the filter locally. Remote copies that
+   * stopped matching are unlinked by the pull, when it fetches them.
+   */
+  private async planUnlinks(provider: ContactProvider, run: SyncRun): Promise<Contact[]> {
+    const unlinks = (await this.store.list(false))
+      .filter(c => c.metadata.providerIds[provider.name] && !run.selection.local(c));
+    for (const contact of unlinks) run.unlinking.add(contact.id);
+    return unlinks;
+  }
+
+  /**
+   * Stop syncing a linked contact because a copy of it stopped matching the
+   * filter. Both copies are kept, and the link is remembered in the sync state
+   * so neither is matched to another contact or duplicated on the other side.
+   */
+  private async unlink(
+    provider: ContactProvider,
+    contact: Contact,
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    const remoteId = contact.metadata.providerIds[provider.name];
+    run.unlinking.add(contact.id);
+    run.changes?.push({ action: 'unlink', side: 'both', contactId: contact.id, remoteId, fullName: contact.fullName, fields: [] });
+    if (!options.dryRun) {
+      try {
+        await this.store.removeProviderId(contact.id, provider.name);
+      } catch (err: any) {
+        result.errors.push(`Unlink error for ${contact.id}: ${err.message}`);
+        return;
+      }
+      delete run.state.bases[contact.id];
+      delete run.state.etags[remoteId];
+      run.state.unlinked = { ...run.state.unlinked, [contact.id]: remoteId };
+    }
+    result.unlinked++;
+  }
+
+  /** Names of the store's contacts, for writing related people to a provider that can't hold references. */
+  private async contactNames(provider: ContactProvider): Promise<Map<string, string> | null> {
+    if (!provider.relatedAsNames) return null;
+    return new Map((await this.store.list(true)).map(c => [c.id, c.fullName]));
+  }
+
+  /** Archive contacts that were deleted on the provider. */
+  private async deleteLocally(
+    provider: ContactProvider,
+    contacts: Contact[],
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    for (const contact of contacts) {
+      run.changes?.push({
+        action: 'delete', side: 'local', contactId: contact.id, remoteId: contact.metadata.providerIds[provider.name],
+        fullName: contact.fullName, fields: [],
+      });
+      if (!options.dryRun) {
+        try {
+          await this.store.delete(contact.id);
+          delete run.state.bases[contact.id];
+          delete run.state.etags[contact.metadata.providerIds[provider.name]];
+        } catch (err: any) {
+          result.errors.push(`Local delete error for ${contact.id}: ${err.message}`);
+          continue;
+        }
+      }
+      result.deleted.local++;
+    }
+  }
+
+  /** Delete the provider's copy of contacts archived locally. */
+  private async deleteRemotely(
+    provider: ContactProvider,
+    contacts: Contact[],
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    for (const contact of contacts) {
+      run.changes?.push({
+        action: 'delete', side: 'remote', contactId: contact.id, remoteId: contact.metadata.providerIds[provider.name],
+        fullName: contact.fullName, fields: [],
+      });
+      if (!options.dryRun) {
+        try {
+          await provider.deleteContact(contact.metadata.providerIds[provider.name]);
+          delete run.state.bases[contact.id];
+          delete run.state.etags[contact.metadata.providerIds[provider.name]];
+        } catch (err: any) {
+          result.errors.push(`Remote delete error for ${contact.id}: ${err.message}`);
+          continue;
+        }
+      }
+      result.deleted.remote++;
+    }
+  }
+
+  private byRemoteId(provider: ContactProvider, contacts: Contact[]): Map<string, Contact> {
+    const byRemoteId = new Map<string, Contact>();
+    for (const contact of contacts) {
+      const remoteId = contact.metadata.providerIds[provider.name];
+      if (remoteId) byRemoteId.set(remoteId, contact);
+    }
+    return byRemoteId;
+  }
+
+  private async queueConflict(
+    provider: ContactProvider,
+    versions: { base?: Contact; local: Contact; incoming: Contact; merged: Contact; conflicts: FieldConflict[] },
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    const { base, local, incoming, merged, conflicts } = versions;
+    result.conflicts++;
+    run.conflicted.add(local.id);
+    run.changes?.push({
+      action: 'conflict', side: 'both', contactId: local.id, remoteId: incoming.metadata.providerIds[provider.name],
+      fullName: local.fullName, fields: fieldChanges(local, incoming),
+    });
+    if (options.dryRun) return;
+
+    await this.queue.add({
+      id: ConflictQueue.idFor(provider.name, local.id),
+      provider: provider.name,
+      contactId: local.id,
+      remoteId: incoming.metadata.providerIds[provider.name],
+      detectedAt: new Date().toISOString(),
+      base,
+      local,
+      remote: incoming,
+      diffs: diffContacts(local, incoming),
+      merged,
+      conflicts,
+    });
+  }
+
+  /**
+   * Settle a queued conflict with a pick per conflicting field (`fallback`
+   * covers fields without one), then write the result to both the store and
+   * the provider so they agree again.
+   */
+  async resolveQueuedConflict(
+    provider: ContactProvider,
+    conflictId: string,
+    picks: Record<string, MergeSide>,
+    fallback?: MergeSide,
+  ): Promise<Contact> {
+    return this.store.exclusive(async () => {
+      const conflict = await this.queue.get(conflictId);
+      if (conflict.provider !== provider.name) {
+        throw new StoreError(`Conflict ${conflictId} belongs to provider "${conflict.provider}", not "${provider.name}"`);
+      }
+
+      const unpicked = conflict.conflicts.map(c => c.field).filter(field => !picks[field] && !fallback);
+      if (unpicked.length > 0) {
+        throw new StoreError(`No pick for conflicting field(s): ${unpicked.join(', ')}`);
+      }
+
+      const current = await this.store.get(conflict.contactId);
+      if (current.metadata.modified !== conflict.local.metadata.modified) {
+        throw new StoreError(`Contact ${conflict.contactId} changed since the conflict was recorded; sync again to refresh it`);
+      }
+
+      const winners = Object.fromEntries(conflict.conflicts.map(c => [c.field, picks[c.field] ?? fallback!]));
+      const resolved = resolveFieldConflicts({ contact: conflict.merged, conflicts: conflict.conflicts }, winners);
+
+      const state = await this.store.readSyncState(provider.name);
+      let revision: RemoteRevision;
+      try {
+        revision = await provider.updateContact(conflict.remoteId, asWritten(resolved, await this.contactNames(provider)), state.etags[conflict.remoteId]);
+      } catch (err) {
+        if (!(err instanceof PreconditionFailedError)) throw err;
+        throw new StoreError(`Contact ${conflict.contactId} changed on ${provider.name} since the conflict was recorded; sync again to refresh it`);
+      }
+      const updated = await this.store.update(conflict.contactId, resolved);
+      if (revision.remoteId !== conflict.remoteId) {
+        await this.store.setProviderId(conflict.contactId, provider.name, revision.remoteId);
+        delete state.etags[conflict.remoteId];
+      }
+
+      recordRevision({ state }, revision);
+      state.bases[conflict.contactId] = await this.store.gitOps.head();
+      await this.store.writeSyncState(provider.name, state);
+      await this.queue.remove(conflictId);
+
+      logger.info(`Resolved sync conflict ${conflictId}`);
+      return updated;
+    });
+  }
+
   private async push(
     provider: ContactProvider,
     options: SyncOptions,
     result: SyncResult,
+    run: SyncRun,
   ): Promise<void> {
     const localContacts = await this.store.list(false);
-    const lastSync = await provider.getLastSyncTime();
-    const lastSyncTime = lastSync ? new Date(lastSync).getTime() : 0;
+    const lastSyncTime = run.state.lastSyncTime ? new Date(run.state.lastSyncTime).getTime() : 0;
 
     for (const local of localContacts) {
       const remoteId = local.metadata.providerIds[provider.name];
       const localModified = new Date(local.metadata.modified).getTime();
 
-      // Only push contacts modified since last sync
-      if (localModified <= lastSyncTime) continue;
+      // Only push linked contacts modified since last sync, or merged with changes the remote lacks.
+      // Unlinked ones are looked at every time, so a failed create is retried.
+      if (remoteId && localModified <= lastSyncTime && !run.needsPush.has(local.id)) continue;
+      if (run.conflicted.has(local.id) || run.unlinking.has(local.id)) continue;
 
       if (!remoteId) {
+        const unlinkedRemoteId = run.state.unlinked?.[local.id];
+        if (unlinkedRemoteId) {
+          // Unless the pull already looked at its remote copy
+          if (!run.relinkChecked.has(local.id) && run.selection.local(local)) {
+            await this.relinkForPush(provider, local, unlinkedRemoteId, options, result, run);
+          }
+          continue;
+        }
+        if (!run.selection.local(local)) continue;
+
+        // Not linked yet: the provider may already have it
+        const matcher = await this.remoteMatcher(provider, run);
+        const linkedRemoteId = Object.entries(options.links ?? {}).find(([, localId]) => localId === local.id)?.[0];
+        const identity = this.identify(matcher, linkedRemoteId, local, result);
+        if (!identity) continue;
+        if (identity.kind === 'linked') {
+          // Its counterpart is filtered out; pushing would make a duplicate
+          if (!run.selection.remote(identity.contact)) continue;
+          const linkedId = identity.contact.metadata.providerIds[provider.name];
+          // The remote may have been held for review by the pull; it's settled now
+          result.review = result.review.filter(r => r.remoteId !== linkedId);
+          await this.link(provider, local, identity.contact, options, result, run);
+          await this.pushLinked(provider, local, options, result, run);
+          continue;
+        }
+        if (identity.kind === 'ambiguous' && !options.createUnmatched) {
+          result.review.push({ side: 'local', contact: toSummary(local), candidates: identity.candidates });
+          continue;
+        }
+
         // New local contact - push to remote
+        run.changes?.push({ action: 'create', side: 'remote', contactId: local.id, fullName: local.fullName, fields: fieldChanges(null, local) });
         if (!options.dryRun) {
           try {
-            const newRemoteId = await provider.pushContact(local);
-            // Update local contact with remote ID
-            local.metadata.providerIds[provider.name] = newRemoteId;
-            await this.store.update(local.id, {
-              metadata: local.metadata,
-            } as any);
+            const revision = await provider.pushContact(asWritten(local, run.names));
+            await this.store.setProviderId(local.id, provider.name, revision.remoteId);
+            recordRevision(run, revision);
+            run.agreed.add(local.id);
             result.pushed++;
           } catch (err: any) {
             result.errors.push(`Push create error for ${local.id}: ${err.message}`);
@@ -151,11 +867,16 @@ export class SyncEngine {
           result.pushed++;
         }
       } else {
-        // Existing contact - update remote
+        // Existing contact - update remote; a merge already planned what it pushes
+        if (run.changes && !run.needsPush.has(local.id)) {
+          run.changes.push({
+            action: 'update', side: 'remote', contactId: local.id, remoteId, fullName: local.fullName,
+            fields: fieldChanges(await this.lastKnownRemote(run, local), local),
+          });
+        }
         if (!options.dryRun) {
           try {
-            await provider.updateContact(remoteId, local);
-            result.pushed++;
+            if (await this.updateRemote(provider, local, remoteId, options, result, run)) result.pushed++;
           } catch (err: any) {
             result.errors.push(`Push update error for ${local.id}: ${err.message}`);
           }
@@ -165,4 +886,281 @@ export class SyncEngine {
       }
     }
   }
+
+  /** Push what a contact linked during the push has that its remote copy lacks. */
+  private async pushLinked(
+    provider: ContactProvider,
+    local: Contact,
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    if (!run.needsPush.has(local.id)) return;
+    if (options.dryRun) {
+      result.pushed++;
+      return;
+    }
+    try {
+      const linked = await this.store.get(local.id);
+      if (await this.updateRemote(provider, linked, linked.metadata.providerIds[provider.name], options, result, run)) result.pushed++;
+    } catch (err: any) {
+      result.errors.push(`Push update error for ${local.id}: ${err.message}`);
+    }
+  }
+
+  /**
+   * The remote copy of a contact as last seen: fetched by this run's pull, or
+   * the last synced version. Null (a blank contact) when neither is known.
+   */
+  private async lastKnownRemote(run: SyncRun, local: Contact): Promise<Contact | null> {
+    const fetched = run.fetched.get(local.id);
+    if (fetched) return fetched;
+    const baseCommit = run.state.bases[local.id];
+    return baseCommit ? this.store.getAtCommit(local.id, baseCommit) : null;
+  }
+
+  /**
+   * Unlinked remote contacts to match new local contacts against: the ones the
+   * pull held for review or, on a push-only sync, everything the provider has
+   * that no local contact is linked to.
+   */
+  private async remoteMatcher(provider: ContactProvider, run: SyncRun): Promise<IdentityMatcher> {
+    if (run.remoteMatcher) return run.remoteMatcher;
+
+    if (!run.unlinkedRemotes) {
+      const linked = new Set([
+        ...this.byRemoteId(provider, await this.store.list(true)).keys(),
+        ...Object.values(run.state.unlinked ?? {}),
+      ]);
+      const remotes = await provider.fetchAll();
+      // Only a pull may move the provider's delta tokens past these contacts
+      const { bases: _bases, unlinked: _unlinked, ...providerState } = run.state;
+      provider.loadSyncState(providerState);
+
+      run.unlinkedRemotes = [];
+      for (const remote of remotes) {
+        const remoteId = remote.metadata.providerIds[provider.name];
+        if (!remoteId || linked.has(remoteId)) continue;
+        if (remote.metadata.etag) run.state.etags[remoteId] = remote.metadata.etag;
+        run.unlinkedRemotes.push(canonicalRemote(remote));
+      }
+    }
+
+    run.remoteMatcher = new IdentityMatcher(run.unlinkedRemotes, c => c.metadata.providerIds[provider.name]);
+    return run.remoteMatcher;
+  }
+
+  /**
+   * Write a local contact over its remote copy, but only if the remote is still
+   * at the revision last fetched. If it changed (or no revision is known), the
+   * remote copy is refetched and merged exactly as a pull would, and whatever
+   * the remote still lacks is written against the new revision. Returns false
+   * when the merge left nothing to push or ended in a queued conflict.
+   */
+  private async updateRemote(
+    provider: ContactProvider,
+    contact: Contact,
+    remoteId: string,
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<boolean> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const revision = await provider.updateContact(remoteId, asWritten(contact, run.names), run.state.etags[remoteId]);
+        if (revision.remoteId !== remoteId) {
+          await this.store.setProviderId(contact.id, provider.name, revision.remoteId);
+          delete run.state.etags[remoteId];
+        }
+        recordRevision(run, revision);
+        run.agreed.add(contact.id);
+        return true;
+      } catch (err) {
+        if (!(err instanceof PreconditionFailedError) || attempt >= MAX_PRECONDITION_RETRIES) throw err;
+      }
+
+      logger.info(`Sync: ${remoteId} changed on ${provider.name}, refetching and merging before updating`);
+      const remote = await provider.fetchOne(remoteId);
+      if (!remote) throw new SyncError(`${remoteId} no longer exists on ${provider.name}`);
+      remote.metadata.providerIds[provider.name] = remoteId;
+
+      run.agreed.delete(contact.id);
+      run.needsPush.delete(contact.id);
+      await this.pull(provider, [remote], options, result, run);
+      if (run.agreed.has(contact.id) || run.conflicted.has(contact.id)) return false;
+      contact = await this.store.get(contact.id);
+    }
+  }
+
+  /**
+   * Point the merge base of every contact that ended the run in agreement at
+   * the current HEAD, take the provider's new tokens, and commit the state.
+   * Remote contacts held for review keep the tokens from moving: a delta
+   * wouldn't return them again, so the next sync fetches everything.
+   */
+  private async saveState(provider: ContactProvider, run: SyncRun, result: SyncResult): Promise<void> {
+    const head = await this.store.gitOps.head();
+    for (const id of run.agreed) {
+      run.state.bases[id] = head;
+      // A conflict queued by an earlier sync is settled once both sides agree
+      await this.queue.remove(ConflictQueue.idFor(provider.name, id));
+    }
+
+    const pendingReview = result.review.some(r => r.side === 'remote');
+    const { syncToken, ctag, collections } = pendingReview ? {} : provider.saveSyncState();
+    await this.store.writeSyncState(provider.name, {
+      ...run.state,
+      syncToken,
+      ctag,
+      collections,
+      lastSyncTime: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Reconcile groups after contacts, so members can be matched through their
+   * provider IDs. Members the provider doesn't know about are kept locally and
+   * left out remotely. A group changed locally since the last sync keeps the
+   * local version and is pushed instead of being overwritten.
+   */
+  private async syncGroups(
+    provider: ContactProvider,
+    options: SyncOptions,
+    result: SyncResult,
+    run: SyncRun,
+  ): Promise<void> {
+    const groupResult = { pulled: 0, pushed: 0 };
+    result.groups = groupResult;
+
+    const lastSyncTime = run.state.lastSyncTime ? new Date(run.state.lastSyncTime).getTime() : 0;
+    const modifiedSinceSync = (group: ContactGroup) => new Date(group.metadata.modified).getTime() > lastSyncTime;
+
+    const localIdByRemoteId = new Map<string, string>();
+    const remoteIdByLocalId = new Map<string, string>();
+    for (const contact of await this.store.list(false)) {
+      const remoteId = contact.metadata.providerIds[provider.name];
+      if (!remoteId) continue;
+      localIdByRemoteId.set(remoteId, contact.id);
+      remoteIdByLocalId.set(contact.id, remoteId);
+    }
+
+    const pulledIds = new Set<string>();
+
+    if (options.direction === 'pull' || options.direction === 'both') {
+      const localByRemoteId = new Map<string, ContactGroup>();
+      for (const group of await this.store.listGroups()) {
+        const remoteId = group.metadata.providerIds[provider.name];
+        if (remoteId) localByRemoteId.set(remoteId, group);
+      }
+
+      for (const remote of await run.remoteGroups()) {
+        const local = localByRemoteId.get(remote.remoteId);
+        const remoteMembers = remote.memberRemoteIds.flatMap(id => localIdByRemoteId.get(id) ?? []);
+
+        try {
+          if (!local) {
+            if (!options.dryRun) {
+              const now = new Date().toISOString();
+              const created = await this.store.createGroup({
+                name: remote.name,
+                description: remote.description,
+                memberIds: remoteMembers,
+                metadata: { created: now, modified: now, source: provider.name, providerIds: { [provider.name]: remote.remoteId } },
+              });
+              pulledIds.add(created.id);
+            }
+            groupResult.pulled++;
+            continue;
+          }
+
+          if (options.direction === 'both' && modifiedSinceSync(local)) continue;
+
+          const memberIds = [...remoteMembers, ...local.memberIds.filter(id => !remoteIdByLocalId.has(id))];
+          const description = remote.description ?? local.description;
+          const changed = remote.name !== local.name
+            || description !== local.description
+            || !sameMembers(memberIds, local.memberIds);
+          if (!changed) continue;
+
+          if (!options.dryRun) {
+            await this.store.updateGroup(local.id, { name: remote.name, description: description ?? '', memberIds });
+            pulledIds.add(local.id);
+          }
+          groupResult.pulled++;
+        } catch (err: any) {
+          result.errors.push(`Group pull error for ${remote.name}: ${err.message}`);
+        }
+      }
+    }
+
+    if (options.direction === 'push' || options.direction === 'both') {
+      for (const group of await this.store.listGroups()) {
+        if (pulledIds.has(group.id) || !modifiedSinceSync(group)) continue;
+
+        const remoteId = group.metadata.providerIds[provider.name];
+        const memberRemoteIds = group.memberIds.flatMap(id => remoteIdByLocalId.get(id) ?? []);
+
+        try {
+          if (!remoteId) {
+            if (!provider.pushGroup) continue;
+            if (!options.dryRun) {
+              const newRemoteId = await provider.pushGroup(group, memberRemoteIds);
+              await this.store.updateGroup(group.id, { providerIds: { [provider.name]: newRemoteId } });
+            }
+            groupResult.pushed++;
+          } else {
+            if (!provider.updateGroup) continue;
+            if (!options.dryRun) {
+              await provider.updateGroup(remoteId, group, memberRemoteIds);
+            }
+            groupResult.pushed++;
+          }
+        } catch (err: any) {
+          result.errors.push(`Group push error for ${group.id}: ${err.message}`);
+        }
+      }
+    }
+  }
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  const set = new Set(b);
+  return a.length === b.length && a.every(id => set.has(id));
+}
+
+/** Remember the revision a write left the remote contact at; none known means refetch before the next write. */
+function recordRevision(run: Pick<SyncRun, 'state'>, revision: RemoteRevision): void {
+  if (revision.etag) {
+    run.state.etags[revision.remoteId] = revision.etag;
+  } else {
+    delete run.state.etags[revision.remoteId];
+  }
+}
+
+/** A contact as written to the provider, with related contacts named when `names` is given. */
+function asWritten(contact: Contact, names: Map<string, string> | null): Contact {
+  return names ? relationsAsNames(contact, names) : contact;
+}
+
+/** A fetched remote contact as sync compares it with `local`, its linked local contact if any. */
+function canonicalRemote(
+  remote: Contact,
+  local?: Contact,
+  provider?: ContactProvider,
+  names?: Map<string, string> | null,
+): Contact {
+  if (local && names) remote = relationsFromNames(remote, local, names);
+  if (local && provider?.completeRemote) remote = provider.completeRemote(remote, local);
+  // Providers that don't carry unmapped vCard properties return none; keep ours
+  return asStored(local && remote.extraProperties.length === 0
+    ? { ...remote, extraProperties: local.extraProperties }
+    : remote);
+}
+
+/**
+ * The contact as the store would read it back after writing it, so defaults
+ * and normalization the provider doesn't apply don't show up as changes.
+ */
+function asStored(contact: Contact): Contact {
+  return vcardToContact(contactToVCard(normalizeContact(contact)));
 }
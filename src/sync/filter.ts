@@ -0,0 +1,54 @@
+import type { Contact, SyncFilter, SyncFilterRules } from '../types/index.js';
+import { matchesQuery, parseQuery, type QueryNode } from '../contacts/query.js';
+
+/** Whether a contact, in the named groups, syncs with the provider. */
+export type ContactFilter = (contact: Contact, groups: string[]) => boolean;
+
+/** Fields a bare word in a filter query is looked for in. */
+const TERM_FIELDS = ['name', 'email', 'org'] as const;
+
+/** Build the test for a provider's filter. Throws QueryError on a malformed query. */
+export function compileSyncFilter(filter: SyncFilter): ContactFilter {
+  const include = filter.include && compileRules(filter.include);
+  const exclude = filter.exclude && compileRules(filter.exclude);
+  return (contact, groups) =>
+    (!include || include(contact, groups)) && !(exclude && exclude(contact, groups));
+}
+
+/** Why a filter from config.json can't be used, or null if it can. */
+export function validateSyncFilter(filter: SyncFilter): string | null {
+  try {
+    compileSyncFilter(filter);
+    return null;
+  } catch (err: any) {
+    return `filter query: ${err.message}`;
+  }
+}
+
+/** True when the filter has group rules, which need group memberships to evaluate. */
+export function filtersByGroup(filter: SyncFilter): boolean {
+  return !!(filter.include?.groups?.length || filter.exclude?.groups?.length);
+}
+
+function compileRules(rules: SyncFilterRules): ContactFilter {
+  const categories = lowercased(rules.categories);
+  const groups = lowercased(rules.groups);
+  const organizations = lowercased(rules.organizations);
+  const sources = lowercased(rules.sources);
+  const query: QueryNode | null = rules.query?.trim() ? parseQuery(rules.query) : null;
+
+  return (contact, memberOf) =>
+    contact.categories.some(c => categories.has(c.toLowerCase()))
+    || memberOf.some(g => groups.has(g.toLowerCase()))
+    || (!!contact.organization?.name && organizations.has(contact.organization.name.toLowerCase()))
+    || (!!contact.metadata.source && sources.has(contact.metadata.source.toLowerCase()))
+    || (!!query && matchesQuery(contact, query, matchesTerm));
+}
+
+function matchesTerm(contact: Contact, term: string): boolean {
+  return TERM_FIELDS.some(field => matchesQuery(contact, { type: 'field', field, operator: ':', value: term }, () => false));
+}
+
+function lowercased(values: string[] | undefined): Set<string> {
+  return new Set((values ?? []).map(v => v.toLowerCase()));
+}
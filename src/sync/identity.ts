@@ -0,0 +1,78 @@
+import type { Contact, IdentityCandidate, MatchedField } from '../types/index.js';
+import { toSummary } from '../types/index.js';
+import { compareContacts } from '../contacts/dedup.js';
+
+/** Candidates scoring below this (findDuplicates' default threshold) aren't worth reviewing. */
+const REVIEW_THRESHOLD = 0.6;
+
+export type IdentityMatch =
+  | { kind: 'linked'; contact: Contact; matchedFields: MatchedField[] }
+  | { kind: 'ambiguous'; candidates: IdentityCandidate[] }
+  | { kind: 'none' };
+
+/**
+ * Finds the counterpart of a contact that isn't linked to the other side yet,
+ * among the unlinked contacts there, so a first sync against an overlapping
+ * account links contacts instead of duplicating them.
+ *
+ * A match is certain on the same UID, the same email, or the same phone with a
+ * similar name; it must also be the only certain one. Anything else scoring as
+ * a likely duplicate is ambiguous. Each candidate is linked at most once.
+ */
+export class IdentityMatcher {
+  private candidates: Contact[];
+  private remoteIdOf: (contact: Contact) => string | undefined;
+  private claimed = new Set<Contact>();
+
+  constructor(candidates: Contact[], remoteIdOf: (contact: Contact) => string | undefined = () => undefined) {
+    this.candidates = candidates;
+    this.remoteIdOf = remoteIdOf;
+  }
+
+  match(contact: Contact): IdentityMatch {
+    const available = this.candidates.filter(c => !this.claimed.has(c));
+
+    const sameUid = available.find(c => c.id === contact.id);
+    if (sameUid) {
+      return this.claim(sameUid, [{ field: 'uid', valueA: contact.id, valueB: sameUid.id, similarity: 1, matchType: 'exact' }]);
+    }
+
+    const scored = available
+      .map(candidate => ({ candidate, ...compareContacts(contact, candidate) }))
+      .filter(s => s.confidence >= REVIEW_THRESHOLD)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const certain = scored.filter(s => isCertain(s.matchedFields));
+    if (certain.length === 1) return this.claim(certain[0].candidate, certain[0].matchedFields);
+    if (scored.length === 0) return { kind: 'none' };
+
+    return {
+      kind: 'ambiguous',
+      candidates: scored.map(s => ({
+        contact: toSummary(s.candidate),
+        ...(this.remoteIdOf(s.candidate) ? { remoteId: this.remoteIdOf(s.candidate) } : {}),
+        confidence: s.confidence,
+        matchedFields: s.matchedFields,
+      })),
+    };
+  }
+
+  /**
+   * Link to a candidate chosen by hand, by remote ID for remote candidates and
+   * contact ID otherwise. Null if there's no such unclaimed candidate.
+   */
+  claimById(id: string): IdentityMatch | null {
+    const candidate = this.candidates.find(c => !this.claimed.has(c) && (this.remoteIdOf(c) ?? c.id) === id);
+    return candidate ? this.claim(candidate) : null;
+  }
+
+  private claim(contact: Contact, matchedFields: MatchedField[] = []): IdentityMatch {
+    this.claimed.add(contact);
+    return { kind: 'linked', contact, matchedFields };
+  }
+}
+
+function isCertain(matchedFields: MatchedField[]): boolean {
+  const matched = (field: string) => matchedFields.some(m => m.field === field);
+  return matched('email') || (matched('phone') && matched('name'));
+}
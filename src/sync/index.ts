@@ -1,3 +1,10 @@
-export { SyncEngine, type SyncOptions } from './engine.js';
+export { SyncEngine, DEFAULT_DELETE_THRESHOLD, type SyncOptions } from './engine.js';
 export { diffContacts, hasChanges } from './diff.js';
 export { resolveConflict, type ConflictStrategy } from './conflict.js';
+export { mergeThreeWay, resolveFieldConflicts, differingFields, type ThreeWayMerge, type FieldConflict, type MergeSide } from './three-way.js';
+export { ConflictQueue, type QueuedConflict } from './conflict-queue.js';
+export { IdentityMatcher, type IdentityMatch } from './identity.js';
+export { PlanStore, type SyncPlan, type PlannedChange, type PlannedFieldChange } from './plan.js';
+export { SyncScheduler, nextRunTime, validateSchedule } from './scheduler.js';
+export { RunLog } from './run-log.js';
+export { compileSyncFilter, validateSyncFilter, type ContactFilter } from './filter.js';
@@ -0,0 +1,150 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Contact } from '../types/index.js';
+import { contactToVCard, vcardToContact } from '../contacts/vcard.js';
+import type { GitOps } from '../store/git-ops.js';
+import { CONTACTS_DIR, METADATA_DIR, SYNC_DIR } from '../store/file-layout.js';
+import { logger } from '../utils/index.js';
+import { ConflictQueue } from './conflict-queue.js';
+import { diffContacts } from './diff.js';
+import { mergeThreeWay, type FieldConflict } from './three-way.js';
+
+/** Name of the git merge driver for contact vCards. */
+export const MERGE_DRIVER = 'contacts-vcard';
+/** Merge driver that keeps this store's version, for per-store sync state. */
+const KEEP_LOCAL_DRIVER = 'contacts-keep-local';
+/** Environment variable naming the remote being merged, for the conflicts the driver queues. */
+export const MERGE_REMOTE_ENV = 'CONTACTS_MCP_MERGE_REMOTE';
+
+export interface VCardMerge {
+  /** The merged vCard; conflicting fields keep the local value */
+  vcard: string;
+  /** The merged contact, as read back from `vcard` */
+  contact: Contact;
+  /** Common ancestor, absent when both sides added the contact */
+  base?: Contact;
+  local: Contact;
+  remote: Contact;
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Merge two versions of a contact's vCard field by field against their common
+ * ancestor, as sync merges local and remote edits. `base` is empty when both
+ * sides added the file; then every differing field is a conflict. Links to
+ * providers are combined, and the newer modification time is kept.
+ */
+export function mergeVCards(base: string, local: string, remote: string): VCardMerge {
+  const ours = vcardToContact(local);
+  const theirs = vcardToContact(remote);
+  const ancestor = base.trim() ? vcardToContact(base) : undefined;
+
+  const { contact: merged, conflicts } = ancestor
+    ? mergeThreeWay(ancestor, ours, theirs)
+    : {
+      contact: structuredClone(ours),
+      conflicts: diffContacts(ours, theirs)
+        .map(d => ({ field: d.field, base: undefined, local: d.localValue, remote: d.remoteValue })),
+    };
+  merged.metadata = {
+    ...ours.metadata,
+    providerIds: { ...theirs.metadata.providerIds, ...ours.metadata.providerIds },
+    modified: [ours.metadata.modified, theirs.metadata.modified].sort().at(-1)!,
+  };
+
+  const vcard = contactToVCard(merged);
+  return { vcard, contact: vcardToContact(vcard), base: ancestor, local: ours, remote: theirs, conflicts };
+}
+
+/**
+ * Set up a store so git merges contact vCards with this driver, and keeps this
+ * store's sync state on merges. The attributes go in .git/info/attributes, so
+ * they aren't committed: the driver command is a path on this machine.
+ */
+export async function installMergeDriver(git: GitOps): Promise<void> {
+  await git.setConfig(`merge.${MERGE_DRIVER}.name`, 'contacts-mcp field-level vCard merge');
+  await git.setConfig(`merge.${MERGE_DRIVER}.driver`, mergeDriverCommand());
+  await git.setConfig(`merge.${KEEP_LOCAL_DRIVER}.name`, 'keep this store\'s version');
+  await git.setConfig(`merge.${KEEP_LOCAL_DRIVER}.driver`, 'true');
+
+  const attributesPath = path.join(git.storePath, '.git', 'info', 'attributes');
+  let content = '';
+  try {
+    content = await fs.readFile(attributesPath, 'utf-8');
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+  const existing = new Set(content.split(/\r?\n/).map(l => l.trim()));
+  const missing = [
+    `${CONTACTS_DIR}/*.vcf merge=${MERGE_DRIVER}`,
+    `${METADATA_DIR}/${SYNC_DIR}/*.json merge=${KEEP_LOCAL_DRIVER}`,
+    '.gitignore merge=union',
+  ].filter(line => !existing.has(line));
+  if (missing.length === 0) return;
+
+  const prefix = content && !content.endsWith('\n') ? '\n' : '';
+  await fs.mkdir(path.dirname(attributesPath), { recursive: true });
+  await fs.writeFile(attributesPath, `${content}${prefix}${missing.join('\n')}\n`, 'utf-8');
+}
+
+/** Command git runs for the driver: this module, run as a script. */
+function mergeDriverCommand(): string {
+  const script = fileURLToPath(import.meta.url);
+  // Node can't run the TypeScript sources (e.g. under vitest); bun can
+  const runtime = script.endsWith('.ts') && !process.versions.bun ? 'bun' : process.execPath;
+  return `${quote(runtime)} ${quote(script)} %O %A %B %P`;
+}
+
+function quote(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Run by git as `merge-driver %O %A %B %P` from the top of the store: writes
+ * the merge over %A, and queues a conflict for resolve_conflict when both
+ * sides changed a field differently. Exits non-zero only when the files can't
+ * be merged at all, leaving git to report the conflict.
+ */
+async function main([basePath, localPath, remotePath, filePath]: string[]): Promise<number> {
+  const [base, local, remote] = await Promise.all([basePath, localPath, remotePath].map(f => fs.readFile(f, 'utf-8')));
+  let merge: VCardMerge;
+  try {
+    merge = mergeVCards(base, local, remote);
+  } catch (err: any) {
+    logger.error(`Can't merge ${filePath}:`, err.message);
+    return 1;
+  }
+  await fs.writeFile(localPath, merge.vcard, 'utf-8');
+
+  if (merge.conflicts.length > 0) {
+    const remoteName = process.env[MERGE_REMOTE_ENV] ?? 'origin';
+    const contactId = merge.contact.id;
+    await new ConflictQueue(process.cwd()).add({
+      id: ConflictQueue.idFor(remoteName, contactId),
+      provider: remoteName,
+      source: 'pull',
+      contactId,
+      remoteId: contactId,
+      detectedAt: new Date().toISOString(),
+      ...(merge.base ? { base: merge.base } : {}),
+      local: merge.local,
+      remote: merge.remote,
+      diffs: diffContacts(merge.local, merge.remote),
+      merged: merge.contact,
+      conflicts: merge.conflicts,
+    });
+    logger.info(`Queued merge conflict for ${filePath}: ${merge.conflicts.map(c => c.field).join(', ')}`);
+  }
+  return 0;
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    (err) => {
+      logger.error('Merge driver failed:', err);
+      process.exit(2);
+    },
+  );
+}
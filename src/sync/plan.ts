@@ -0,0 +1,86 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Contact, SyncResult } from '../types/index.js';
+import { planPath, METADATA_DIR, PLANS_DIR } from '../store/file-layout.js';
+import { createContact } from '../contacts/model.js';
+import { StoreError } from '../utils/index.js';
+import { diffContacts } from './diff.js';
+import type { SyncOptions } from './engine.js';
+
+/** A field a planned change sets, from diffContacts(before, after). */
+export interface PlannedFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/** What a sync will do to one contact. */
+export interface PlannedChange {
+  action: 'create' | 'update' | 'delete' | 'link' | 'unlink' | 'conflict';
+  /** Where the change is made; links, unlinks and conflicts concern both copies */
+  side: 'local' | 'remote' | 'both';
+  /** Local contact ID, absent for a contact the pull would import */
+  contactId?: string;
+  /** Provider ID, absent for a contact the push would create */
+  remoteId?: string;
+  fullName: string;
+  /** Fields the change sets; for a conflict, how the remote copy differs from the local one */
+  fields: PlannedFieldChange[];
+}
+
+/** A dry run of a sync saved by plan_sync, so exactly that run can be applied later. */
+export interface SyncPlan {
+  id: string;
+  provider: string;
+  createdAt: string;
+  options: Omit<SyncOptions, 'dryRun'>;
+  changes: PlannedChange[];
+  /** Counts, review list and errors of the dry run */
+  result: SyncResult;
+}
+
+/** The fields that turn `before` into `after`; a contact being created starts out blank. */
+export function fieldChanges(before: Contact | null, after: Contact): PlannedFieldChange[] {
+  const blank = createContact({ id: after.id, fullName: '' });
+  return diffContacts(before ?? blank, after).map(d => ({ field: d.field, from: d.localValue, to: d.remoteValue }));
+}
+
+/** Whether two plans make the same changes, in any order. */
+export function sameChanges(a: PlannedChange[], b: PlannedChange[]): boolean {
+  const key = (changes: PlannedChange[]) => changes.map(c => JSON.stringify(c)).sort().join('\n');
+  return key(a) === key(b);
+}
+
+/** Saved sync plans waiting to be applied, one JSON file each in .metadata/plans/. */
+export class PlanStore {
+  private storePath: string;
+  private dir: string;
+
+  constructor(storePath: string) {
+    this.storePath = storePath;
+    this.dir = path.join(storePath, METADATA_DIR, PLANS_DIR);
+  }
+
+  async get(id: string): Promise<SyncPlan> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf-8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') throw new StoreError(`Sync plan not found: ${id}`);
+      throw err;
+    }
+  }
+
+  async save(plan: SyncPlan): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.filePath(plan.id), JSON.stringify(plan, null, 2), 'utf-8');
+  }
+
+  async remove(id: string): Promise<void> {
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  private filePath(id: string): string {
+    if (id.includes('/') || id.includes('\\')) throw new StoreError(`Invalid plan id: ${id}`);
+    return planPath(this.storePath, id);
+  }
+}
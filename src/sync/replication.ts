@@ -0,0 +1,149 @@
+import type { Contact } from '../types/index.js';
+import type { GitContactStore } from '../store/index.js';
+import { CONTACTS_DIR, extractIdFromPath } from '../store/file-layout.js';
+import { replacementFields } from '../contacts/model.js';
+import { expandTilde } from '../config.js';
+import { logger, StoreError } from '../utils/index.js';
+import { ConflictQueue } from './conflict-queue.js';
+import { hasChanges } from './diff.js';
+import { installMergeDriver, MERGE_REMOTE_ENV } from './merge-driver.js';
+import { resolveFieldConflicts, type MergeSide } from './three-way.js';
+
+/** A git remote holding another copy of the store, e.g. a bare repo on a server or a shared drive. */
+export interface RemoteConfig {
+  /** Anything `git remote add` accepts: a path, ssh or https URL */
+  url: string;
+  /** Default 'origin' */
+  name?: string;
+  /** Default: the store's current branch */
+  branch?: string;
+}
+
+export interface PullResult {
+  remote: string;
+  branch: string;
+  /** 'empty' when the remote has no commits on the branch yet */
+  status: 'up-to-date' | 'fast-forward' | 'merged' | 'empty';
+  /** Contacts added, changed or archived by the pull */
+  changedContacts: number;
+  /** IDs of the conflicts queued for resolve_conflict */
+  conflicts: string[];
+}
+
+/**
+ * Pushes the store to a git remote and pulls others' commits from it, so
+ * copies of the store on several machines converge. Contact vCards changed on
+ * both sides are merged field by field by the vCard merge driver; fields
+ * changed differently on both sides keep this store's value and are queued
+ * for resolve_conflict instead of leaving conflict markers in the files.
+ */
+export class StoreReplicator {
+  private store: GitContactStore;
+  private remote: RemoteConfig;
+
+  constructor(store: GitContactStore, remote: RemoteConfig) {
+    this.store = store;
+    this.remote = remote;
+  }
+
+  async pull(): Promise<PullResult> {
+    return this.store.exclusive(async () => {
+      const git = this.store.gitOps;
+      const { name, branch } = await this.prepare();
+      const startedAt = new Date().toISOString();
+      if (!await git.fetch(name, branch)) {
+        return { remote: name, branch, status: 'empty', changedContacts: 0, conflicts: [] };
+      }
+
+      const before = await git.head();
+      const { conflicts: unmerged } = await git.merge(
+        `${name}/${branch}`,
+        `Merge contacts from ${name}/${branch}`,
+        { [MERGE_REMOTE_ENV]: name },
+      );
+      const queue = new ConflictQueue(this.store.path);
+      const queued = (await queue.list())
+        .filter(c => c.source === 'pull' && c.provider === name && c.detectedAt >= startedAt);
+      if (unmerged.length > 0) {
+        // The merge was aborted, so the conflicts the merge driver queued for it are moot
+        for (const conflict of queued) await queue.remove(conflict.id);
+        throw new StoreError(`Pull from ${name} stopped, nothing was merged: ${unmerged.join(', ')} can't be merged automatically. `
+          + `Merge ${name}/${branch} by hand in ${this.store.path}`);
+      }
+
+      const after = await git.head();
+      if (after === before) return { remote: name, branch, status: 'up-to-date', changedContacts: 0, conflicts: [] };
+
+      const changed = new Set((await git.changedFiles(before, after, CONTACTS_DIR)).map(f => extractIdFromPath(f.path)));
+      const conflicts = queued.map(c => c.id);
+      // A fast-forward moves HEAD to the remote's commit; anything else made a merge commit
+      const fastForward = after === await git.resolve(`${name}/${branch}`);
+      logger.info(`Pulled ${changed.size} changed contact(s) from ${name}/${branch}`);
+      return {
+        remote: name,
+        branch,
+        status: fastForward ? 'fast-forward' : 'merged',
+        changedContacts: changed.size,
+        conflicts,
+      };
+    });
+  }
+
+  /** Push the store's commits; refused when the remote has commits this store hasn't pulled. */
+  async push(): Promise<{ remote: string; branch: string; head: string }> {
+    return this.store.exclusive(async () => {
+      const git = this.store.gitOps;
+      const { name, branch } = await this.prepare();
+      try {
+        await git.push(name, branch);
+      } catch (err: any) {
+        if (/rejected|non-fast-forward|fetch first/.test(err.message)) {
+          throw new StoreError(`${name}/${branch} has changes this store doesn't have yet; pull_store first`);
+        }
+        throw err;
+      }
+      return { remote: name, branch, head: await git.head() };
+    });
+  }
+
+  private async prepare(): Promise<{ name: string; branch: string }> {
+    const git = this.store.gitOps;
+    const name = this.remote.name ?? 'origin';
+    await git.setRemote(name, expandTilde(this.remote.url));
+    await installMergeDriver(git);
+    return { name, branch: this.remote.branch ?? await git.currentBranch() };
+  }
+}
+
+/**
+ * Settle a conflict queued by pull_store: the picked values are written to
+ * the local store, and reach the remote with the next push_store.
+ */
+export async function resolvePullConflict(
+  store: GitContactStore,
+  conflictId: string,
+  picks: Record<string, MergeSide>,
+  fallback?: MergeSide,
+): Promise<Contact> {
+  const queue = new ConflictQueue(store.path);
+  const conflict = await queue.get(conflictId);
+  if (conflict.source !== 'pull') throw new StoreError(`Conflict ${conflictId} is from sync, not pull_store`);
+
+  const unpicked = conflict.conflicts.map(c => c.field).filter(field => !picks[field] && !fallback);
+  if (unpicked.length > 0) {
+    throw new StoreError(`No pick for conflicting field(s): ${unpicked.join(', ')}`);
+  }
+
+  const current = await store.get(conflict.contactId);
+  if (hasChanges(current, conflict.merged)) {
+    throw new StoreError(`Contact ${conflict.contactId} changed since the conflict was recorded; edit it directly instead`);
+  }
+
+  const winners = Object.fromEntries(conflict.conflicts.map(c => [c.field, picks[c.field] ?? fallback!]));
+  const resolved = resolveFieldConflicts({ contact: conflict.merged, conflicts: conflict.conflicts }, winners);
+  const updated = await store.update(conflict.contactId, replacementFields(resolved));
+  await queue.remove(conflictId);
+
+  logger.info(`Resolved pull conflict ${conflictId}`);
+  return updated;
+}
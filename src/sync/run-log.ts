@@ -0,0 +1,42 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ScheduledRun } from '../types/index.js';
+import { runLogPath } from '../store/file-layout.js';
+import { logger } from '../utils/index.js';
+
+/** Runs kept per provider; older ones are dropped. */
+const MAX_RUNS = 100;
+
+/** History of scheduled sync runs, one JSON file per provider in .metadata/runs/, newest last. */
+export class RunLog {
+  private storePath: string;
+
+  constructor(storePath: string) {
+    this.storePath = storePath;
+  }
+
+  async list(provider: string): Promise<ScheduledRun[]> {
+    try {
+      return JSON.parse(await fs.readFile(runLogPath(this.storePath, provider), 'utf-8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  async last(provider: string): Promise<ScheduledRun | null> {
+    return (await this.list(provider)).at(-1) ?? null;
+  }
+
+  /** Record a run. An unreadable history is started over rather than failing every later run. */
+  async append(provider: string, run: ScheduledRun): Promise<void> {
+    const previous = await this.list(provider).catch(err => {
+      logger.warn(`Starting a new sync run history for ${provider}, the old one is unreadable:`, err);
+      return [];
+    });
+    const runs = [...previous, run].slice(-MAX_RUNS);
+    const filePath = runLogPath(this.storePath, provider);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(runs, null, 2), 'utf-8');
+  }
+}
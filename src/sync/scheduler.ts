@@ -0,0 +1,201 @@
+import type { ContactProvider, ProviderConfig, ScheduledRun, SyncSchedule } from '../types/index.js';
+import type { GitContactStore } from '../store/index.js';
+import { SyncEngine } from './engine.js';
+import { RunLog } from './run-log.js';
+import { logger } from '../utils/index.js';
+
+/** Longest delay setTimeout accepts (about 24.8 days); longer waits are taken in steps. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const DIRECTIONS = ['pull', 'push', 'both'];
+const CONFLICT_STRATEGIES = ['local-wins', 'remote-wins', 'newest-wins', 'manual'];
+
+/** Why a schedule from config.json can't be used, or null if it can. */
+export function validateSchedule(schedule: SyncSchedule): string | null {
+  if (typeof schedule.intervalMinutes !== 'number' || !(schedule.intervalMinutes > 0)) {
+    return 'intervalMinutes must be a positive number';
+  }
+  if (schedule.direction !== undefined && !DIRECTIONS.includes(schedule.direction)) {
+    return `direction must be one of ${DIRECTIONS.join(', ')}`;
+  }
+  if (schedule.conflictStrategy !== undefined && !CONFLICT_STRATEGIES.includes(schedule.conflictStrategy)) {
+    return `conflictStrategy must be one of ${CONFLICT_STRATEGIES.join(', ')}`;
+  }
+  if (schedule.quietHours !== undefined && !parseQuietHours(schedule.quietHours)) {
+    return `quietHours must look like "22:00-07:00", got "${schedule.quietHours}"`;
+  }
+  return null;
+}
+
+/** Start and end of "HH:MM-HH:MM" in minutes after midnight. */
+function parseQuietHours(value: string): { start: number; end: number } | null {
+  const match = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number);
+  if (startHour > 23 || endHour > 23 || startMinute > 59 || endMinute > 59) return null;
+  return { start: startHour * 60 + startMinute, end: endHour * 60 + endMinute };
+}
+
+/**
+ * When a provider's next scheduled run is due: an interval after the last one
+ * started, or right away if that has passed or there was none. A time inside
+ * quiet hours moves to the end of them.
+ */
+export function nextRunTime(schedule: SyncSchedule, lastRun: ScheduledRun | null, now: Date): Date {
+  const due = lastRun ? new Date(new Date(lastRun.startedAt).getTime() + schedule.intervalMinutes * 60_000) : now;
+  const next = due < now ? now : due;
+
+  const quiet = schedule.quietHours ? parseQuietHours(schedule.quietHours) : null;
+  if (!quiet || quiet.start === quiet.end) return next;
+
+  const minute = next.getHours() * 60 + next.getMinutes();
+  const inQuietHours = quiet.start < quiet.end
+    ? minute >= quiet.start && minute < quiet.end
+    : minute >= quiet.start || minute < quiet.end;
+  if (!inQuietHours) return next;
+
+  const end = new Date(next);
+  end.setHours(Math.floor(quiet.end / 60), quiet.end % 60, 0, 0);
+  if (end <= next) end.setDate(end.getDate() + 1);
+  return end;
+}
+
+/**
+ * Runs each provider's `schedule` from config.json in the background. The next
+ * run is only timed once the previous one finished, so runs for a provider
+ * never overlap, and each run holds the store lock throughout. Every run is
+ * recorded in the provider's run history.
+ */
+export class SyncScheduler {
+  private store: GitContactStore;
+  private providers: ProviderConfig[];
+  private createProvider: (config: ProviderConfig) => ContactProvider | null;
+  private log: RunLog;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private running = new Set<string>();
+  private stopped = false;
+
+  constructor(
+    store: GitContactStore,
+    providers: ProviderConfig[],
+    createProvider: (config: ProviderConfig) => ContactProvider | null,
+  ) {
+    this.store = store;
+    this.providers = providers;
+    this.createProvider = createProvider;
+    this.log = new RunLog(store.path);
+  }
+
+  /**
+   * Time the first run of every enabled provider with a valid schedule. A
+   * provider that can't be scheduled is logged and doesn't hold up the others.
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    for (const config of this.providers) {
+      if (config.enabled === false || !config.schedule) continue;
+      const problem = validateSchedule(config.schedule);
+      if (problem) {
+        logger.error(`Not scheduling sync for ${config.name}: ${problem}`);
+        continue;
+      }
+      try {
+        await this.scheduleNext(config);
+      } catch (err) {
+        logger.error(`Not scheduling sync for ${config.name}:`, err);
+      }
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  /** Run a provider's scheduled sync now. Skipped if one is still running for it. */
+  async run(config: ProviderConfig): Promise<ScheduledRun> {
+    const startedAt = new Date().toISOString();
+    if (this.running.has(config.name)) {
+      const skipped: ScheduledRun = {
+        startedAt,
+        finishedAt: startedAt,
+        status: 'skipped',
+        errors: ['The previous run is still in progress'],
+      };
+      await this.log.append(config.name, skipped);
+      return skipped;
+    }
+
+    this.running.add(config.name);
+    try {
+      const run = await this.sync(config, startedAt);
+      await this.log.append(config.name, run);
+      logger.info(`Scheduled sync of ${config.name}: ${run.status}`, ...run.errors);
+      return run;
+    } finally {
+      this.running.delete(config.name);
+    }
+  }
+
+  private async sync(config: ProviderConfig, startedAt: string): Promise<ScheduledRun> {
+    const schedule = config.schedule!;
+    const failed = (message: string): ScheduledRun => ({
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      status: 'failed',
+      errors: [message],
+    });
+
+    try {
+      const provider = this.createProvider(config);
+      if (!provider) return failed(`Unknown provider type: ${config.type}`);
+      if (!await provider.isConfigured()) {
+        return failed(`Provider "${config.name}" (${config.type}) is not properly configured or accessible`);
+      }
+      const result = await new SyncEngine(this.store).sync(provider, {
+        direction: schedule.direction ?? 'both',
+        conflictStrategy: schedule.conflictStrategy ?? 'newest-wins',
+        dryRun: false,
+        deleteThreshold: schedule.deleteThreshold,
+        filter: config.filter,
+      });
+      const { pulled, pushed, conflicts, deleted, linked, unlinked } = result;
+      return {
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        status: result.errors.length > 0 ? 'failed' : 'ok',
+        result: { pulled, pushed, conflicts, deleted, linked, unlinked, review: result.review.length },
+        errors: result.errors,
+      };
+    } catch (err: any) {
+      return failed(err.message);
+    }
+  }
+
+  private async scheduleNext(config: ProviderConfig): Promise<void> {
+    if (this.stopped) return;
+
+    const next = nextRunTime(config.schedule!, await this.lastRun(config.name), new Date());
+    const delay = Math.max(0, next.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      const step = delay > MAX_TIMER_MS ? Promise.resolve() : this.run(config);
+      step
+        .then(() => this.scheduleNext(config))
+        .catch(err => logger.error(`Scheduled sync of ${config.name} stopped:`, err));
+    }, Math.min(delay, MAX_TIMER_MS));
+    // Don't keep the process alive just for the next run
+    timer.unref();
+    this.timers.set(config.name, timer);
+  }
+
+  /** The provider's latest recorded run. An unreadable run history counts as no run yet. */
+  private async lastRun(provider: string): Promise<ScheduledRun | null> {
+    try {
+      return await this.log.last(provider);
+    } catch (err) {
+      logger.error(`Could not read the sync run history of ${provider}, running it as if new:`, err);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import type { Contact } from '../types/index.js';
+import { diffContacts, type ContactField } from './diff.js';
+
+export interface FieldConflict {
+  field: ContactField;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface ThreeWayMerge {
+  /** Local contact with every non-conflicting remote change applied; conflicting fields keep the local value */
+  contact: Contact;
+  localChanges: ContactField[];
+  remoteChanges: ContactField[];
+  conflicts: FieldConflict[];
+}
+
+/** Contact fields holding lists, which are merged element by element. */
+type ListField = { [F in ContactField]: Contact[F] extends unknown[] ? F : never }[ContactField];
+type ListItem<F extends ListField> = Contact[F][number];
+
+/**
+ * How elements of list fields are matched between versions. An element whose
+ * key exists on both sides but differs was edited; a missing key was added or removed.
+ */
+const LIST_KEYS: { [F in ListField]: (item: ListItem<F>) => string } = {
+  emails: e => e.value.toLowerCase(),
+  phones: p => p.value,
+  addresses: a => [a.street, a.city, a.state, a.postalCode, a.country].join('|').toLowerCase(),
+  urls: u => u.value,
+  ims: im => im.value.toLowerCase(),
+  socialProfiles: sp => sp.value,
+  related: r => r.value,
+  languages: l => l.toLowerCase(),
+  categories: c => c.toLowerCase(),
+  extraProperties: x => JSON.stringify(x),
+};
+
+/**
+ * Merge local and remote edits made since `base`, the last version both sides
+ * agreed on. A field changed on one side takes that side's value; list fields
+ * changed on both sides are merged element by element. Only a field (or list
+ * element) changed differently on both sides is a conflict.
+ *
+ * `fields` limits which remote changes are considered, for providers that
+ * don't carry every field: a missing value there isn't a deletion.
+ */
+export function mergeThreeWay(
+  base: Contact,
+  local: Contact,
+  remote: Contact,
+  fields?: readonly string[],
+): ThreeWayMerge {
+  const localChanges = diffContacts(base, local).map(d => d.field);
+  const remoteChanges = diffContacts(base, remote)
+    .map(d => d.field)
+    .filter(field => !fields || fields.includes(field));
+
+  const contact = structuredClone(local);
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of remoteChanges) {
+    const [baseValue, localValue, remoteValue] = [base[field], local[field], remote[field]];
+
+    if (!localChanges.includes(field) || same(localValue, remoteValue)) {
+      setField(contact, field, structuredClone(remoteValue));
+      continue;
+    }
+
+    if (isListField(field)) {
+      const merged = mergeListField(field, base[field], local[field], remote[field], 'local');
+      setList(contact, field, merged.items);
+      if (!merged.conflict) continue;
+    }
+    conflicts.push({ field, base: baseValue, local: localValue, remote: remoteValue });
+  }
+
+  return { contact, localChanges, remoteChanges, conflicts };
+}
+
+export type MergeSide = 'local' | 'remote';
+
+/**
+ * Settle the conflicts of a merge, keeping all other merged changes. `winner`
+ * is one side for every field or a pick per field (unpicked fields keep local).
+ * List fields with a base only take the winning side's conflicting elements;
+ * without a base the whole field is taken.
+ */
+export function resolveFieldConflicts(
+  merge: Pick<ThreeWayMerge, 'contact' | 'conflicts'>,
+  winner: MergeSide | Record<string, MergeSide>,
+): Contact {
+  const contact = structuredClone(merge.contact);
+  for (const conflict of merge.conflicts) {
+    const side = typeof winner === 'string' ? winner : winner[conflict.field] ?? 'local';
+    // Conflict values are untyped once queued; they hold whatever `field` held
+    const { field, base, local, remote } = conflict;
+    if (isListField(field) && base !== undefined) {
+      const [b, l, r] = [base, local, remote] as ListItem<typeof field>[][];
+      setList(contact, field, mergeListField(field, b, l, r, side).items);
+    } else {
+      setField(contact, field, structuredClone(side === 'local' ? local : remote) as Contact[typeof field]);
+    }
+  }
+  return contact;
+}
+
+/** Fields that differ between two contacts, limited to `fields` when given. */
+export function differingFields(a: Contact, b: Contact, fields?: readonly string[]): string[] {
+  return diffContacts(a, b)
+    .map(d => d.field)
+    .filter(field => !fields || fields.includes(field));
+}
+
+function isListField(field: ContactField): field is ListField {
+  return field in LIST_KEYS;
+}
+
+function setField<F extends ContactField>(contact: Contact, field: F, value: Contact[F]): void {
+  contact[field] = value;
+}
+
+function setList<F extends ListField>(contact: Record<F, ListItem<F>[]>, field: F, items: ListItem<F>[]): void {
+  contact[field] = items;
+}
+
+/** Merge one list field using that field's element key. */
+function mergeListField<F extends ListField>(
+  field: F,
+  base: ListItem<F>[],
+  local: ListItem<F>[],
+  remote: ListItem<F>[],
+  prefer: MergeSide,
+): { items: ListItem<F>[]; conflict: boolean } {
+  const key: (item: ListItem<F>) => string = LIST_KEYS[field];
+  return mergeList(base, local, remote, key, prefer);
+}
+
+function mergeList<T>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  key: (item: T) => string,
+  prefer: MergeSide,
+): { items: T[]; conflict: boolean } {
+  const byKey = (items: T[]) => new Map(items.map(item => [key(item), item]));
+  const [b, l, r] = [byKey(base), byKey(local), byKey(remote)];
+
+  let conflict = false;
+  const items: T[] = [];
+  // Local order first, then elements only the remote has
+  for (const k of new Set([...l.keys(), ...r.keys()])) {
+    const [baseItem, localItem, remoteItem] = [b.get(k), l.get(k), r.get(k)];
+    let item: T | undefined;
+    if (same(localItem, baseItem)) {
+      item = remoteItem;
+    } else if (same(remoteItem, baseItem) || same(localItem, remoteItem)) {
+      item = localItem;
+    } else {
+      conflict = true;
+      item = prefer === 'local' ? localItem : remoteItem;
+    }
+    if (item !== undefined) items.push(structuredClone(item));
+  }
+
+  return { items, conflict };
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
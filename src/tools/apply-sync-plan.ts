@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import type { AppConfig } from '../config.js';
+import { SyncEngine } from '../sync/engine.js';
+import { PlanStore } from '../sync/plan.js';
+import { openProvider, syncMessage } from './sync.js';
+
+export function registerApplySyncPlanTool(server: McpServer, store: GitContactStore, config?: AppConfig): void {
+  server.registerTool('apply_sync_plan', {
+    description: 'Run a sync previewed with plan_sync. Refused if the sync would no longer make exactly the planned changes '
+      + 'because contacts changed locally or on the provider since; plan again in that case.',
+    inputSchema: {
+      id: z.string().describe('Plan ID returned by plan_sync'),
+    },
+  }, async ({ id }) => {
+    try {
+      const plan = await new PlanStore(store.path).get(id);
+      const opened = await openProvider(plan.provider, config);
+      if ('error' in opened) return opened.error;
+
+      const result = await new SyncEngine(store).applyPlan(opened.provider, id);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result, planId: id, message: syncMessage(result, false) }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import { toGroupSummary } from '../types/index.js';
+
+export function registerCreateGroupTool(server: McpServer, store: GitContactStore): void {
+  server.registerTool('create_group', {
+    description: 'Create a named contact group, optionally with initial members. Returns the new group.',
+    inputSchema: {
+      name: z.string().describe('Group name'),
+      description: z.string().optional(),
+      memberIds: z.array(z.string()).optional().describe('Contact IDs to add'),
+    },
+  }, async ({ name, description, memberIds }) => {
+    try {
+      const group = await store.createGroup({ name, description, memberIds });
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...toGroupSummary(group), message: 'Group created successfully' }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
@@ -23,6 +23,28 @@ const addressSchema = z.object({
   type: z.enum(['home', 'work', 'other']).optional(),
 });
 
+const imSchema = z.object({
+  value: z.string().describe('Handle, e.g. jane@jabber.org'),
+  service: z.string().optional().describe('e.g. xmpp, skype, telegram'),
+  type: z.enum(['home', 'work', 'other']).optional(),
+});
+
+const socialProfileSchema = z.object({
+  value: z.string().describe('Profile URL'),
+  service: z.string().optional().describe('e.g. twitter, linkedin, github'),
+  username: z.string().optional(),
+});
+
+const relatedSchema = z.object({
+  value: z.string().describe('Name, or urn:uuid:<contact id> to link another contact'),
+  type: z.string().optional().describe('e.g. spouse, child, parent, assistant, manager, friend'),
+});
+
+const genderSchema = z.object({
+  sex: z.enum(['M', 'F', 'O', 'N', 'U']).optional().describe('Male, Female, Other, None, Unknown'),
+  identity: z.string().optional(),
+});
+
 export function registerCreateTool(server: McpServer, store: GitContactStore): void {
   server.registerTool('create_contact', {
     description: 'Create a new contact. At minimum, provide a full name. Returns the new contact.',
@@ -30,6 +52,9 @@ export function registerCreateTool(server: McpServer, store: GitContactStore): v
       fullName: z.string().describe('Full display name'),
       givenName: z.string().optional(),
       familyName: z.string().optional(),
+      phoneticGivenName: z.string().optional(),
+      phoneticFamilyName: z.string().optional(),
+      nickname: z.string().optional(),
       emails: z.array(emailSchema).optional(),
       phones: z.array(phoneSchema).optional(),
       addresses: z.array(addressSchema).optional(),
@@ -39,6 +64,11 @@ export function registerCreateTool(server: McpServer, store: GitContactStore): v
         department: z.string().optional(),
       }).optional(),
       birthday: z.string().optional().describe('YYYY-MM-DD format'),
+      ims: z.array(imSchema).optional(),
+      socialProfiles: z.array(socialProfileSchema).optional(),
+      related: z.array(relatedSchema).optional(),
+      gender: genderSchema.optional(),
+      languages: z.array(z.string()).optional().describe('Language tags, most preferred first (e.g. en, fr-CA)'),
       notes: z.string().optional(),
       categories: z.array(z.string()).optional(),
     },
@@ -48,12 +78,20 @@ export function registerCreateTool(server: McpServer, store: GitContactStore): v
       name: {
         givenName: args.givenName,
         familyName: args.familyName,
+        phoneticGivenName: args.phoneticGivenName,
+        phoneticFamilyName: args.phoneticFamilyName,
       },
+      nickname: args.nickname,
       emails: args.emails,
       phones: args.phones,
       addresses: args.addresses,
       organization: args.organization,
       birthday: args.birthday,
+      ims: args.ims,
+      socialProfiles: args.socialProfiles,
+      related: args.related,
+      gender: args.gender,
+      languages: args.languages,
       notes: args.notes,
       categories: args.categories,
     });
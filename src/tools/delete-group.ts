@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+
+export function registerDeleteGroupTool(server: McpServer, store: GitContactStore): void {
+  server.registerTool('delete_group', {
+    description: 'Delete a contact group. Member contacts are not affected. Can be restored via rollback.',
+    inputSchema: {
+      id: z.string().describe('Group ID'),
+    },
+  }, async ({ id }) => {
+    try {
+      await store.deleteGroup(id);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ id, message: 'Group deleted. Use rollback to restore.' }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
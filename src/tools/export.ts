@@ -2,7 +2,7 @@ import { z } from 'zod';
 import * as fs from 'node:fs/promises';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { GitContactStore } from '../store/index.js';
-import { contactToVCard, searchContacts } from '../contacts/index.js';
+import { contactToVCard } from '../contacts/index.js';
 
 export function registerExportTool(server: McpServer, store: GitContactStore): void {
   server.registerTool('export_contacts', {
@@ -10,7 +10,7 @@ export function registerExportTool(server: McpServer, store: GitContactStore): v
     inputSchema: {
       format: z.enum(['vcf', 'csv', 'json']).describe('Export format'),
       outputPath: z.string().describe('File path to write to'),
-      filter: z.string().optional().describe('Optional search query to filter which contacts to export'),
+      filter: z.string().optional().describe('Optional search query (same syntax as search_contacts, e.g. "category:investor -has:email")'),
       includeArchived: z.boolean().optional().default(false),
     },
   }, async ({ format, outputPath, filter, includeArchived }) => {
@@ -18,7 +18,7 @@ export function registerExportTool(server: McpServer, store: GitContactStore): v
       let contacts = await store.list(includeArchived);
 
       if (filter) {
-        const summaries = searchContacts(contacts, filter, contacts.length);
+        const summaries = await store.search(filter, contacts.length, includeArchived);
         const ids = new Set(summaries.map(s => s.id));
         contacts = contacts.filter(c => ids.has(c.id));
       }
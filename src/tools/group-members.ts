@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import { toGroupSummary } from '../types/index.js';
+
+export function registerGroupMembersTool(server: McpServer, store: GitContactStore): void {
+  server.registerTool('update_group_members', {
+    description: 'Add and/or remove contacts from a group. Adding an existing member or removing a non-member is a no-op.',
+    inputSchema: {
+      id: z.string().describe('Group ID'),
+      add: z.array(z.string()).optional().describe('Contact IDs to add'),
+      remove: z.array(z.string()).optional().describe('Contact IDs to remove'),
+    },
+  }, async ({ id, add, remove }) => {
+    try {
+      let group = await store.getGroup(id);
+      if (add?.length) group = await store.addGroupMembers(id, add);
+      if (remove?.length) group = await store.removeGroupMembers(id, remove);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...toGroupSummary(group), memberIds: group.memberIds }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
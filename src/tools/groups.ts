@@ -0,0 +1,25 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import { toGroupSummary } from '../types/index.js';
+
+export function registerGroupsTool(server: McpServer, store: GitContactStore): void {
+  server.registerTool('list_groups', {
+    description: 'List contact groups with their IDs, descriptions and member counts.',
+    inputSchema: {},
+  }, async () => {
+    try {
+      const groups = await store.listGroups();
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ count: groups.length, groups: groups.map(toGroupSummary) }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
@@ -2,7 +2,7 @@ import { z } from 'zod';
 import * as fs from 'node:fs/promises';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { GitContactStore } from '../store/index.js';
-import { vcardToContact } from '../contacts/index.js';
+import { vcardToContact, splitVCards } from '../contacts/index.js';
 import { findDuplicates } from '../contacts/index.js';
 import type { Contact } from '../types/index.js';
 
@@ -83,27 +83,3 @@ export function registerImportTool(server: McpServer, store: GitContactStore): v
     }
   });
 }
-
-/** Split a multi-contact vCard file into individual vCard strings. */
-function splitVCards(raw: string): string[] {
-  const cards: string[] = [];
-  const lines = raw.split(/\r?\n/);
-  let current: string[] = [];
-  let inCard = false;
-
-  for (const line of lines) {
-    if (line.toUpperCase().startsWith('BEGIN:VCARD')) {
-      inCard = true;
-      current = [line];
-    } else if (line.toUpperCase().startsWith('END:VCARD')) {
-      current.push(line);
-      if (inCard) cards.push(current.join('\r\n'));
-      inCard = false;
-      current = [];
-    } else if (inCard) {
-      current.push(line);
-    }
-  }
-
-  return cards;
-}
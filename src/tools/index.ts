@@ -11,9 +11,22 @@ import { registerMergeTool } from './merge.js';
 import { registerImportTool } from './import.js';
 import { registerExportTool } from './export.js';
 import { registerSyncTool } from './sync.js';
+import { registerPlanSyncTool } from './plan-sync.js';
+import { registerApplySyncPlanTool } from './apply-sync-plan.js';
+import { registerResolveConflictTool } from './resolve-conflict.js';
 import { registerProvidersTool } from './providers.js';
 import { registerRollbackTool } from './rollback.js';
 import { registerHistoryTool } from './history.js';
+import { registerLinkTool } from './link.js';
+import { registerUnlinkTool } from './unlink.js';
+import { registerRelatedTool } from './related.js';
+import { registerGroupsTool } from './groups.js';
+import { registerCreateGroupTool } from './create-group.js';
+import { registerUpdateGroupTool } from './update-group.js';
+import { registerDeleteGroupTool } from './delete-group.js';
+import { registerGroupMembersTool } from './group-members.js';
+import { registerPushStoreTool } from './push-store.js';
+import { registerPullStoreTool } from './pull-store.js';
 
 export function registerAllTools(server: McpServer, store: GitContactStore, config?: AppConfig): void {
   registerSearchTool(server, store);
@@ -26,7 +39,20 @@ export function registerAllTools(server: McpServer, store: GitContactStore, conf
   registerImportTool(server, store);
   registerExportTool(server, store);
   registerSyncTool(server, store, config);
+  registerPlanSyncTool(server, store, config);
+  registerApplySyncPlanTool(server, store, config);
+  registerResolveConflictTool(server, store, config);
   registerProvidersTool(server, store, config);
   registerRollbackTool(server, store);
   registerHistoryTool(server, store);
+  registerLinkTool(server, store);
+  registerUnlinkTool(server, store);
+  registerRelatedTool(server, store);
+  registerGroupsTool(server, store);
+  registerCreateGroupTool(server, store);
+  registerUpdateGroupTool(server, store);
+  registerDeleteGroupTool(server, store);
+  registerGroupMembersTool(server, store);
+  registerPushStoreTool(server, store, config);
+  registerPullStoreTool(server, store, config);
 }
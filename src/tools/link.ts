@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+
+export function registerLinkTool(server: McpServer, store: GitContactStore): void {
+  server.registerTool('link_contacts', {
+    description: 'Link two stored contacts: records that the second contact is the first one\'s <type> '
+      + '(e.g. fromId=Alice, toId=Bob, type=manager means Bob is Alice\'s manager). '
+      + 'The link is visible from both sides; Bob sees Alice as a "report".',
+    inputSchema: {
+      fromId: z.string().describe('Contact the relationship belongs to'),
+      toId: z.string().describe('Contact being referenced'),
+      type: z.string().optional()
+        .describe('Relationship, e.g. manager, assistant, spouse, parent, child, sibling, friend, colleague, introduced-by'),
+    },
+  }, async ({ fromId, toId, type }) => {
+    try {
+      const contact = await store.link(fromId, toId, type);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            id: contact.id,
+            related: contact.related,
+            message: `Linked ${contact.fullName} to ${toId}${type ? ` as ${type}` : ''}`,
+          }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import type { AppConfig } from '../config.js';
+import { SyncEngine, DEFAULT_DELETE_THRESHOLD } from '../sync/engine.js';
+import { openProvider, syncMessage } from './sync.js';
+
+export function registerPlanSyncTool(server: McpServer, store: GitContactStore, config?: AppConfig): void {
+  server.registerTool('plan_sync', {
+    description: 'Preview a sync with a remote provider without changing anything. Returns a plan listing, per contact, '
+      + 'whether it would be created, updated, linked, deleted or conflicted, on which side, with the field changes. '
+      + 'Apply exactly that plan later with apply_sync_plan.',
+    inputSchema: {
+      provider: z.string().describe('Provider name (e.g., "apple", "google-personal", "fastmail")'),
+      direction: z.enum(['pull', 'push', 'both']).optional().default('both'),
+      conflictStrategy: z.enum(['local-wins', 'remote-wins', 'newest-wins', 'manual']).optional().default('newest-wins'),
+      deleteThreshold: z.number().min(0).max(100).optional()
+        .describe(`Abort if deletions would exceed this % of synced contacts (default ${DEFAULT_DELETE_THRESHOLD})`),
+      links: z.record(z.string(), z.string()).optional()
+        .describe('Remote ID -> local contact ID pairs to link, settling contacts returned for review'),
+      createUnmatched: z.boolean().optional().default(false)
+        .describe('Create contacts returned for review as new contacts instead of holding them back'),
+    },
+  }, async ({ provider: providerName, direction, conflictStrategy, deleteThreshold, links, createUnmatched }) => {
+    const opened = await openProvider(providerName, config);
+    if ('error' in opened) return opened.error;
+
+    const plan = await new SyncEngine(store).plan(opened.provider, {
+      direction,
+      conflictStrategy,
+      deleteThreshold,
+      links,
+      createUnmatched,
+      filter: opened.filter,
+    });
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          ...plan,
+          message: `${syncMessage(plan.result, true)} Apply with apply_sync_plan using id ${plan.id}.`,
+        }, null, 2),
+      }],
+    };
+  });
+}
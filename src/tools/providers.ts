@@ -1,13 +1,17 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { GitContactStore } from '../store/index.js';
 import type { AppConfig } from '../config.js';
-import { AppleProvider } from '../providers/apple.js';
-import { GoogleProvider } from '../providers/google.js';
-import { CardDAVProvider } from '../providers/carddav.js';
+import { providerRegistry } from '../providers/registry.js';
+import { RunLog } from '../sync/run-log.js';
+import { nextRunTime, validateSchedule } from '../sync/scheduler.js';
+import { validateSyncFilter } from '../sync/filter.js';
 
-export function registerProvidersTool(server: McpServer, _store: GitContactStore, config?: AppConfig): void {
+export function registerProvidersTool(server: McpServer, store: GitContactStore, config?: AppConfig): void {
   server.registerTool('list_providers', {
-    description: 'List all configured contact providers and their sync status.',
+    description: 'List all configured contact providers and their sync status, including the last and next scheduled sync run. '
+      + 'Each provider shows what its type supports, its sync filter and any problems with its config. '
+      + 'CardDAV providers also list the address books found on the server and which ones are synced. '
+      + 'Also lists the provider types available, including those added by plugins.',
   }, async () => {
     const providers: any[] = [
       {
@@ -19,30 +23,48 @@ export function registerProvidersTool(server: McpServer, _store: GitContactStore
       },
     ];
 
+    const runLog = new RunLog(store.path);
     for (const cfg of config?.providers ?? []) {
+      const definition = providerRegistry.get(cfg.type);
+      const configErrors = providerRegistry.validate(cfg);
       let configured = false;
-      try {
-        let provider;
-        switch (cfg.type) {
-          case 'apple': provider = new AppleProvider(cfg.name, cfg.config ?? {}); break;
-          case 'google': provider = new GoogleProvider(cfg.name, cfg.config ?? {}); break;
-          case 'carddav': provider = new CardDAVProvider(cfg.name, cfg.config ?? {}); break;
-        }
-        if (provider) configured = await provider.isConfigured();
-      } catch { /* ignore */ }
+      let status: Record<string, unknown> = {};
+      if (definition && configErrors.length === 0) {
+        try {
+          const provider = definition.create(cfg.name, cfg.config ?? {});
+          configured = await provider.isConfigured();
+          if (configured && definition.status) status = await definition.status(provider);
+        } catch { /* ignore */ }
+      }
 
+      const state = await store.readSyncState(cfg.name);
+      const lastRun = await runLog.last(cfg.name);
+      const scheduled = cfg.enabled !== false && cfg.schedule && !validateSchedule(cfg.schedule);
+      const filterError = cfg.filter ? validateSyncFilter(cfg.filter) : null;
       providers.push({
         name: cfg.name,
         type: cfg.type,
         configured,
+        ...(configErrors.length > 0 ? { configErrors } : {}),
+        ...(definition ? { capabilities: definition.capabilities } : {}),
         enabled: cfg.enabled !== false,
+        lastSyncTime: state.lastSyncTime ?? null,
+        syncedContacts: Object.keys(state.bases).length,
+        ...(cfg.schedule ? { schedule: cfg.schedule } : {}),
+        ...(cfg.filter ? { filter: cfg.filter } : {}),
+        ...(filterError ? { filterError } : {}),
+        lastRun,
+        nextRun: scheduled ? nextRunTime(cfg.schedule!, lastRun, new Date()).toISOString() : null,
+        ...status,
       });
     }
 
+    const availableTypes = providerRegistry.list().map(({ type, description, capabilities }) => ({ type, description, capabilities }));
+
     return {
       content: [{
         type: 'text' as const,
-        text: JSON.stringify({ providers }, null, 2),
+        text: JSON.stringify({ providers, availableTypes }, null, 2),
       }],
     };
   });
@@ -0,0 +1,35 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import type { AppConfig } from '../config.js';
+import { StoreReplicator } from '../sync/replication.js';
+
+export function registerPullStoreTool(server: McpServer, store: GitContactStore, config?: AppConfig): void {
+  server.registerTool('pull_store', {
+    description: 'Pull changes other copies of the store pushed to its git remote (see "remote" in config.json) and merge them in. '
+      + 'Contacts edited on both sides are merged field by field; fields changed differently on both sides keep the local value '
+      + 'and are queued in contacts://conflicts for resolve_conflict.',
+  }, async () => {
+    if (!config?.remote) {
+      return {
+        content: [{ type: 'text' as const, text: 'Error: No git remote configured. Add "remote": { "url": "..." } to ~/.contacts-mcp/config.json' }],
+        isError: true,
+      };
+    }
+
+    try {
+      const result = await new StoreReplicator(store, config.remote).pull();
+      const message = result.status === 'empty' || result.status === 'up-to-date'
+        ? `Nothing to pull from ${result.remote}/${result.branch}.`
+        : `Pulled ${result.changedContacts} changed contact(s) from ${result.remote}/${result.branch}.`
+          + (result.conflicts.length > 0 ? ` ${result.conflicts.length} conflict(s) queued; see contacts://conflicts and resolve_conflict.` : '');
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ ...result, message }, null, 2) }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
@@ -0,0 +1,33 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import type { AppConfig } from '../config.js';
+import { StoreReplicator } from '../sync/replication.js';
+
+export function registerPushStoreTool(server: McpServer, store: GitContactStore, config?: AppConfig): void {
+  server.registerTool('push_store', {
+    description: 'Push the store\'s history to its git remote (see "remote" in config.json) for other copies of the store to pull. '
+      + 'Refused when the remote has changes this store hasn\'t pulled yet; run pull_store first.',
+  }, async () => {
+    if (!config?.remote) {
+      return {
+        content: [{ type: 'text' as const, text: 'Error: No git remote configured. Add "remote": { "url": "..." } to ~/.contacts-mcp/config.json' }],
+        isError: true,
+      };
+    }
+
+    try {
+      const result = await new StoreReplicator(store, config.remote).push();
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result, message: `Pushed to ${result.remote}/${result.branch}.` }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
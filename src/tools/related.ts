@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import { buildRelationGraph, traverseRelations } from '../contacts/index.js';
+import { toSummary } from '../types/index.js';
+
+export function registerRelatedTool(server: McpServer, store: GitContactStore): void {
+  server.registerTool('related_contacts', {
+    description: 'Walk the relationship graph from a contact. Returns each reachable contact once, '
+      + 'with its distance and the path of relationships leading to it. Relationship types are read '
+      + 'from the expanding contact\'s side, so types=["report"] with a large depth lists everyone '
+      + 'under a manager, and depth=2 without types lists everyone within two hops.',
+    inputSchema: {
+      id: z.string().describe('Contact UUID to start from'),
+      depth: z.number().int().min(1).max(10).optional().default(1).describe('Maximum hops'),
+      types: z.array(z.string()).optional().describe('Only follow these relationship types (e.g. ["report"])'),
+    },
+  }, async ({ id, depth, types }) => {
+    try {
+      const start = await store.get(id);
+      const contacts = await store.list(false);
+      const byId = new Map(contacts.map(c => [c.id, c]));
+      const graph = buildRelationGraph(contacts);
+
+      const results = traverseRelations(graph, id, { maxDepth: depth, types }).map(r => ({
+        ...toSummary(byId.get(r.contactId)!),
+        depth: r.depth,
+        relationship: r.path[r.path.length - 1].type,
+        path: r.path.map(hop => ({ id: hop.contactId, fullName: byId.get(hop.contactId)!.fullName, type: hop.type })),
+      }));
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ from: toSummary(start), count: results.length, contacts: results }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
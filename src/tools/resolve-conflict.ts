@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import type { AppConfig } from '../config.js';
+import { SyncEngine } from '../sync/engine.js';
+import { ConflictQueue } from '../sync/conflict-queue.js';
+import { resolvePullConflict } from '../sync/replication.js';
+import { providerRegistry } from '../providers/registry.js';
+
+export function registerResolveConflictTool(server: McpServer, store: GitContactStore, config?: AppConfig): void {
+  server.registerTool('resolve_conflict', {
+    description: 'Resolve a queued sync conflict (see contacts://conflicts) by picking local or remote per conflicting field. '
+      + 'The result is written to the local store and pushed to the provider; for conflicts from pull_store, '
+      + 'push_store shares it with the other copies of the store.',
+    inputSchema: {
+      id: z.string().describe('Conflict ID from contacts://conflicts'),
+      picks: z.record(z.enum(['local', 'remote'])).optional().default({})
+        .describe('Side to keep per conflicting field, e.g. { "phones": "remote", "notes": "local" }'),
+      default: z.enum(['local', 'remote']).optional().describe('Side for conflicting fields not listed in picks'),
+    },
+  }, async ({ id, picks, default: fallback }) => {
+    try {
+      const conflict = await new ConflictQueue(store.path).get(id);
+      if (conflict.source === 'pull') {
+        const contact = await resolvePullConflict(store, id, picks, fallback);
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              id: contact.id,
+              fullName: contact.fullName,
+              remote: conflict.provider,
+              message: 'Conflict resolved in the local store; push_store shares it',
+            }, null, 2),
+          }],
+        };
+      }
+
+      const providerCfg = config?.providers?.find(p => p.name === conflict.provider);
+      const provider = providerCfg ? providerRegistry.create(providerCfg) : null;
+      if (!provider) {
+        throw new Error(`Provider "${conflict.provider}" is no longer configured`);
+      }
+
+      const contact = await new SyncEngine(store).resolveQueuedConflict(provider, id, picks, fallback);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            id: contact.id,
+            fullName: contact.fullName,
+            provider: conflict.provider,
+            message: 'Conflict resolved and pushed to both sides',
+          }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
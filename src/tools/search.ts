@@ -1,24 +1,31 @@
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { GitContactStore } from '../store/index.js';
-import { searchContacts } from '../contacts/index.js';
 
 export function registerSearchTool(server: McpServer, store: GitContactStore): void {
   server.registerTool('search_contacts', {
-    description: 'Search contacts across all fields using fuzzy matching. Returns ranked results.',
+    description: 'Search contacts. Free text is fuzzy-matched across all fields; field filters like '
+      + 'org:Acme category:investor -email:*@gmail.com birthday:03-* city:"San Francisco" has:phone '
+      + 'modified:>2025-01-01 can be combined with AND, OR, NOT/- and parentheses. Returns ranked results.',
     inputSchema: {
-      query: z.string().describe('Search query (name, email, phone, org, etc.)'),
+      query: z.string().describe('Free text and/or field filters (e.g. "jane org:Acme -has:email")'),
       limit: z.number().optional().default(20).describe('Maximum results to return'),
       includeArchived: z.boolean().optional().default(false).describe('Include archived/deleted contacts'),
     },
   }, async ({ query, limit, includeArchived }) => {
-    const contacts = await store.list(includeArchived);
-    const results = searchContacts(contacts, query, limit);
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify(results, null, 2),
-      }],
-    };
+    try {
+      const results = await store.search(query, limit, includeArchived);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify(results, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
   });
 }
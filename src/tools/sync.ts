@@ -2,89 +2,113 @@ import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { GitContactStore } from '../store/index.js';
 import type { AppConfig } from '../config.js';
-import { SyncEngine } from '../sync/engine.js';
-import { AppleProvider } from '../providers/apple.js';
-import { GoogleProvider } from '../providers/google.js';
-import { CardDAVProvider } from '../providers/carddav.js';
-import type { ContactProvider } from '../types/index.js';
-import { logger } from '../utils/index.js';
+import { SyncEngine, DEFAULT_DELETE_THRESHOLD } from '../sync/engine.js';
+import { providerRegistry } from '../providers/registry.js';
+import type { ContactProvider, SyncFilter, SyncResult } from '../types/index.js';
+import { ProviderError } from '../utils/index.js';
 
-function createProvider(providerConfig: { name: string; type: string; config?: Record<string, unknown> }): ContactProvider | null {
-  switch (providerConfig.type) {
-    case 'apple':
-      return new AppleProvider(providerConfig.name, providerConfig.config ?? {});
-    case 'google':
-      return new GoogleProvider(providerConfig.name, providerConfig.config ?? {});
-    case 'carddav':
-      return new CardDAVProvider(providerConfig.name, providerConfig.config ?? {});
-    default:
-      logger.error(`Unknown provider type: ${providerConfig.type}`);
-      return null;
+function errorResult(body: Record<string, unknown>) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
+/**
+ * The enabled, configured provider called `providerName` with its sync
+ * filter, or the error result explaining why there isn't one.
+ */
+export async function openProvider(
+  providerName: string,
+  config?: AppConfig,
+): Promise<{ provider: ContactProvider; filter?: SyncFilter } | { error: ReturnType<typeof errorResult> }> {
+  const providerConfigs = config?.providers ?? [];
+  const providerCfg = providerConfigs.find(p => p.name === providerName && p.enabled !== false);
+  if (!providerCfg) {
+    return {
+      error: errorResult({
+        error: `Provider "${providerName}" not found or not enabled.`,
+        configured: providerConfigs.map(p => ({ name: p.name, type: p.type, enabled: p.enabled !== false })),
+        hint: 'Configure providers in ~/.contacts-mcp/config.json',
+      }),
+    };
+  }
+
+  let provider: ContactProvider;
+  try {
+    provider = providerRegistry.create(providerCfg);
+  } catch (err) {
+    if (!(err instanceof ProviderError)) throw err;
+    return {
+      error: errorResult({
+        error: `Provider "${providerName}" (${providerCfg.type}) can't be set up.`,
+        configErrors: providerRegistry.validate(providerCfg),
+        hint: providerRegistry.get(providerCfg.type)
+          ? providerRegistry.setupHint(providerCfg.type)
+          : `Known provider types: ${providerRegistry.list().map(d => d.type).join(', ')}. Others can be added with plugins in ~/.contacts-mcp/config.json`,
+      }),
+    };
+  }
+
+  if (!await provider.isConfigured()) {
+    return {
+      error: errorResult({
+        error: `Provider "${providerName}" (${providerCfg.type}) is not properly configured or accessible.`,
+        hint: providerRegistry.setupHint(providerCfg.type),
+      }),
+    };
   }
+
+  return { provider, filter: providerCfg.filter };
+}
+
+/** One-line summary of a sync result, for tool output. */
+export function syncMessage(result: SyncResult, dryRun: boolean): string {
+  return dryRun
+    ? `Dry run complete. Would pull ${result.pulled}, push ${result.pushed}, link ${result.linked}, `
+      + `archive ${result.deleted.local} locally, delete ${result.deleted.remote} remotely.`
+      + (result.unlinked > 0 ? ` Would unlink ${result.unlinked} contact(s) that no longer match the provider's filter.` : '')
+    : `Sync complete. Pulled ${result.pulled}, pushed ${result.pushed}, linked ${result.linked}, `
+      + `archived ${result.deleted.local} locally, deleted ${result.deleted.remote} remotely.`
+      + (result.unlinked > 0 ? ` Unlinked ${result.unlinked} contact(s) that no longer match the provider's filter.` : '')
+      + (result.conflicts > 0 ? ` ${result.conflicts} conflict(s) queued; see contacts://conflicts and resolve_conflict.` : '')
+      + (result.review.length > 0
+        ? ` ${result.review.length} contact(s) need review; sync again with links or createUnmatched to settle them.`
+        : '');
 }
 
 export function registerSyncTool(server: McpServer, store: GitContactStore, config?: AppConfig): void {
   server.registerTool('sync_provider', {
-    description: 'Synchronize contacts with a remote provider. Pulls new/changed contacts and pushes local changes.',
+    description: 'Synchronize contacts with a remote provider. Pulls new/changed contacts and pushes local changes. '
+      + 'Contacts not linked yet are matched to existing ones by UID, email and phone; uncertain matches are returned for review. '
+      + 'Contacts deleted on the provider are archived locally, and contacts archived locally are deleted on the provider. '
+      + 'Only contacts matching the provider\'s filter in config.json are synced; linked contacts that stop matching are unlinked, not deleted. '
+      + 'Use plan_sync to preview the changes per contact first.',
     inputSchema: {
       provider: z.string().describe('Provider name (e.g., "apple", "google-personal", "fastmail")'),
       direction: z.enum(['pull', 'push', 'both']).optional().default('both'),
       conflictStrategy: z.enum(['local-wins', 'remote-wins', 'newest-wins', 'manual']).optional().default('newest-wins'),
       dryRun: z.boolean().optional().default(false),
+      deleteThreshold: z.number().min(0).max(100).optional()
+        .describe(`Abort if deletions would exceed this % of synced contacts (default ${DEFAULT_DELETE_THRESHOLD})`),
+      links: z.record(z.string(), z.string()).optional()
+        .describe('Remote ID -> local contact ID pairs to link, settling contacts returned for review'),
+      createUnmatched: z.boolean().optional().default(false)
+        .describe('Create contacts returned for review as new contacts instead of holding them back'),
     },
-  }, async ({ provider: providerName, direction, conflictStrategy, dryRun }) => {
-    // Find provider config
-    const providerConfigs = config?.providers ?? [];
-    const providerCfg = providerConfigs.find(
-      p => p.name === providerName && p.enabled !== false
-    );
-
-    if (!providerCfg) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: JSON.stringify({
-            error: `Provider "${providerName}" not found or not enabled.`,
-            configured: providerConfigs.map(p => ({ name: p.name, type: p.type, enabled: p.enabled !== false })),
-            hint: 'Configure providers in ~/.contacts-mcp/config.json',
-          }, null, 2),
-        }],
-        isError: true,
-      };
-    }
-
-    const provider = createProvider(providerCfg);
-    if (!provider) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: JSON.stringify({ error: `Unknown provider type: ${providerCfg.type}` }, null, 2),
-        }],
-        isError: true,
-      };
-    }
-
-    const configured = await provider.isConfigured();
-    if (!configured) {
-      return {
-        content: [{
-          type: 'text' as const,
-          text: JSON.stringify({
-            error: `Provider "${providerName}" (${providerCfg.type}) is not properly configured or accessible.`,
-            hint: providerCfg.type === 'apple'
-              ? 'Ensure macOS Contacts permission is granted in System Settings > Privacy & Security > Contacts.'
-              : 'Check your credentials in ~/.contacts-mcp/config.json',
-          }, null, 2),
-        }],
-        isError: true,
-      };
-    }
+  }, async ({ provider: providerName, direction, conflictStrategy, dryRun, deleteThreshold, links, createUnmatched }) => {
+    const opened = await openProvider(providerName, config);
+    if ('error' in opened) return opened.error;
 
     const engine = new SyncEngine(store);
-    const result = await engine.sync(provider, {
+    const result = await engine.sync(opened.provider, {
       direction,
       conflictStrategy,
       dryRun,
+      deleteThreshold,
+      links,
+      createUnmatched,
+      filter: opened.filter,
     });
 
     return {
@@ -93,9 +117,7 @@ export function registerSyncTool(server: McpServer, store: GitContactStore, conf
         text: JSON.stringify({
           ...result,
           dryRun,
-          message: dryRun
-            ? `Dry run complete. Would pull ${result.pulled}, push ${result.pushed}.`
-            : `Sync complete. Pulled ${result.pulled}, pushed ${result.pushed}.`,
+          message: syncMessage(result, dryRun),
         }, null, 2),
       }],
     };
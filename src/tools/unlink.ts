@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+
+export function registerUnlinkTool(server: McpServer, store: GitContactStore): void {
+  server.registerTool('unlink_contacts', {
+    description: 'Remove links between two contacts, whichever side they were recorded on. '
+      + 'Without a type, every link between them is removed.',
+    inputSchema: {
+      fromId: z.string().describe('First contact'),
+      toId: z.string().describe('Second contact'),
+      type: z.string().optional().describe('Only remove this relationship, as seen from fromId'),
+    },
+  }, async ({ fromId, toId, type }) => {
+    try {
+      const removed = await store.unlink(fromId, toId, type);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ fromId, toId, removed, message: `Removed ${removed} link(s)` }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GitContactStore } from '../store/index.js';
+import { toGroupSummary } from '../types/index.js';
+
+export function registerUpdateGroupTool(server: McpServer, store: GitContactStore): void {
+  server.registerTool('update_group', {
+    description: 'Rename a group or change its description. Use update_group_members to change membership.',
+    inputSchema: {
+      id: z.string().describe('Group ID'),
+      name: z.string().optional().describe('New name'),
+      description: z.string().optional().describe('New description (empty string clears it)'),
+    },
+  }, async ({ id, name, description }) => {
+    try {
+      const group = await store.updateGroup(id, { name, description });
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...toGroupSummary(group), message: 'Group updated successfully' }, null, 2),
+        }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  });
+}
@@ -10,6 +10,9 @@ export function registerUpdateTool(server: McpServer, store: GitContactStore): v
       fullName: z.string().optional(),
       givenName: z.string().optional(),
       familyName: z.string().optional(),
+      phoneticGivenName: z.string().optional(),
+      phoneticFamilyName: z.string().optional(),
+      nickname: z.string().optional(),
       emails: z.array(z.object({
         value: z.string(),
         type: z.enum(['home', 'work', 'other']).optional(),
@@ -34,6 +37,25 @@ export function registerUpdateTool(server: McpServer, store: GitContactStore): v
         department: z.string().optional(),
       }).optional(),
       birthday: z.string().optional(),
+      ims: z.array(z.object({
+        value: z.string(),
+        service: z.string().optional(),
+        type: z.enum(['home', 'work', 'other']).optional(),
+      })).optional(),
+      socialProfiles: z.array(z.object({
+        value: z.string(),
+        service: z.string().optional(),
+        username: z.string().optional(),
+      })).optional(),
+      related: z.array(z.object({
+        value: z.string().describe('Name, or urn:uuid:<contact id> to link another contact'),
+        type: z.string().optional(),
+      })).optional(),
+      gender: z.object({
+        sex: z.enum(['M', 'F', 'O', 'N', 'U']).optional(),
+        identity: z.string().optional(),
+      }).optional(),
+      languages: z.array(z.string()).optional(),
       notes: z.string().optional(),
       categories: z.array(z.string()).optional(),
     },
@@ -41,16 +63,24 @@ export function registerUpdateTool(server: McpServer, store: GitContactStore): v
     try {
       const updates: Record<string, any> = {};
       if (args.fullName !== undefined) updates.fullName = args.fullName;
-      if (args.givenName !== undefined || args.familyName !== undefined) {
+      const nameFields = ['givenName', 'familyName', 'phoneticGivenName', 'phoneticFamilyName'] as const;
+      if (nameFields.some(f => args[f] !== undefined)) {
         updates.name = {};
-        if (args.givenName !== undefined) updates.name.givenName = args.givenName;
-        if (args.familyName !== undefined) updates.name.familyName = args.familyName;
+        for (const f of nameFields) {
+          if (args[f] !== undefined) updates.name[f] = args[f];
+        }
       }
+      if (args.nickname !== undefined) updates.nickname = args.nickname;
       if (args.emails !== undefined) updates.emails = args.emails;
       if (args.phones !== undefined) updates.phones = args.phones;
       if (args.addresses !== undefined) updates.addresses = args.addresses;
       if (args.organization !== undefined) updates.organization = args.organization;
       if (args.birthday !== undefined) updates.birthday = args.birthday;
+      if (args.ims !== undefined) updates.ims = args.ims;
+      if (args.socialProfiles !== undefined) updates.socialProfiles = args.socialProfiles;
+      if (args.related !== undefined) updates.related = args.related;
+      if (args.gender !== undefined) updates.gender = args.gender;
+      if (args.languages !== undefined) updates.languages = args.languages;
       if (args.notes !== undefined) updates.notes = args.notes;
       if (args.categories !== undefined) updates.categories = args.categories;
 
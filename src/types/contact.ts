@@ -2,6 +2,7 @@ export interface ContactEmail {
   value: string;
   type?: 'home' | 'work' | 'other';
   primary?: boolean;
+  group?: string;
 }
 
 export interface ContactPhone {
@@ -9,6 +10,7 @@ export interface ContactPhone {
   originalValue?: string;
   type?: 'home' | 'work' | 'mobile' | 'fax' | 'other';
   primary?: boolean;
+  group?: string;
 }
 
 export interface ContactAddress {
@@ -18,6 +20,7 @@ export interface ContactAddress {
   postalCode?: string;
   country?: string;
   type?: 'home' | 'work' | 'other';
+  group?: string;
 }
 
 export interface ContactOrganization {
@@ -32,11 +35,63 @@ export interface ContactName {
   middleName?: string;
   familyName?: string;
   suffix?: string;
+  phoneticGivenName?: string;
+  phoneticMiddleName?: string;
+  phoneticFamilyName?: string;
 }
 
 export interface ContactUrl {
   value: string;
   type?: 'home' | 'work' | 'blog' | 'profile' | 'other';
+  group?: string;
+}
+
+export interface ContactIm {
+  /** Handle without the URI scheme, e.g. "jane@jabber.org" */
+  value: string;
+  /** Service name, e.g. "xmpp", "Skype" */
+  service?: string;
+  type?: 'home' | 'work' | 'other';
+  group?: string;
+}
+
+export interface ContactSocialProfile {
+  /** Profile URL */
+  value: string;
+  /** Service name, e.g. "twitter", "linkedin" */
+  service?: string;
+  username?: string;
+  group?: string;
+}
+
+export interface ContactRelated {
+  /** Free-text name, or a `urn:uuid:` reference to another contact */
+  value: string;
+  /** Relationship, e.g. "spouse", "assistant", "manager" */
+  type?: string;
+  group?: string;
+}
+
+export interface ContactGender {
+  /** vCard sex component: Male, Female, Other, None, Unknown */
+  sex?: 'M' | 'F' | 'O' | 'N' | 'U';
+  /** Free-text gender identity */
+  identity?: string;
+}
+
+/**
+ * A vCard property the model doesn't map, kept verbatim so it survives
+ * being written back (e.g. `item1.X-ABLabel:Partner`, `GEO:geo:37.3,-122.0`).
+ */
+export interface ContactExtraProperty {
+  /** Property group, e.g. "item1" */
+  group?: string;
+  /** Upper-cased property name */
+  name: string;
+  /** Raw parameters as they appeared, e.g. ["TYPE=HOME", "PREF=1"] */
+  params: string[];
+  /** Raw value, still vCard-escaped */
+  value: string;
 }
 
 export interface ContactMetadata {
@@ -52,6 +107,7 @@ export interface Contact {
   id: string;
   fullName: string;
   name: ContactName;
+  nickname?: string;
   emails: ContactEmail[];
   phones: ContactPhone[];
   addresses: ContactAddress[];
@@ -59,9 +115,16 @@ export interface Contact {
   birthday?: string;
   anniversary?: string;
   urls: ContactUrl[];
+  ims: ContactIm[];
+  socialProfiles: ContactSocialProfile[];
+  related: ContactRelated[];
+  gender?: ContactGender;
+  /** Language tags (BCP 47), most preferred first */
+  languages: string[];
   notes?: string;
   categories: string[];
   photo?: string;
+  extraProperties: ContactExtraProperty[];
   metadata: ContactMetadata;
 }
 
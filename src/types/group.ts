@@ -0,0 +1,37 @@
+import type { ContactMetadata } from './contact.js';
+
+/**
+ * A named list of contacts, stored as a vCard with KIND:group and one
+ * MEMBER:urn:uuid:<contact id> per member (RFC 6350 §6.1.4, §6.6.5).
+ */
+export interface ContactGroup {
+  id: string;
+  name: string;
+  description?: string;
+  memberIds: string[];
+  metadata: Omit<ContactMetadata, 'archived'>;
+}
+
+export interface ContactGroupSummary {
+  id: string;
+  name: string;
+  description?: string;
+  memberCount: number;
+}
+
+export function toGroupSummary(group: ContactGroup): ContactGroupSummary {
+  return {
+    id: group.id,
+    name: group.name,
+    description: group.description,
+    memberCount: group.memberIds.length,
+  };
+}
+
+/** A group as a provider sees it, with members identified by provider remote IDs. */
+export interface RemoteGroup {
+  remoteId: string;
+  name: string;
+  description?: string;
+  memberRemoteIds: string[];
+}
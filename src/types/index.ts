@@ -1,4 +1,5 @@
 export * from './contact.js';
+export * from './group.js';
 export * from './provider.js';
 export * from './dedup.js';
 export * from './store.js';
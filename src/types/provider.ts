@@ -1,24 +1,153 @@
-import type { Contact } from './contact.js';
+import type { Contact, ContactSummary } from './contact.js';
+import type { ContactGroup, RemoteGroup } from './group.js';
+import type { MatchedField } from './dedup.js';
+import type { ProviderSyncState } from './store.js';
+
+/** Remote changes since the provider's saved sync token. */
+export interface RemoteChanges {
+  /** Contacts created or modified remotely */
+  changed: Contact[];
+  /** Remote IDs of contacts deleted remotely */
+  deletedIds: string[];
+}
+
+/** A contact as written to the provider: where it lives and its revision afterwards. */
+export interface RemoteRevision {
+  remoteId: string;
+  /** Omitted by providers without revisions (Apple Contacts) */
+  etag?: string;
+}
 
 export interface ContactProvider {
   readonly name: string;
-  readonly type: 'google' | 'apple' | 'carddav' | 'local';
+  readonly type: string;
+  /**
+   * Contact fields (as named by diffContacts) the provider stores. Sync ignores
+   * remote differences in other fields, since the provider can't hold them.
+   * Omit when the provider keeps the whole vCard.
+   */
+  readonly syncFields?: readonly string[];
+  /**
+   * Fill in what the provider has no room for from the linked local contact:
+   * attributes it can't store (an email's type) and values beyond its fixed
+   * slots. Without this, sync would read their absence as a remote deletion.
+   */
+  completeRemote?(remote: Contact, local: Contact): Contact;
+  /**
+   * Related people are stored as names rather than contact references. Sync
+   * writes the name of the contact a reference points at, and reads it back
+   * as the local reference.
+   */
+  readonly relatedAsNames?: boolean;
 
   isConfigured(): Promise<boolean>;
   fetchAll(): Promise<Contact[]>;
+  /**
+   * Only what changed since the last sync, for providers with delta tokens.
+   * Null means the provider has no usable token and the caller should use fetchAll.
+   */
+  fetchChanges?(): Promise<RemoteChanges | null>;
   fetchOne(remoteId: string): Promise<Contact | null>;
-  pushContact(contact: Contact): Promise<string>;
-  updateContact(remoteId: string, contact: Contact): Promise<void>;
+  pushContact(contact: Contact): Promise<RemoteRevision>;
+  /**
+   * Overwrite a remote contact only if it's still at revision `etag`. Throws
+   * PreconditionFailedError if it changed since, or if no etag was given and
+   * the provider has revisions, so the caller can refetch and merge instead.
+   * The remote ID may change (Apple Contacts re-creates the person).
+   */
+  updateContact(remoteId: string, contact: Contact, etag?: string): Promise<RemoteRevision>;
   deleteContact(remoteId: string): Promise<void>;
-  getLastSyncTime(): Promise<string | null>;
-  setLastSyncTime(time: string): Promise<void>;
+  /** Hand the provider its saved state before a sync (tokens, etags, last sync time). */
+  loadSyncState(state: ProviderSyncState): void;
+  /** Tokens to save after a sync. Etags and the sync time are tracked by the engine. */
+  saveSyncState(): Pick<ProviderSyncState, 'syncToken' | 'ctag' | 'collections'>;
+
+  /**
+   * Group support is optional; providers without it have their groups left alone by sync.
+   * Called after fetchAll or fetchChanges, it may leave out groups in collections the
+   * fetch found unchanged; sync leaves those groups as they are.
+   */
+  fetchGroups?(): Promise<RemoteGroup[]>;
+  pushGroup?(group: ContactGroup, memberRemoteIds: string[]): Promise<string>;
+  updateGroup?(remoteId: string, group: ContactGroup, memberRemoteIds: string[]): Promise<void>;
 }
 
 export interface ProviderConfig {
   name: string;
-  type: 'google' | 'apple' | 'carddav' | 'local';
+  /** A built-in provider type or one registered by a plugin */
+  type: string;
   enabled: boolean;
   config: Record<string, unknown>;
+  /** Sync in the background on this schedule while the server runs */
+  schedule?: SyncSchedule;
+  /** Which contacts sync with the provider; all of them when absent */
+  filter?: SyncFilter;
+}
+
+/**
+ * Which contacts a provider syncs, applied in both directions. A contact
+ * syncs if it matches `include` (when given) and doesn't match `exclude`.
+ */
+export interface SyncFilter {
+  include?: SyncFilterRules;
+  exclude?: SyncFilterRules;
+}
+
+/** A contact matches when it matches any one of the rules given. Names are compared case-insensitively. */
+export interface SyncFilterRules {
+  categories?: string[];
+  /** Local groups, or the provider's groups for a remote contact */
+  groups?: string[];
+  organizations?: string[];
+  /** The provider or import a contact came from (`source:` in search queries) */
+  sources?: string[];
+  /** search_contacts query syntax; bare words match names, emails and organizations */
+  query?: string;
+}
+
+export interface SyncSchedule {
+  /** Minutes between the start of one run and the next */
+  intervalMinutes: number;
+  /** Default 'both' */
+  direction?: 'pull' | 'push' | 'both';
+  /** Default 'newest-wins' */
+  conflictStrategy?: 'local-wins' | 'remote-wins' | 'newest-wins' | 'manual';
+  deleteThreshold?: number;
+  /** Local time window without runs, "HH:MM-HH:MM"; may wrap past midnight, e.g. "22:00-07:00" */
+  quietHours?: string;
+}
+
+/** One scheduled sync run, as kept in the provider's run history. */
+export interface ScheduledRun {
+  startedAt: string;
+  finishedAt: string;
+  /** `skipped` when the previous run for the provider was still going */
+  status: 'ok' | 'failed' | 'skipped';
+  result?: Pick<SyncResult, 'pulled' | 'pushed' | 'conflicts' | 'deleted' | 'linked' | 'unlinked'> & { review: number };
+  errors: string[];
+}
+
+/** A contact that may or may not be in a candidate's place on the other side. */
+export interface IdentityCandidate {
+  contact: ContactSummary;
+  /** The candidate's remote ID, when the candidate is a remote contact */
+  remoteId?: string;
+  confidence: number;
+  matchedFields: MatchedField[];
+}
+
+/**
+ * An unlinked contact that resembles contacts on the other side too loosely
+ * (or too many of them) to link automatically. It's left alone until linked
+ * explicitly or created anyway.
+ */
+export interface IdentityReview {
+  /** 'remote' for a provider contact found on pull, 'local' for a store contact about to be pushed */
+  side: 'remote' | 'local';
+  contact: ContactSummary;
+  /** The contact's remote ID, when it's the remote side */
+  remoteId?: string;
+  candidates: IdentityCandidate[];
 }
 
 export interface SyncResult {
@@ -26,6 +155,16 @@ export interface SyncResult {
   pulled: number;
   pushed: number;
   conflicts: number;
+  /** Contacts archived locally because the provider deleted them, and provider copies deleted because they were archived locally */
+  deleted: { local: number; remote: number };
+  /** Unlinked contacts matched to an existing contact on the other side instead of being duplicated */
+  linked: number;
+  /** Linked contacts no longer synced because a copy stopped matching the provider's filter */
+  unlinked: number;
+  /** Unlinked contacts with only uncertain matches, held back for review */
+  review: IdentityReview[];
+  /** Present when the provider supports groups */
+  groups?: { pulled: number; pushed: number };
   errors: string[];
   duration: number;
 }
@@ -5,6 +5,46 @@ export interface CommitInfo {
   author: string;
 }
 
+/** Change markers for one remote collection (e.g. a CardDAV address book). */
+export interface CollectionSyncState {
+  ctag?: string;
+  syncToken?: string;
+  /** Group card URL -> etag, for writing back groups the last fetch didn't reread */
+  groupEtags?: Record<string, string>;
+}
+
+/** The part of the sync state a provider reads and updates itself. */
+export interface ProviderSyncState {
+  /** When the last successful (non-dry-run) sync finished */
+  lastSyncTime?: string;
+  /** Delta token for fetching only what changed (e.g. People API syncToken, WebDAV sync-token) */
+  syncToken?: string;
+  /** Collection change tag (CardDAV getctag); unchanged means nothing to fetch */
+  ctag?: string;
+  /** Per-collection markers for providers with several collections, keyed by collection URL */
+  collections?: Record<string, CollectionSyncState>;
+  /** Remote ID -> provider revision (etag) as of the last sync */
+  etags: Record<string, string>;
+}
+
+/**
+ * What a provider sync remembers between runs, committed to git as
+ * .metadata/sync/<provider>.json so it survives restarts and travels with the store.
+ */
+export interface SyncState extends ProviderSyncState {
+  /**
+   * Contact ID -> commit where the local contact last matched the provider's copy.
+   * The contact at that commit is the base for three-way merges.
+   */
+  bases: Record<string, string>;
+  /**
+   * Contact ID -> remote ID of contacts unlinked because a copy stopped
+   * matching the provider's filter. Neither copy is synced or matched to
+   * another contact until both match again, when they're linked back.
+   */
+  unlinked?: Record<string, string>;
+}
+
 export interface HistoryEntry {
   commit: CommitInfo;
   contactId?: string;
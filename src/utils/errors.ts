@@ -5,6 +5,13 @@ export class ContactNotFoundError extends Error {
   }
 }
 
+export class GroupNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Group not found: ${id}`);
+    this.name = 'GroupNotFoundError';
+  }
+}
+
 export class StoreError extends Error {
   constructor(message: string) {
     super(message);
@@ -19,9 +26,38 @@ export class ProviderError extends Error {
   }
 }
 
+/** The remote contact changed since the revision an update was based on (HTTP 412). */
+export class PreconditionFailedError extends ProviderError {
+  constructor(provider: string, remoteId: string) {
+    super(provider, `${remoteId} changed remotely since it was last fetched`);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
 export class SyncError extends Error {
   constructor(message: string) {
     super(message);
     this.name = 'SyncError';
   }
 }
+
+/** A request to the CardDAV server that fails with an HTTP status, e.g. 412 for a stale If-Match. */
+export class DavError extends Error {
+  status: number;
+  /** Response body, e.g. a DAV:error precondition element */
+  body: string;
+
+  constructor(status: number, message: string, body: string = '') {
+    super(message);
+    this.name = 'DavError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
@@ -45,6 +45,40 @@ describe('mergeContacts', () => {
       expect(result.mergedContact.categories).toEqual(['work', 'vip', 'friend']);
     });
 
+    it('should combine extra vCard properties without duplicates', () => {
+      const nickname = { name: 'NICKNAME', params: [], value: 'JJ' };
+      const geo = { name: 'GEO', params: [], value: 'geo:37.3,-122.0' };
+      const a = contact({ fullName: 'Jane', extraProperties: [nickname] });
+      const b = contact({ fullName: 'Jane', extraProperties: [geo, { ...nickname }] });
+
+      const result = mergeContacts([a, b], 'union');
+
+      expect(result.mergedContact.extraProperties).toEqual([nickname, geo]);
+    });
+
+    it('should combine IM handles, related people and languages without duplicates', () => {
+      const a = contact({
+        fullName: 'Jane',
+        ims: [{ value: 'jane', service: 'skype' }],
+        related: [{ value: 'Pat', type: 'spouse' }],
+        languages: ['en'],
+      });
+      const b = contact({
+        fullName: 'Jane',
+        nickname: 'JJ',
+        ims: [{ value: 'JANE', service: 'Skype' }, { value: 'jane@jabber.org', service: 'xmpp' }],
+        related: [{ value: 'Pat', type: 'spouse' }, { value: 'Sam', type: 'assistant' }],
+        languages: ['en', 'fr'],
+      });
+
+      const result = mergeContacts([a, b], 'union');
+
+      expect(result.mergedContact.nickname).toBe('JJ');
+      expect(result.mergedContact.ims.map(i => i.value)).toEqual(['jane', 'jane@jabber.org']);
+      expect(result.mergedContact.related.map(r => r.value)).toEqual(['Pat', 'Sam']);
+      expect(result.mergedContact.languages).toEqual(['en', 'fr']);
+    });
+
     it('should take the longer/more complete name', () => {
       const a = contact({ fullName: 'J. Smith' });
       const b = contact({ fullName: 'Jane Elizabeth Smith' });
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuery, matchesQuery } from '../../src/contacts/query.js';
+import { createContact } from '../../src/contacts/model.js';
+
+const noTerms = () => false;
+
+describe('parseQuery', () => {
+  it('should parse field terms with implicit AND', () => {
+    expect(parseQuery('org:Acme category:investor')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'field', field: 'org', operator: ':', value: 'Acme' },
+        { type: 'field', field: 'category', operator: ':', value: 'investor' },
+      ],
+    });
+  });
+
+  it('should parse negation, quotes and comparisons', () => {
+    expect(parseQuery('-email:*@gmail.com city:"San Francisco" modified:>2025-01-01')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'not', child: { type: 'field', field: 'email', operator: ':', value: '*@gmail.com' } },
+        { type: 'field', field: 'city', operator: ':', value: 'San Francisco' },
+        { type: 'field', field: 'modified', operator: '>', value: '2025-01-01' },
+      ],
+    });
+  });
+
+  it('should give AND precedence over OR and honor parentheses', () => {
+    expect(parseQuery('a b OR c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'and', children: [{ type: 'term', value: 'a', quoted: false }, { type: 'term', value: 'b', quoted: false }] },
+        { type: 'term', value: 'c', quoted: false },
+      ],
+    });
+    expect(parseQuery('NOT (tag:a OR tag:b)')).toEqual({
+      type: 'not',
+      child: {
+        type: 'or',
+        children: [
+          { type: 'field', field: 'category', operator: ':', value: 'a' },
+          { type: 'field', field: 'category', operator: ':', value: 'b' },
+        ],
+      },
+    });
+  });
+
+  it('should parse has: and treat unknown prefixes as bare terms', () => {
+    expect(parseQuery('has:phone')).toEqual({ type: 'has', field: 'phone' });
+    expect(parseQuery('http://example.com')).toEqual({ type: 'term', value: 'http://example.com', quoted: false });
+  });
+
+  it('should reject malformed queries', () => {
+    expect(() => parseQuery('(org:Acme')).toThrow('parenthesis');
+    expect(() => parseQuery('city:"San')).toThrow('Unterminated');
+    expect(() => parseQuery('org:>Acme')).toThrow('date fields');
+    expect(() => parseQuery('has:shoesize')).toThrow('Unknown field');
+  });
+});
+
+describe('matchesQuery', () => {
+  const jane = createContact({
+    fullName: 'Jane Doe',
+    emails: [{ value: 'jane@acme.com' }],
+    phones: [{ value: '+14155550100' }],
+    addresses: [{ city: 'San Francisco', country: 'US' }],
+    organization: { name: 'Acme Corp' },
+    birthday: '1990-03-14',
+    nickname: 'JD',
+    ims: [{ value: 'jane.doe', service: 'skype' }],
+    languages: ['en-US'],
+    categories: ['investor'],
+    metadata: { created: '2024-01-01T00:00:00Z', modified: '2025-02-01T00:00:00Z', providerIds: { google: 'people/1' }, archived: false },
+  });
+
+  const matches = (query: string) => matchesQuery(jane, parseQuery(query), noTerms);
+
+  it('should match text fields by case-insensitive substring', () => {
+    expect(matches('org:acme')).toBe(true);
+    expect(matches('org:TechCo')).toBe(false);
+    expect(matches('city:"san francisco"')).toBe(true);
+  });
+
+  it('should match globs against whole values', () => {
+    expect(matches('email:*@acme.com')).toBe(true);
+    expect(matches('-email:*@gmail.com')).toBe(true);
+    expect(matches('email:*@gmail.com')).toBe(false);
+  });
+
+  it('should match birthdays by month-day pattern', () => {
+    expect(matches('birthday:03-*')).toBe(true);
+    expect(matches('birthday:03-14')).toBe(true);
+    expect(matches('birthday:04-*')).toBe(false);
+    expect(matches('birthday:1990')).toBe(true);
+  });
+
+  it('should compare dates at the pattern precision', () => {
+    expect(matches('modified:>2025-01-01')).toBe(true);
+    expect(matches('modified:>2025-02-01')).toBe(false);
+    expect(matches('modified:>=2025-02')).toBe(true);
+    expect(matches('created:<2024')).toBe(false);
+  });
+
+  it('should match phones by digits', () => {
+    expect(matches('phone:"(415) 555-0100"')).toBe(true);
+    expect(matches('phone:5550199')).toBe(false);
+  });
+
+  it('should evaluate has:, provider: and boolean logic', () => {
+    expect(matches('has:phone has:email')).toBe(true);
+    expect(matches('has:url')).toBe(false);
+    expect(matches('provider:google')).toBe(true);
+    expect(matches('category:friend OR category:investor')).toBe(true);
+    expect(matches('org:acme NOT category:investor')).toBe(false);
+  });
+
+  it('should match nickname, IM and language fields', () => {
+    expect(matches('nickname:jd')).toBe(true);
+    expect(matches('name:JD')).toBe(true);
+    expect(matches('im:jane.doe has:im')).toBe(true);
+    expect(matches('has:social')).toBe(false);
+    expect(matches('lang:en-*')).toBe(true);
+  });
+
+  it('should delegate bare terms to the caller', () => {
+    const node = parseQuery('jane org:acme');
+    expect(matchesQuery(jane, node, (_c, term) => term === 'jane')).toBe(true);
+    expect(matchesQuery(jane, node, noTerms)).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRelationGraph, traverseRelations, retargetRelations, detachRelations, parseContactRef,
+} from '../../src/contacts/relations.js';
+import { createContact } from '../../src/contacts/model.js';
+import type { Contact } from '../../src/types/contact.js';
+
+function person(id: string, related: Contact['related'] = []): Contact {
+  return createContact({ id, fullName: id.toUpperCase(), related });
+}
+
+const ref = (id: string) => `urn:uuid:${id}`;
+
+describe('relationship graph', () => {
+  // ceo <- vp <- (eng1, eng2); eng1 spouse of pat; eng2 introduced-by pat
+  const contacts = [
+    person('ceo'),
+    person('vp', [{ value: ref('ceo'), type: 'manager' }]),
+    person('eng1', [{ value: ref('vp'), type: 'manager' }, { value: ref('pat'), type: 'spouse' }]),
+    person('eng2', [{ value: ref('vp'), type: 'manager' }, { value: ref('pat'), type: 'introduced-by' }]),
+    person('pat'),
+    person('loner', [{ value: 'Somebody Else', type: 'friend' }, { value: ref('missing'), type: 'friend' }]),
+  ];
+  const graph = buildRelationGraph(contacts);
+
+  it('should see links from both ends with inverse types', () => {
+    expect(graph.get('vp')).toEqual([
+      { contactId: 'ceo', type: 'manager', direction: 'outgoing' },
+      { contactId: 'eng1', type: 'report', direction: 'incoming' },
+      { contactId: 'eng2', type: 'report', direction: 'incoming' },
+    ]);
+    expect(graph.get('pat')!.map(l => l.type)).toEqual(['spouse', 'introduced']);
+    // Text values and dangling references aren't edges
+    expect(graph.get('loner')).toEqual([]);
+  });
+
+  it('should list all reports of a manager transitively', () => {
+    const reports = traverseRelations(graph, 'ceo', { maxDepth: 5, types: ['report'] });
+    expect(reports.map(r => [r.contactId, r.depth])).toEqual([['vp', 1], ['eng1', 2], ['eng2', 2]]);
+    expect(reports[1].path).toEqual([{ contactId: 'vp', type: 'report' }, { contactId: 'eng1', type: 'report' }]);
+  });
+
+  it('should find everyone within N hops, each once at its shortest distance', () => {
+    const oneHop = traverseRelations(graph, 'eng1');
+    expect(oneHop.map(r => r.contactId)).toEqual(['vp', 'pat']);
+
+    const twoHops = traverseRelations(graph, 'eng1', { maxDepth: 2 });
+    expect(twoHops.map(r => [r.contactId, r.depth])).toEqual([['vp', 1], ['pat', 1], ['ceo', 2], ['eng2', 2]]);
+  });
+});
+
+describe('retargetRelations', () => {
+  it('should point references at the merge primary and drop duplicates and self-links', () => {
+    const contact = person('x', [
+      { value: ref('old'), type: 'manager' },
+      { value: ref('primary'), type: 'manager' },
+      { value: ref('x'), type: 'friend' },
+      { value: 'Text Name', type: 'friend' },
+    ]);
+    // Self-links only go when something was retargeted
+    expect(retargetRelations(contact, new Set(['old']), 'primary')).toBe(true);
+    expect(contact.related).toEqual([
+      { value: ref('primary'), type: 'manager' },
+      { value: 'Text Name', type: 'friend' },
+    ]);
+
+    expect(retargetRelations(contact, new Set(['unrelated']), 'primary')).toBe(false);
+  });
+});
+
+describe('detachRelations', () => {
+  it('should replace references to a removed contact with its name', () => {
+    const contact = person('x', [{ value: ref('gone'), type: 'spouse' }, { value: ref('other') }]);
+    expect(detachRelations(contact, createContact({ id: 'gone', fullName: 'Gone Person' }))).toBe(true);
+    expect(contact.related).toEqual([{ value: 'Gone Person', type: 'spouse' }, { value: ref('other') }]);
+    expect(parseContactRef(contact.related[1].value)).toBe('other');
+  });
+});
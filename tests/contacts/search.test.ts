@@ -59,3 +59,25 @@ describe('searchContacts', () => {
     expect(results[0]).not.toHaveProperty('addresses');
   });
 });
+
+describe('searchContacts with structured queries', () => {
+  it('should filter by field', () => {
+    const results = searchContacts(contacts, 'org:acme');
+    expect(results.map(r => r.fullName)).toEqual(['John Smith']);
+  });
+
+  it('should combine fields with OR and negation', () => {
+    const results = searchContacts(contacts, '(org:acme OR org:techco) -email:*@example.com');
+    expect(results.map(r => r.fullName)).toEqual(['Alice Wonderland']);
+  });
+
+  it('should fuzzy-match bare terms alongside field filters', () => {
+    const results = searchContacts(contacts, 'Jon has:email');
+    expect(results.map(r => r.fullName)).toEqual(['John Smith']);
+  });
+
+  it('should return all matches of has: up to limit', () => {
+    expect(searchContacts(contacts, 'has:email')).toHaveLength(2);
+    expect(searchContacts(contacts, 'has:email', 1)).toHaveLength(1);
+  });
+});
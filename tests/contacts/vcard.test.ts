@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { contactToVCard, vcardToContact } from '../../src/contacts/vcard.js';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { contactToVCard, vcardToContact, groupToVCard, vcardToGroup, isGroupVCard } from '../../src/contacts/vcard.js';
 import { createContact } from '../../src/contacts/model.js';
 
 describe('vCard serialization', () => {
@@ -193,3 +195,213 @@ describe('vCard serialization', () => {
     expect(parsed.addresses[1].type).toBe('home');
   });
 });
+
+describe('vCard 3.0 / 2.1 parsing', () => {
+  const fixture = (name: string) =>
+    fs.readFileSync(path.join(import.meta.dirname, '../fixtures/vcards', name), 'utf-8');
+
+  it('should parse an Outlook 2.1 export', () => {
+    const parsed = vcardToContact(fixture('outlook-2.1.vcf'));
+
+    expect(parsed.fullName).toBe('John Q. Doe Jr.');
+    expect(parsed.name).toEqual({ familyName: 'Doe', givenName: 'John', middleName: 'Q.', prefix: 'Mr.', suffix: 'Jr.' });
+    expect(parsed.organization).toEqual({ name: 'Contoso Ltd.', department: 'Sales', title: 'Account Manager' });
+    expect(parsed.notes).toBe('Met at the trade show\nLikes café au lait');
+    expect(parsed.phones.map(p => p.type)).toEqual(['work', 'home', 'mobile', 'fax']);
+    expect(parsed.addresses[0]).toMatchObject({ street: '1 Microsoft Way', city: 'Redmond', type: 'work' });
+    expect(parsed.emails[0]).toEqual({ value: 'john.doe@contoso.com', type: undefined, primary: true });
+    expect(parsed.urls[0]).toEqual({ value: 'http://www.contoso.com', type: 'work' });
+    expect(parsed.birthday).toBe('1975-04-12');
+  });
+
+  it('should decode quoted-printable UTF-8 and base64 photos from Android 2.1', () => {
+    const parsed = vcardToContact(fixture('android-2.1.vcf'));
+
+    expect(parsed.fullName).toBe('Jürgen Müller');
+    expect(parsed.name.familyName).toBe('Müller');
+    expect(parsed.addresses[0]).toMatchObject({ street: 'Hauptstraße 1', city: 'Berlin', country: 'Deutschland', type: 'home' });
+    expect(parsed.notes).toBe('Line one\nLine two ✓ and more');
+    expect(parsed.phones[0]).toEqual({ value: '+49 151 23456789', type: 'mobile', primary: true });
+    expect(parsed.photo).toMatch(/^data:image\/jpeg;base64,\/9j\/4AAQ\S+DRgy$/);
+  });
+
+  it('should handle Apple 3.0 type lists, groups and year-less birthdays', () => {
+    const parsed = vcardToContact(fixture('apple-3.0.vcf'));
+
+    expect(parsed.id).toBe('5AD380FD-B2DE-4261-BA99-DE1D1DB52FBE');
+    expect(parsed.emails).toEqual([
+      { value: 'johnny@apple.com', type: 'work', primary: true },
+      { value: 'johnny@me.com', type: 'home', primary: false },
+    ]);
+    expect(parsed.phones[0]).toEqual({ value: '+1 (408) 555-0101', type: 'mobile', primary: true });
+    expect(parsed.addresses[0]).toMatchObject({ city: 'Cupertino', type: 'home' });
+    expect(parsed.urls[0].value).toBe('https://www.apple.com');
+    expect(parsed.birthday).toBe('--0615');
+    expect(parsed.notes).toBe('Likes apples, pears and plums\nSecond line');
+    expect(parsed.categories).toEqual(['Friends', 'Work']);
+    expect(parsed.photo).toMatch(/^data:image\/jpeg;base64,/);
+  });
+
+  it('should handle Google 3.0 quoted type lists and escaped colons', () => {
+    const parsed = vcardToContact(fixture('google-3.0.vcf'));
+
+    expect(parsed.emails.map(e => e.type)).toEqual(['home', undefined]);
+    expect(parsed.phones.map(p => p.type)).toEqual(['mobile', 'work']);
+    expect(parsed.urls[0].value).toBe('https://example.com/ada');
+    expect(parsed.notes).toBe('Programmer\nFirst of her kind');
+    expect(parsed.birthday).toBe('1815-12-10');
+  });
+
+  it('should generate an ID when the UID is missing or not file-safe', () => {
+    const parsed = vcardToContact('BEGIN:VCARD\r\nVERSION:3.0\r\nFN:No Uid\r\nEND:VCARD');
+    expect(parsed.id).toMatch(/^[0-9a-f-]{36}$/);
+
+    const unsafe = vcardToContact('BEGIN:VCARD\r\nVERSION:3.0\r\nUID:../../etc/passwd\r\nFN:Bad\r\nEND:VCARD');
+    expect(unsafe.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should keep unmapped properties and property groups', () => {
+    const parsed = vcardToContact(fixture('apple-3.0.vcf'));
+
+    expect(parsed.addresses[0].group).toBe('item1');
+    expect(parsed.urls[0].group).toBe('item2');
+    expect(parsed.extraProperties).toEqual([
+      { group: 'item1', name: 'X-ABADR', params: [], value: 'us' },
+      { group: 'item2', name: 'X-ABLABEL', params: [], value: '_$!<HomePage>!$_' },
+      { group: undefined, name: 'X-ABUID', params: [], value: '5AD380FD-B2DE-4261-BA99-DE1D1DB52FBE:ABPerson' },
+    ]);
+
+    const vcard = contactToVCard(parsed);
+    expect(vcard).toContain('item1.ADR;TYPE=home:');
+    expect(vcard).toContain('item2.URL:https://www.apple.com');
+    expect(vcard).toContain('item2.X-ABLABEL:_$!<HomePage>!$_');
+    expect(vcard).not.toContain('PRODID');
+  });
+
+  it('should write unknown properties back verbatim, params and escaping included', () => {
+    const input = [
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'UID:urn:uuid:extra-test',
+      'FN:Extra Test',
+      'GEO;TYPE=work:geo:37.386013,-122.082932',
+      'TZ:America/Los_Angeles',
+      'X-CUSTOM;X-FLAG="a,b":one\\,two',
+      'NOTE:First note',
+      'NOTE:Second note',
+      'END:VCARD',
+    ].join('\r\n');
+
+    const parsed = vcardToContact(input);
+    expect(parsed.notes).toBe('First note');
+    expect(parsed.extraProperties.map(e => e.name)).toEqual(['GEO', 'TZ', 'X-CUSTOM', 'NOTE']);
+
+    const vcard = contactToVCard(parsed);
+    expect(vcard).toContain('GEO;TYPE=work:geo:37.386013,-122.082932');
+    expect(vcard).toContain('X-CUSTOM;X-FLAG="a,b":one\\,two');
+    expect(vcard).toContain('NOTE:Second note');
+    expect(vcardToContact(vcard).extraProperties).toEqual(parsed.extraProperties);
+  });
+
+  it('should parse nicknames, phonetic names, IM, social profiles, related people, gender and languages', () => {
+    const input = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Jane Smith',
+      'N:Smith;Jane;;;',
+      'NICKNAME:JJ',
+      'X-PHONETIC-FIRST-NAME:Jayn',
+      'X-PHONETIC-LAST-NAME:Smyth',
+      'IMPP;X-SERVICE-TYPE=Skype;type=HOME;type=pref:skype:jane.smith',
+      'IMPP:xmpp:jane@jabber.org',
+      'X-SOCIALPROFILE;type=twitter;x-user=janesmith:https://twitter.com/janesmith',
+      'RELATED;TYPE=spouse;VALUE=text:Pat Smith',
+      'RELATED;TYPE=assistant:urn:uuid:0b2f6f2e-1111-4c2e-9c1e-2a3b4c5d6e7f',
+      'GENDER:F;she/her',
+      'LANG;PREF=2:fr',
+      'LANG;PREF=1:en-US',
+      'END:VCARD',
+    ].join('\r\n');
+
+    const parsed = vcardToContact(input);
+
+    expect(parsed.nickname).toBe('JJ');
+    expect(parsed.name).toMatchObject({ phoneticGivenName: 'Jayn', phoneticFamilyName: 'Smyth' });
+    expect(parsed.ims).toEqual([
+      { value: 'jane.smith', service: 'Skype', type: 'home' },
+      { value: 'jane@jabber.org', service: 'xmpp', type: undefined },
+    ]);
+    expect(parsed.socialProfiles).toEqual([
+      { value: 'https://twitter.com/janesmith', service: 'twitter', username: 'janesmith' },
+    ]);
+    expect(parsed.related).toEqual([
+      { value: 'Pat Smith', type: 'spouse' },
+      { value: 'urn:uuid:0b2f6f2e-1111-4c2e-9c1e-2a3b4c5d6e7f', type: 'assistant' },
+    ]);
+    expect(parsed.gender).toEqual({ sex: 'F', identity: 'she/her' });
+    expect(parsed.languages).toEqual(['en-US', 'fr']);
+    expect(parsed.extraProperties).toEqual([]);
+
+    const vcard = contactToVCard(parsed);
+    expect(vcard).toContain('IMPP;X-SERVICE-TYPE=Skype;TYPE=home:skype:jane.smith');
+    expect(vcard).toContain('RELATED;TYPE=spouse;VALUE=text:Pat Smith');
+    expect(vcard).toContain('RELATED;TYPE=assistant:urn:uuid:0b2f6f2e');
+    expect(vcard).toContain('GENDER:F;she/her');
+    expect(vcardToContact(vcard)).toEqual(parsed);
+  });
+
+  it.each(['outlook-2.1.vcf', 'android-2.1.vcf', 'apple-3.0.vcf', 'google-3.0.vcf'])(
+    'should round-trip %s through vCard 4.0 without loss',
+    (name) => {
+      const parsed = vcardToContact(fixture(name));
+      const reparsed = vcardToContact(contactToVCard(parsed));
+      expect(reparsed).toEqual(parsed);
+    },
+  );
+});
+
+describe('group vCards', () => {
+  it('should round-trip a group with members', () => {
+    const group = {
+      id: '7d2f1a6c-3b9e-4f1d-8a2c-5e6f7a8b9c0d',
+      name: 'Book Club; Tuesdays',
+      description: 'Meets monthly',
+      memberIds: ['550e8400-e29b-41d4-a716-446655440000', '0b2f6f2e-1111-4c2e-9c1e-2a3b4c5d6e7f'],
+      metadata: {
+        created: '2026-01-01T00:00:00.000Z',
+        modified: '2026-01-02T00:00:00.000Z',
+        source: 'google',
+        providerIds: { google: 'contactGroups/abc123' },
+      },
+    };
+
+    const vcard = groupToVCard(group);
+    expect(vcard).toContain('KIND:group');
+    expect(vcard).toContain('MEMBER:urn:uuid:550e8400-e29b-41d4-a716-446655440000');
+    expect(isGroupVCard(vcard)).toBe(true);
+    expect(vcardToGroup(vcard)).toEqual(group);
+  });
+
+  it('should parse Apple X-ADDRESSBOOKSERVER group cards', () => {
+    const vcard = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'X-ADDRESSBOOKSERVER-KIND:group',
+      'UID:1F6A3C2E-GROUP',
+      'FN:Family',
+      'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:A1B2C3D4-0001',
+      'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:A1B2C3D4-0002',
+      'END:VCARD',
+    ].join('\r\n');
+
+    expect(isGroupVCard(vcard)).toBe(true);
+    const group = vcardToGroup(vcard);
+    expect(group.id).toBe('1F6A3C2E-GROUP');
+    expect(group.name).toBe('Family');
+    expect(group.memberIds).toEqual(['A1B2C3D4-0001', 'A1B2C3D4-0002']);
+  });
+
+  it('should not treat individual contacts as groups', () => {
+    expect(isGroupVCard(contactToVCard(createContact({ fullName: 'Jane Doe' })))).toBe(false);
+  });
+});
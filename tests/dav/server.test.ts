@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestStore } from '../helpers.js';
+import { CardDAVServer } from '../../src/dav/server.js';
+import { CardDAVProvider } from '../../src/providers/carddav.js';
+import { createContact } from '../../src/contacts/model.js';
+import { PreconditionFailedError } from '../../src/utils/errors.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+
+let store: GitContactStore;
+let cleanup: () => Promise<void>;
+let server: CardDAVServer;
+
+beforeEach(async () => {
+  ({ store, cleanup } = await createTestStore());
+  server = new CardDAVServer(store, { port: 0, username: 'me', password: 'secret' });
+  await server.start();
+});
+
+afterEach(async () => {
+  await server.stop();
+  await cleanup();
+});
+
+/** A CardDAV client for the server: the provider used to sync with other CardDAV servers. */
+function client(): CardDAVProvider {
+  return new CardDAVProvider('local-dav', { serverUrl: server.url, username: 'me', password: 'secret' });
+}
+
+function authorization(password: string = 'secret'): Record<string, string> {
+  return { Authorization: `Basic ${Buffer.from(`me:${password}`).toString('base64')}` };
+}
+
+describe('CardDAVServer', () => {
+  it('should refuse to start without credentials', async () => {
+    const config = { port: 0 } as { port: number; username: string; password: string };
+    await expect(new CardDAVServer(store, config).start()).rejects.toThrow('username and password');
+    await expect(new CardDAVServer(store, { ...config, username: '', password: '' }).start()).rejects.toThrow('username and password');
+    await expect(new CardDAVServer(store, { ...config, username: 'me', password: '' }).start()).rejects.toThrow('username and password');
+  });
+
+  it('should require basic auth', async () => {
+    const denied = await fetch(`${server.url}contacts/`, { method: 'PROPFIND', headers: authorization('wrong') });
+    expect(denied.status).toBe(401);
+    expect(denied.headers.get('www-authenticate')).toContain('Basic');
+  });
+
+  it('should serve every active contact as a vCard in one address book', async () => {
+    const ada = await store.create({ fullName: 'Ada Lovelace', emails: [{ value: 'ada@example.com', type: 'home' }] });
+    const gone = await store.create({ fullName: 'Archived Person' });
+    await store.delete(gone.id);
+
+    const provider = client();
+    expect(await provider.listAddressBooks()).toEqual([{ url: `${server.url}contacts/`, displayName: 'Contacts', selected: true }]);
+    const contacts = await provider.fetchAll();
+
+    expect(contacts.map(c => c.fullName)).toEqual(['Ada Lovelace']);
+    expect(contacts[0].id).toBe(ada.id);
+    expect(contacts[0].emails[0].value).toBe('ada@example.com');
+
+    const res = await fetch(`${server.url}contacts/${ada.id}.vcf`, { headers: authorization() });
+    expect(res.headers.get('etag')).toBe(contacts[0].metadata.etag);
+    expect(await res.text()).toContain('FN:Ada Lovelace');
+  });
+
+  it('should commit a PUT and honour If-Match and If-None-Match', async () => {
+    const provider = client();
+    const grace = createContact({ fullName: 'Grace Hopper' });
+
+    const created = await provider.pushContact(grace);
+    expect(created.remoteId).toBe(`${server.url}contacts/${grace.id}.vcf`);
+    expect((await store.get(grace.id)).fullName).toBe('Grace Hopper');
+    const [createCommit] = await store.getHistory(1);
+    expect(createCommit.commit.message).toBe(`Create contact: Grace Hopper (${grace.id})`);
+    await expect(provider.pushContact(grace)).rejects.toThrow('412');
+
+    const updated = await provider.updateContact(created.remoteId, { ...grace, fullName: 'Rear Admiral Grace Hopper', nickname: 'Amazing Grace', gender: { sex: 'F' } }, created.etag);
+    expect(updated.etag).not.toBe(created.etag);
+    expect((await store.get(grace.id)).nickname).toBe('Amazing Grace');
+    expect((await store.get(grace.id)).gender).toEqual({ sex: 'F' });
+
+    // A stale etag is refused, and a PUT without a field clears it
+    await expect(provider.updateContact(created.remoteId, grace, created.etag)).rejects.toThrow(PreconditionFailedError);
+    await provider.updateContact(created.remoteId, grace, updated.etag);
+    expect((await store.get(grace.id)).nickname).toBeUndefined();
+    expect((await store.get(grace.id)).gender).toBeUndefined();
+  });
+
+  it('should refuse group vCards and oversized bodies', async () => {
+    const group = await fetch(`${server.url}contacts/friends.vcf`, {
+      method: 'PUT',
+      headers: authorization(),
+      body: 'BEGIN:VCARD\r\nVERSION:4.0\r\nKIND:group\r\nFN:Friends\r\nUID:friends\r\nEND:VCARD\r\n',
+    });
+    expect(group.status).toBe(403);
+    expect(await group.text()).toContain('valid-address-data');
+
+    const huge = await fetch(`${server.url}contacts/huge.vcf`, {
+      method: 'PUT',
+      headers: authorization(),
+      body: `BEGIN:VCARD\r\nVERSION:4.0\r\nFN:Huge\r\nNOTE:${'x'.repeat(11 * 1024 * 1024)}\r\nEND:VCARD\r\n`,
+    });
+    expect(huge.status).toBe(413);
+
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should archive on DELETE', async () => {
+    const alan = await store.create({ fullName: 'Alan Turing' });
+
+    await client().deleteContact(`${server.url}contacts/${alan.id}.vcf`);
+
+    expect((await store.list()).map(c => c.id)).not.toContain(alan.id);
+    expect((await store.list(true)).map(c => c.id)).toContain(alan.id);
+    const [latest] = await store.getHistory(1);
+    expect(latest.commit.message).toBe(`Archive contact: Alan Turing (${alan.id})`);
+  });
+
+  it('should report changes and removals since a sync-token', async () => {
+    const ada = await store.create({ fullName: 'Ada Lovelace' });
+    const alan = await store.create({ fullName: 'Alan Turing' });
+    const provider = client();
+    const contacts = await provider.fetchAll();
+    const etags = Object.fromEntries(contacts.map(c => [c.metadata.providerIds['local-dav'], c.metadata.etag!]));
+    provider.loadSyncState({ ...provider.saveSyncState(), etags });
+
+    await store.update(ada.id, { fullName: 'Ada King' });
+    await store.delete(alan.id);
+    const changes = await provider.fetchChanges();
+
+    expect(changes?.changed.map(c => c.fullName)).toEqual(['Ada King']);
+    expect(changes?.deletedIds).toEqual([`${server.url}contacts/${alan.id}.vcf`]);
+  });
+
+  it('should reject a sync-token it did not issue', async () => {
+    const res = await fetch(`${server.url}contacts/`, {
+      method: 'REPORT',
+      headers: authorization(),
+      body: '<d:sync-collection xmlns:d="DAV:"><d:sync-token>urn:contacts-mcp:sync:0000000</d:sync-token></d:sync-collection>',
+    });
+
+    expect(res.status).toBe(403);
+    expect(await res.text()).toContain('valid-sync-token');
+  });
+});
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+/** Plugin module whose second provider type clashes with a built-in one. */
+const definition = type => ({
+  type,
+  description: `A ${type} provider`,
+  configSchema: z.object({}),
+  capabilities: { incremental: false, groups: false, conditionalWrites: false },
+  create: () => { throw new Error('not used'); },
+});
+
+export const providers = [definition('scratch'), definition('carddav')];
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+/** Plugin module adding a `memory` provider type that holds contacts in a map. */
+class MemoryProvider {
+  type = 'memory';
+  contacts = new Map();
+
+  constructor(name, config) {
+    this.name = name;
+    this.config = config;
+  }
+
+  async isConfigured() { return true; }
+  async fetchAll() { return [...this.contacts.values()]; }
+  async fetchOne(remoteId) { return this.contacts.get(remoteId) ?? null; }
+  async pushContact(contact) {
+    this.contacts.set(contact.id, contact);
+    return { remoteId: contact.id };
+  }
+  async updateContact(remoteId, contact) {
+    this.contacts.set(remoteId, contact);
+    return { remoteId };
+  }
+  async deleteContact(remoteId) { this.contacts.delete(remoteId); }
+  loadSyncState() {}
+  saveSyncState() { return {}; }
+}
+
+export const providers = [{
+  type: 'memory',
+  description: 'Contacts held in memory',
+  configSchema: z.object({ label: z.string() }),
+  capabilities: { incremental: false, groups: false, conditionalWrites: false },
+  create: (name, config) => new MemoryProvider(name, config),
+}];
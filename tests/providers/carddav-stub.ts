@@ -0,0 +1,186 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+interface StubCard {
+  data: string;
+  etag: string;
+  version: number;
+}
+
+interface StubBook {
+  displayName: string;
+  syncCollection: boolean;
+  version: number;
+  /** Tokens older than this are rejected, as if the server forgot them */
+  oldestToken: number;
+  cards: Map<string, StubCard>;
+  /** href -> version it was removed at */
+  removed: Map<string, number>;
+}
+
+const NAMESPACES = 'xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav" xmlns:cs="http://calendarserver.org/ns/"';
+
+/**
+ * Minimal in-process CardDAV server: enough discovery for tsdav, plus PROPFIND,
+ * addressbook-query, addressbook-multiget, RFC 6578 sync-collection, PUT
+ * (honouring If-Match and If-None-Match) and DELETE on address books at
+ * /home/<slug>/. Every change bumps the book's version, which doubles as its
+ * ctag and sync-token.
+ */
+export class CardDAVStub {
+  books = new Map<string, StubBook>();
+  /** "METHOD path [report]" for every request after discovery, for asserting on traffic */
+  requests: string[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  addBook(slug: string, displayName: string, options: { syncCollection?: boolean } = {}): void {
+    this.books.set(slug, {
+      displayName,
+      syncCollection: options.syncCollection ?? true,
+      version: 1,
+      oldestToken: 0,
+      cards: new Map(),
+      removed: new Map(),
+    });
+  }
+
+  put(slug: string, uid: string, fullName: string, extra: string[] = []): void {
+    const book = this.books.get(slug)!;
+    const version = ++book.version;
+    const data = ['BEGIN:VCARD', 'VERSION:4.0', `UID:${uid}`, `FN:${fullName}`, ...extra, 'END:VCARD', ''].join('\r\n');
+    const href = `/home/${slug}/${uid}.vcf`;
+    book.cards.set(href, { data, etag: `"${uid}-${version}"`, version });
+    book.removed.delete(href);
+  }
+
+  remove(slug: string, uid: string): void {
+    const book = this.books.get(slug)!;
+    const href = `/home/${slug}/${uid}.vcf`;
+    book.cards.delete(href);
+    book.removed.set(href, ++book.version);
+  }
+
+  expireTokens(slug: string): void {
+    const book = this.books.get(slug)!;
+    book.oldestToken = book.version;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const path = new URL(req.url!, 'http://stub').pathname;
+
+    if (path === '/.well-known/carddav') return this.reply(res, 404, '');
+    if (path === '/') return this.multistatus(res, [response('/', '<d:current-user-principal><d:href>/principal/</d:href></d:current-user-principal>')]);
+    if (path === '/principal/') {
+      return this.multistatus(res, [response('/principal/', '<card:addressbook-home-set><d:href>/home/</d:href></card:addressbook-home-set>')]);
+    }
+    if (path === '/home/') {
+      return this.multistatus(res, [
+        response('/home/', '<d:resourcetype><d:collection/></d:resourcetype>'),
+        ...[...this.books].map(([slug, book]) => response(`/home/${slug}/`, [
+          `<d:displayname>${book.displayName}</d:displayname>`,
+          `<cs:getctag>ctag-${book.version}</cs:getctag>`,
+          `<d:sync-token>${this.token(slug, book.version)}</d:sync-token>`,
+          '<d:resourcetype><d:collection/><card:addressbook/></d:resourcetype>',
+        ].join(''))),
+      ]);
+    }
+
+    const slug = path.split('/')[2];
+    const book = this.books.get(slug);
+    if (!book) return this.reply(res, 404, '');
+
+    if (req.method === 'PROPFIND') {
+      const reports = ['addressbook-query', 'addressbook-multiget', ...(book.syncCollection ? ['sync-collection'] : [])];
+      const reportSet = reports.map(r => `<d:supported-report><d:report><${r.startsWith('sync') ? 'd' : 'card'}:${r}/></d:report></d:supported-report>`);
+      return this.multistatus(res, [response(path, `<d:supported-report-set>${reportSet.join('')}</d:supported-report-set>`)]);
+    }
+
+    if (req.method === 'PUT' || req.method === 'DELETE') {
+      this.requests.push(`${req.method} ${path}`);
+      if (req.method === 'DELETE') {
+        book.cards.delete(path);
+        book.removed.set(path, ++book.version);
+        return this.reply(res, 204, '');
+      }
+      const current = book.cards.get(path);
+      const ifMatch = req.headers['if-match'];
+      if ((ifMatch && ifMatch !== current?.etag) || (req.headers['if-none-match'] === '*' && current)) {
+        return this.reply(res, 412, '');
+      }
+      const version = ++book.version;
+      const etag = `"${path.split('/').pop()}-${version}"`;
+      const created = !current;
+      book.cards.set(path, { data: body, etag, version });
+      book.removed.delete(path);
+      res.writeHead(created ? 201 : 204, { ETag: etag });
+      return void res.end();
+    }
+
+    const report = ['sync-collection', 'addressbook-multiget', 'addressbook-query'].find(r => body.includes(r));
+    this.requests.push(`${req.method} ${path}${report ? ` ${report}` : ''}`);
+
+    if (report === 'addressbook-query') {
+      const withData = body.includes('address-data');
+      return this.multistatus(res, [...book.cards].map(([href, card]) => cardResponse(href, card, withData)));
+    }
+
+    if (report === 'addressbook-multiget') {
+      const hrefs = [...body.matchAll(/<(?:\w+:)?href>([^<]+)</g)].map(m => m[1]);
+      return this.multistatus(res, hrefs.map(href => {
+        const card = book.cards.get(href);
+        return card ? cardResponse(href, card, true) : `<d:response><d:href>${href}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`;
+      }));
+    }
+
+    if (report === 'sync-collection' && book.syncCollection) {
+      const token = /sync-token>([^<]*)</.exec(body)?.[1] ?? '';
+      const since = token ? Number(token.split('/').pop()) : 0;
+      if (token && !(since >= book.oldestToken)) {
+        return this.reply(res, 403, `<?xml version="1.0" encoding="utf-8"?><d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>`);
+      }
+      const changed = [...book.cards].filter(([, card]) => card.version > since).map(([href, card]) => cardResponse(href, card, false));
+      const removed = [...book.removed].filter(([, version]) => version > since)
+        .map(([href]) => `<d:response><d:href>${href}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`);
+      return this.multistatus(res, [...changed, ...removed], `<d:sync-token>${this.token(slug, book.version)}</d:sync-token>`);
+    }
+
+    this.reply(res, 501, '');
+  }
+
+  private token(slug: string, version: number): string {
+    return `http://stub/sync/${slug}/${version}`;
+  }
+
+  private multistatus(res: http.ServerResponse, responses: string[], trailer: string = ''): void {
+    this.reply(res, 207, `<?xml version="1.0" encoding="utf-8"?><d:multistatus ${NAMESPACES}>${responses.join('')}${trailer}</d:multistatus>`);
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/xml; charset=utf-8' });
+    res.end(body);
+  }
+}
+
+function response(href: string, props: string): string {
+  return `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+}
+
+function cardResponse(href: string, card: StubCard, withData: boolean): string {
+  const data = withData ? `<card:address-data><![CDATA[${card.data}]]></card:address-data>` : '';
+  return response(href, `<d:getetag>${card.etag}</d:getetag>${data}`);
+}
@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CardDAVProvider } from '../../src/providers/carddav.js';
+import { SyncEngine } from '../../src/sync/engine.js';
+import { createContact } from '../../src/contacts/model.js';
+import { PreconditionFailedError } from '../../src/utils/errors.js';
+import { createTestStore, makeContact } from '../helpers.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+import { CardDAVStub } from './carddav-stub.js';
+
+let stub: CardDAVStub;
+
+beforeEach(async () => {
+  stub = new CardDAVStub();
+  await stub.start();
+  stub.addBook('personal', 'Personal');
+  stub.put('personal', 'ada', 'Ada Lovelace');
+  stub.put('personal', 'grace', 'Grace Hopper');
+  stub.addBook('work', 'Work', { syncCollection: false });
+  stub.put('work', 'alan', 'Alan Turing');
+});
+
+afterEach(async () => {
+  await stub.stop();
+});
+
+function createProvider(): CardDAVProvider {
+  return new CardDAVProvider('dav', { serverUrl: stub.url, username: 'user', password: 'pass' });
+}
+
+/** Full fetch, then hand the provider the etags the engine would have recorded. */
+async function syncedProvider(): Promise<CardDAVProvider> {
+  const provider = createProvider();
+  const contacts = await provider.fetchAll();
+  const etags = Object.fromEntries(contacts.map(c => [c.metadata.providerIds.dav, c.metadata.etag!]));
+  provider.loadSyncState({ ...provider.saveSyncState(), etags });
+  stub.requests = [];
+  return provider;
+}
+
+describe('CardDAVProvider incremental sync', () => {
+  it('should record each address book\'s ctag and sync-token on a full fetch', async () => {
+    const provider = createProvider();
+    expect(await provider.fetchChanges()).toBeNull();
+
+    const contacts = await provider.fetchAll();
+
+    expect(contacts.map(c => c.fullName).sort()).toEqual(['Ada Lovelace', 'Alan Turing', 'Grace Hopper']);
+    expect(provider.saveSyncState().collections).toEqual({
+      [`${stub.url}home/personal/`]: { ctag: 'ctag-3', syncToken: 'http://stub/sync/personal/3' },
+      [`${stub.url}home/work/`]: { ctag: 'ctag-2', syncToken: 'http://stub/sync/work/2' },
+    });
+  });
+
+  it('should skip address books whose ctag is unchanged', async () => {
+    const provider = await syncedProvider();
+
+    expect(await provider.fetchChanges()).toEqual({ changed: [], deletedIds: [] });
+    expect(stub.requests).toEqual([]);
+  });
+
+  it('should fetch changes and removals with sync-collection and multiget', async () => {
+    const provider = await syncedProvider();
+    stub.put('personal', 'ada', 'Ada King');
+    stub.remove('personal', 'grace');
+
+    const changes = await provider.fetchChanges();
+
+    expect(changes?.changed.map(c => c.fullName)).toEqual(['Ada King']);
+    expect(changes?.deletedIds).toEqual([`${stub.url}home/personal/grace.vcf`]);
+    expect(stub.requests).toEqual([
+      'REPORT /home/personal/ sync-collection',
+      'REPORT /home/personal/ addressbook-multiget',
+    ]);
+    expect(provider.saveSyncState().collections?.[`${stub.url}home/personal/`]).toEqual({
+      ctag: 'ctag-5',
+      syncToken: 'http://stub/sync/personal/5',
+    });
+  });
+
+  it('should compare etags when the server has no sync-collection support', async () => {
+    const provider = await syncedProvider();
+    stub.put('work', 'alan', 'Alan M. Turing');
+    stub.put('work', 'joan', 'Joan Clarke');
+
+    const changes = await provider.fetchChanges();
+
+    expect(changes?.changed.map(c => c.fullName).sort()).toEqual(['Alan M. Turing', 'Joan Clarke']);
+    expect(changes?.deletedIds).toEqual([]);
+    expect(stub.requests).toEqual([
+      'REPORT /home/work/ addressbook-query',
+      'REPORT /home/work/ addressbook-multiget',
+    ]);
+  });
+
+  it('should fall back to comparing etags when the sync-token has expired', async () => {
+    const provider = await syncedProvider();
+    stub.remove('personal', 'ada');
+    stub.expireTokens('personal');
+
+    const changes = await provider.fetchChanges();
+
+    expect(changes).toEqual({ changed: [], deletedIds: [`${stub.url}home/personal/ada.vcf`] });
+    expect(stub.requests).toEqual([
+      'REPORT /home/personal/ sync-collection',
+      'REPORT /home/personal/ addressbook-query',
+    ]);
+    expect(provider.saveSyncState().collections?.[`${stub.url}home/personal/`]?.syncToken).toBe('http://stub/sync/personal/4');
+  });
+
+  it('should do a full fetch when an address book is added', async () => {
+    const provider = await syncedProvider();
+    stub.addBook('family', 'Family');
+
+    expect(await provider.fetchChanges()).toBeNull();
+  });
+});
+
+describe('SyncEngine with CardDAV deltas', () => {
+  let store: GitContactStore;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, cleanup } = await createTestStore());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should pull only what changed since the state saved by the previous sync', async () => {
+    const engine = new SyncEngine(store);
+    const options = { direction: 'pull' as const, conflictStrategy: 'newest-wins' as const, dryRun: false, deleteThreshold: 50 };
+
+    stub.requests = [];
+    const first = await engine.sync(createProvider(), options);
+    expect(first.errors).toEqual([]);
+    expect(first.pulled).toBe(3);
+    // Group sync reuses the vCards the full fetch downloaded
+    expect(stub.requests.filter(r => r.startsWith('REPORT'))).toEqual([
+      'REPORT /home/personal/ addressbook-query',
+      'REPORT /home/personal/ addressbook-multiget',
+      'REPORT /home/work/ addressbook-query',
+      'REPORT /home/work/ addressbook-multiget',
+    ]);
+
+    stub.put('personal', 'ada', 'Ada King');
+    stub.remove('work', 'alan');
+    stub.requests = [];
+
+    const second = await engine.sync(createProvider(), options);
+
+    expect(second.errors).toEqual([]);
+    expect(second.pulled).toBe(1);
+    expect(second.deleted.local).toBe(1);
+    // Contacts come from the deltas; group sync then reads only the books that changed
+    expect(stub.requests).toEqual([
+      'REPORT /home/personal/ sync-collection',
+      'REPORT /home/personal/ addressbook-multiget',
+      'REPORT /home/work/ addressbook-query',
+      'REPORT /home/personal/ addressbook-query',
+      'REPORT /home/personal/ addressbook-multiget',
+      'REPORT /home/work/ addressbook-query',
+    ]);
+    expect((await store.list()).map(c => c.fullName).sort()).toEqual(['Ada King', 'Grace Hopper']);
+
+    stub.requests = [];
+    expect(await engine.sync(createProvider(), options)).toMatchObject({ pulled: 0, errors: [] });
+    expect(stub.requests).toEqual([]);
+  });
+
+  it('should read groups once per sync, and keep their etags for writing back later', async () => {
+    stub.put('personal', 'team', 'Team', ['KIND:group', 'MEMBER:urn:uuid:ada']);
+    const engine = new SyncEngine(store);
+    const options = {
+      direction: 'both' as const, conflictStrategy: 'newest-wins' as const, dryRun: false,
+      filter: { include: { groups: ['Team'] } },
+    };
+    stub.requests = [];
+
+    expect(await engine.sync(createProvider(), options)).toMatchObject({ pulled: 1, groups: { pulled: 1 }, errors: [] });
+    expect(stub.requests.filter(r => r.startsWith('REPORT'))).toHaveLength(4);
+    // The first sync wrote Ada back; the next one picks that up
+    expect(await engine.sync(createProvider(), options)).toMatchObject({ pushed: 0, errors: [] });
+
+    // Nothing changed remotely, so the books aren't reread: the saved etag lets the edit through,
+    // and only the members' vCards are fetched, for their UIDs
+    const [team] = await store.listGroups();
+    await store.updateGroup(team.id, { description: 'Analytical engine' });
+    stub.requests = [];
+    const edited = await engine.sync(createProvider(), options);
+
+    expect(edited).toMatchObject({ groups: { pushed: 1 }, errors: [] });
+    expect(stub.requests).toEqual(['REPORT /home/personal/ addressbook-multiget', 'PUT /home/personal/team.vcf']);
+    expect(stub.books.get('personal')!.cards.get('/home/personal/team.vcf')!.data).toContain('Analytical engine');
+  });
+});
+
+describe('CardDAVProvider address book selection', () => {
+  function selectingProvider(addressBooks: unknown): CardDAVProvider {
+    return new CardDAVProvider('dav', { serverUrl: stub.url, username: 'user', password: 'pass', addressBooks });
+  }
+
+  it('should only fetch the selected address books, by display name or URL', async () => {
+    expect((await selectingProvider(['Work']).fetchAll()).map(c => c.fullName)).toEqual(['Alan Turing']);
+    expect((await selectingProvider(['/home/personal']).fetchAll()).map(c => c.fullName).sort())
+      .toEqual(['Ada Lovelace', 'Grace Hopper']);
+  });
+
+  it('should fail on an address book that does not exist', async () => {
+    await expect(selectingProvider(['Holiday cards']).fetchAll())
+      .rejects.toThrow('Address book not found: Holiday cards (available: Personal, Work)');
+  });
+
+  it('should tag contacts with the category mapped to their address book', async () => {
+    const contacts = await selectingProvider(['Personal', { book: 'Work', category: 'work' }]).fetchAll();
+
+    const byName = new Map(contacts.map(c => [c.fullName, c.categories]));
+    expect(byName.get('Alan Turing')).toEqual(['work']);
+    expect(byName.get('Ada Lovelace')).toEqual([]);
+  });
+
+  it('should push new contacts to the address book matching their category', async () => {
+    const provider = selectingProvider(['Personal', { book: 'Work', category: 'work' }]);
+    const colleague = createContact(makeContact({ fullName: 'Joan Clarke', categories: ['Work'] }));
+    const friend = createContact(makeContact({ fullName: 'Mary Somerville' }));
+
+    expect((await provider.pushContact(colleague)).remoteId).toBe(`${stub.url}home/work/${colleague.id}.vcf`);
+    expect((await provider.pushContact(friend)).remoteId).toBe(`${stub.url}home/personal/${friend.id}.vcf`);
+  });
+
+  it('should report address books mapped to a group as groups of their contacts', async () => {
+    const groups = await selectingProvider(['Personal', { book: 'Work', group: 'Colleagues' }]).fetchGroups();
+
+    expect(groups).toEqual([{
+      remoteId: `${stub.url}home/work/`,
+      name: 'Colleagues',
+      memberRemoteIds: [`${stub.url}home/work/alan.vcf`],
+    }]);
+  });
+
+  it('should list every address book with whether it is synced', async () => {
+    const books = await selectingProvider([{ book: 'Work', category: 'work' }]).listAddressBooks();
+
+    expect(books).toEqual([
+      { url: `${stub.url}home/personal/`, displayName: 'Personal', selected: false },
+      { url: `${stub.url}home/work/`, displayName: 'Work', selected: true, category: 'work' },
+    ]);
+  });
+});
+
+describe('CardDAVProvider conditional writes', () => {
+  it('should send the etag as If-Match and return the new one', async () => {
+    const provider = createProvider();
+    const [ada] = (await provider.fetchAll()).filter(c => c.fullName === 'Ada Lovelace');
+    const remoteId = ada.metadata.providerIds.dav;
+
+    const revision = await provider.updateContact(remoteId, { ...ada, fullName: 'Ada King' }, ada.metadata.etag);
+
+    expect(revision).toEqual({ remoteId, etag: '"ada.vcf-4"' });
+    expect(stub.books.get('personal')!.cards.get('/home/personal/ada.vcf')!.data).toContain('FN:Ada King');
+  });
+
+  it('should refuse to overwrite a vCard that changed or whose etag is unknown', async () => {
+    const provider = createProvider();
+    const [ada] = (await provider.fetchAll()).filter(c => c.fullName === 'Ada Lovelace');
+    const remoteId = ada.metadata.providerIds.dav;
+    stub.put('personal', 'ada', 'Ada, Countess of Lovelace');
+
+    await expect(provider.updateContact(remoteId, ada, ada.metadata.etag)).rejects.toThrow(PreconditionFailedError);
+    await expect(provider.updateContact(remoteId, ada)).rejects.toThrow(PreconditionFailedError);
+    expect(stub.books.get('personal')!.cards.get('/home/personal/ada.vcf')!.data).toContain('FN:Ada, Countess of Lovelace');
+  });
+
+  it('should update group vCards only at the revision last fetched, and report failed writes', async () => {
+    stub.put('personal', 'team', 'Team', ['KIND:group', 'MEMBER:urn:uuid:ada']);
+    const provider = createProvider();
+    const remoteUrl = `${stub.url}home/personal/team.vcf`;
+    const now = new Date().toISOString();
+    const team = { id: 'team', name: 'Team', memberIds: [], metadata: { created: now, modified: now, providerIds: { dav: remoteUrl } } };
+
+    await expect(provider.updateGroup(remoteUrl, team, [])).rejects.toThrow(PreconditionFailedError);
+    await provider.fetchGroups();
+    await provider.updateGroup(remoteUrl, { ...team, name: 'Core Team' }, []);
+    expect(stub.books.get('personal')!.cards.get('/home/personal/team.vcf')!.data).toContain('FN:Core Team');
+
+    stub.put('personal', 'team', 'Other Team', ['KIND:group']);
+    await expect(provider.updateGroup(remoteUrl, team, [])).rejects.toThrow(PreconditionFailedError);
+    expect(stub.books.get('personal')!.cards.get('/home/personal/team.vcf')!.data).toContain('FN:Other Team');
+
+    await expect(provider.pushGroup(team, [])).rejects.toThrow('412');
+  });
+
+  it('should not create over an existing vCard', async () => {
+    const provider = createProvider();
+    const [ada] = (await provider.fetchAll()).filter(c => c.fullName === 'Ada Lovelace');
+
+    await expect(provider.pushContact(ada)).rejects.toThrow('412');
+  });
+});
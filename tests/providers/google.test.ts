@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { GoogleProvider } from '../../src/providers/google.js';
+import { SyncEngine } from '../../src/sync/engine.js';
+import { PreconditionFailedError } from '../../src/utils/errors.js';
+import { createTestStore } from '../helpers.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+
+/**
+ * Stub of the People API connections endpoint. Every change bumps a version;
+ * sync tokens are `v<version>` and deltas return people changed after it,
+ * with deleted ones as `metadata.deleted` tombstones. Pages hold two people.
+ */
+class PeopleStub {
+  version = 0;
+  people = new Map<string, { person: any; version: number; deleted: boolean }>();
+  expiredTokens = new Set<string>();
+  requests: URLSearchParams[] = [];
+  /** Status to fail person reads with, as when the API is unavailable or over quota */
+  readFailure?: number;
+
+  put(resourceName: string, displayName: string, phone?: string) {
+    this.people.set(resourceName, {
+      person: {
+        resourceName,
+        etag: `etag-${++this.version}`,
+        names: [{ displayName }],
+        phoneNumbers: phone ? [{ value: phone, type: 'mobile' }] : [],
+      },
+      version: this.version,
+      deleted: false,
+    });
+  }
+
+  remove(resourceName: string) {
+    const entry = this.people.get(resourceName)!;
+    entry.deleted = true;
+    entry.version = ++this.version;
+  }
+
+  async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const url = new URL(req.url!, 'http://stub');
+    if (url.pathname === '/token') {
+      return json(res, 200, { access_token: 'stub-access-token', expires_in: 3600, token_type: 'Bearer' });
+    }
+    const update = /^\/v1\/(people\/\w+):updateContact$/.exec(url.pathname);
+    if (update) {
+      const entry = this.people.get(update[1])!;
+      const person = JSON.parse(body);
+      if (person.etag !== entry.person.etag) {
+        return json(res, 400, {
+          error: { code: 400, status: 'FAILED_PRECONDITION', message: 'Request person.etag is different than the current person.etag.' },
+        });
+      }
+      this.put(update[1], person.names[0].displayName);
+      return json(res, 200, this.people.get(update[1])!.person);
+    }
+    if (url.pathname === '/v1/contactGroups') return json(res, 200, { contactGroups: [] });
+    const read = /^\/v1\/(people\/\w+)$/.exec(url.pathname);
+    if (read) {
+      if (this.readFailure) return json(res, this.readFailure, { error: { code: this.readFailure, message: 'Unavailable' } });
+      const entry = this.people.get(read[1]);
+      return entry && !entry.deleted ? json(res, 200, entry.person) : json(res, 404, { error: { code: 404, status: 'NOT_FOUND' } });
+    }
+    if (url.pathname !== '/v1/people/me/connections') return json(res, 404, {});
+    this.requests.push(url.searchParams);
+
+    const syncToken = url.searchParams.get('syncToken');
+    if (syncToken && this.expiredTokens.has(syncToken)) {
+      return json(res, 400, {
+        error: {
+          code: 400,
+          status: 'FAILED_PRECONDITION',
+          message: 'Sync token is expired. Clear local cache and retry call without the sync token.',
+          details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'EXPIRED_SYNC_TOKEN' }],
+        },
+      });
+    }
+
+    const since = syncToken ? Number(syncToken.slice(1)) : -1;
+    const matching = [...this.people.values()]
+      .filter(e => e.version > since && (syncToken || !e.deleted))
+      .map(e => (e.deleted ? { resourceName: e.person.resourceName, metadata: { deleted: true } } : e.person));
+
+    const offset = Number(url.searchParams.get('pageToken') ?? 0);
+    const page = matching.slice(offset, offset + 2);
+    const more = offset + 2 < matching.length;
+    json(res, 200, {
+      connections: page,
+      nextPageToken: more ? String(offset + 2) : undefined,
+      nextSyncToken: !more && url.searchParams.get('requestSyncToken') === 'true' ? `v${this.version}` : undefined,
+    });
+  }
+}
+
+function json(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+let server: http.Server;
+let stub: PeopleStub;
+let provider: GoogleProvider;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => stub.handle(req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  const { port } = server.address() as AddressInfo;
+  stub = new PeopleStub();
+  stub.put('people/c1', 'Ada Lovelace', '+15550001111');
+  stub.put('people/c2', 'Grace Hopper');
+  stub.put('people/c3', 'Alan Turing');
+  provider = new GoogleProvider('google', {
+    clientId: 'id',
+    clientSecret: 'secret',
+    refreshToken: 'refresh',
+    rootUrl: `http://127.0.0.1:${port}/`,
+    tokenUrl: `http://127.0.0.1:${port}/token`,
+  });
+});
+
+describe('GoogleProvider incremental sync', () => {
+  it('should keep the sync token from a full fetch across pages', async () => {
+    expect(await provider.fetchChanges()).toBeNull();
+
+    const contacts = await provider.fetchAll();
+
+    expect(contacts.map(c => c.fullName)).toEqual(['Ada Lovelace', 'Grace Hopper', 'Alan Turing']);
+    expect(provider.saveSyncState().syncToken).toBe('v3');
+    expect(stub.requests.map(r => r.get('requestSyncToken'))).toEqual(['true', 'true']);
+  });
+
+  it('should fetch only changed people and deletion tombstones', async () => {
+    await provider.fetchAll();
+    stub.put('people/c1', 'Ada King', '+15550002222');
+    stub.remove('people/c2');
+
+    const changes = await provider.fetchChanges();
+
+    expect(changes?.changed.map(c => c.fullName)).toEqual(['Ada King']);
+    expect(changes?.deletedIds).toEqual(['people/c2']);
+    expect(stub.requests.at(-1)?.get('syncToken')).toBe('v3');
+    expect(provider.saveSyncState().syncToken).toBe('v5');
+  });
+
+  it('should drop an expired token so the caller falls back to a full fetch', async () => {
+    provider.loadSyncState({ syncToken: 'v0', etags: {} });
+    stub.expiredTokens.add('v0');
+
+    expect(await provider.fetchChanges()).toBeNull();
+    expect(provider.saveSyncState().syncToken).toBeUndefined();
+  });
+});
+
+describe('GoogleProvider fetchOne', () => {
+  it('should only report a person missing when the API says it is', async () => {
+    expect((await provider.fetchOne('people/c1'))?.fullName).toBe('Ada Lovelace');
+    stub.remove('people/c1');
+    expect(await provider.fetchOne('people/c1')).toBeNull();
+
+    stub.readFailure = 403;
+    await expect(provider.fetchOne('people/c2')).rejects.toThrow();
+  });
+});
+
+describe('GoogleProvider updates', () => {
+  it('should update with the known etag and return the new one', async () => {
+    const [ada] = await provider.fetchAll();
+
+    const revision = await provider.updateContact('people/c1', { ...ada, fullName: 'Ada King' }, ada.metadata.etag);
+
+    expect(revision).toEqual({ remoteId: 'people/c1', etag: 'etag-4' });
+  });
+
+  it('should not overwrite a person changed since it was fetched', async () => {
+    const [ada] = await provider.fetchAll();
+    stub.put('people/c1', 'Ada, Countess of Lovelace');
+
+    await expect(provider.updateContact('people/c1', ada, ada.metadata.etag)).rejects.toThrow(PreconditionFailedError);
+    await expect(provider.updateContact('people/c1', ada)).rejects.toThrow(PreconditionFailedError);
+    expect(stub.people.get('people/c1')!.person.names[0].displayName).toBe('Ada, Countess of Lovelace');
+  });
+});
+
+describe('SyncEngine with Google deltas', () => {
+  let store: GitContactStore;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, cleanup } = await createTestStore());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should apply changes and deletions from the token saved by the previous sync', async () => {
+    const engine = new SyncEngine(store);
+    const options = { direction: 'pull' as const, conflictStrategy: 'newest-wins' as const, dryRun: false, deleteThreshold: 50 };
+
+    const first = await engine.sync(provider, options);
+    expect(first.errors).toEqual([]);
+    expect(first.pulled).toBe(3);
+
+    stub.put('people/c1', 'Ada Lovelace', '+15550002222');
+    stub.remove('people/c3');
+    stub.requests = [];
+
+    // A new provider instance, as after a restart, picks the token up from the store
+    const restarted = new GoogleProvider('google', (provider as any).config);
+    const second = await engine.sync(restarted, options);
+
+    expect(second.errors).toEqual([]);
+    expect(stub.requests.every(r => r.get('syncToken') === 'v3')).toBe(true);
+    expect(second.pulled).toBe(1);
+    expect(second.deleted.local).toBe(1);
+    const active = await store.list();
+    expect(active.map(c => c.fullName).sort()).toEqual(['Ada Lovelace', 'Grace Hopper']);
+    expect(active.find(c => c.fullName === 'Ada Lovelace')!.phones[0].value).toBe('+15550002222');
+  });
+});
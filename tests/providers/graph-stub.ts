@@ -0,0 +1,156 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+interface StubContact {
+  item: any;
+  folder: string;
+  version: number;
+  deleted: boolean;
+}
+
+/**
+ * Minimal in-process Microsoft Graph: the token endpoint, contact folders,
+ * per-folder contact delta queries, and contact GET, POST, PATCH (honouring
+ * If-Match) and DELETE. Every change bumps a version; delta tokens are
+ * versions and delta pages hold two contacts. The default folder has ID
+ * `default`.
+ */
+export class GraphStub {
+  version = 0;
+  folders = new Map<string, string>([['default', 'Contacts']]);
+  contacts = new Map<string, StubContact>();
+  /** Delta tokens older than this are answered with 410 Gone */
+  oldestToken = 0;
+  /** Answer this many upcoming requests with 429 Too Many Requests */
+  throttle = 0;
+  /** Answer contact GETs with this status instead, e.g. 503 */
+  readFailure = 0;
+  /** Refresh tokens sent to the token endpoint */
+  refreshTokens: string[] = [];
+  /** "METHOD path" for every Graph request, for asserting on traffic */
+  requests: string[] = [];
+  private server = http.createServer((req, res) => void this.handle(req, res));
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  put(folder: string, id: string, fields: Record<string, unknown>): void {
+    const version = ++this.version;
+    this.contacts.set(id, {
+      item: { id, parentFolderId: folder, ...fields, changeKey: `ck${version}`, '@odata.etag': `W/"ck${version}"` },
+      folder,
+      version,
+      deleted: false,
+    });
+  }
+
+  remove(id: string): void {
+    const entry = this.contacts.get(id)!;
+    entry.deleted = true;
+    entry.version = ++this.version;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const url = new URL(req.url!, 'http://stub');
+
+    if (url.pathname === '/token') {
+      this.refreshTokens.push(new URLSearchParams(body).get('refresh_token') ?? '');
+      return json(res, 200, { access_token: 'stub-access-token', expires_in: 3600, refresh_token: `rotated-${this.refreshTokens.length}` });
+    }
+    if (req.headers.authorization !== 'Bearer stub-access-token') return json(res, 401, { error: { message: 'Unauthorized' } });
+
+    const path = url.pathname.replace(/^\/v1\.0\//, '');
+    this.requests.push(`${req.method} ${path}`);
+    if (this.throttle > 0) {
+      this.throttle--;
+      res.writeHead(429, { 'Retry-After': '0' });
+      res.end();
+      return;
+    }
+
+    if (path === 'me/contactFolders/contacts') return json(res, 200, { id: 'default', displayName: this.folders.get('default') });
+    if (path === 'me/contactFolders') {
+      const value = [...this.folders].filter(([id]) => id !== 'default').map(([id, displayName]) => ({ id, displayName }));
+      return json(res, 200, { value });
+    }
+
+    const delta = /^me\/contactFolders\/([^/]+)\/contacts\/delta$/.exec(path);
+    if (delta) return this.delta(res, url, decodeURIComponent(delta[1]));
+
+    const create = /^me\/contactFolders\/([^/]+)\/contacts$/.exec(path);
+    if (create && req.method === 'POST') {
+      const id = `c${this.version + 1}`;
+      this.put(decodeURIComponent(create[1]), id, JSON.parse(body));
+      return json(res, 201, this.contacts.get(id)!.item);
+    }
+
+    const one = /^me\/contacts\/([^/]+)$/.exec(path);
+    const entry = one ? this.contacts.get(decodeURIComponent(one[1])) : undefined;
+    if (!entry || entry.deleted) return json(res, 404, { error: { message: 'Not found' } });
+    switch (req.method) {
+      case 'GET':
+        if (this.readFailure) {
+          res.writeHead(this.readFailure, { 'Retry-After': '0' });
+          res.end();
+          return;
+        }
+        return json(res, 200, entry.item);
+      case 'PATCH': {
+        if (req.headers['if-match'] !== entry.item['@odata.etag']) return json(res, 412, { error: { message: 'Precondition failed' } });
+        const { id, changeKey: _changeKey, '@odata.etag': _etag, ...current } = entry.item;
+        this.put(entry.folder, id, { ...current, ...JSON.parse(body) });
+        return json(res, 200, this.contacts.get(id)!.item);
+      }
+      case 'DELETE':
+        this.remove(entry.item.id);
+        res.writeHead(204);
+        res.end();
+        return;
+      default:
+        return json(res, 405, {});
+    }
+  }
+
+  private delta(res: http.ServerResponse, url: URL, folder: string): void {
+    const base = `${this.url}v1.0/me/contactFolders/${encodeURIComponent(folder)}/contacts/delta`;
+    const token = url.searchParams.get('$deltatoken');
+    if (token !== null && Number(token) < this.oldestToken) {
+      return json(res, 410, { error: { code: 'syncStateNotFound', message: 'The sync state is gone' } });
+    }
+
+    // Page links carry the version the round started at, so pages stay consistent
+    const [since, offset, upTo] = (url.searchParams.get('$skiptoken') ?? `${token ?? -1}:0:${this.version}`).split(':').map(Number);
+    const matching = [...this.contacts.values()]
+      .filter(e => e.folder === folder && e.version > since && e.version <= upTo && (since >= 0 || !e.deleted))
+      .map(e => (e.deleted ? { id: e.item.id, '@removed': { reason: 'deleted' } } : withoutEtag(e.item)));
+
+    const page = matching.slice(offset, offset + 2);
+    if (offset + 2 < matching.length) {
+      return json(res, 200, { value: page, '@odata.nextLink': `${base}?$skiptoken=${since}:${offset + 2}:${upTo}` });
+    }
+    json(res, 200, { value: page, '@odata.deltaLink': `${base}?$deltatoken=${upTo}` });
+  }
+}
+
+/** Delta pages carry the change key but, like Graph's, no @odata.etag. */
+function withoutEtag(item: any): any {
+  const { '@odata.etag': _etag, ...rest } = item;
+  return rest;
+}
+
+function json(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { LocalProvider } from '../../src/providers/local.js';
+import { SyncEngine } from '../../src/sync/engine.js';
+import { createContact } from '../../src/contacts/model.js';
+import { PreconditionFailedError } from '../../src/utils/errors.js';
+import { createTestStore, makeContact } from '../helpers.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+
+let store: GitContactStore;
+let other: GitContactStore;
+let cleanups: (() => Promise<void>)[];
+
+beforeEach(async () => {
+  const local = await createTestStore();
+  const team = await createTestStore();
+  ({ store } = local);
+  other = team.store;
+  cleanups = [local.cleanup, team.cleanup];
+});
+
+afterEach(async () => {
+  for (const cleanup of cleanups) await cleanup();
+});
+
+function createProvider(): LocalProvider {
+  return new LocalProvider('team', { path: other.path });
+}
+
+/** Full fetch, then hand the provider the etags the engine would have recorded. */
+async function syncedProvider(): Promise<LocalProvider> {
+  const provider = createProvider();
+  const contacts = await provider.fetchAll();
+  const etags = Object.fromEntries(contacts.map(c => [c.id, c.metadata.etag!]));
+  provider.loadSyncState({ ...provider.saveSyncState(), etags });
+  return provider;
+}
+
+describe('LocalProvider', () => {
+  it('should only accept an existing store other than the server\'s own, without creating one', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'contacts-mcp-local-'));
+    cleanups.push(() => fs.rm(dir, { recursive: true, force: true }));
+    const missing = path.join(dir, 'typo');
+
+    expect(await createProvider().isConfigured()).toBe(true);
+    expect(await new LocalProvider('team', { path: missing }).isConfigured()).toBe(false);
+    expect(await new LocalProvider('team', { path: dir }).isConfigured()).toBe(false);
+    await expect(fs.stat(missing)).rejects.toThrow('ENOENT');
+    expect(await fs.readdir(dir)).toEqual([]);
+
+    const env = { ...process.env };
+    process.env.CONTACTS_MCP_CONFIG = path.join(dir, 'config.json');
+    process.env.CONTACTS_MCP_STORE = store.path;
+    try {
+      const own = new LocalProvider('self', { path: `${store.path}/` });
+      expect(await own.isConfigured()).toBe(false);
+      await expect(own.fetchAll()).rejects.toThrow('own store');
+    } finally {
+      process.env = env;
+    }
+  });
+
+  it('should report the other store\'s contacts by UID, without its links to other providers', async () => {
+    const ada = await other.create(makeContact({ fullName: 'Ada Lovelace' }));
+    await other.setProviderId(ada.id, 'google', 'people/c1');
+
+    const [fetched] = await createProvider().fetchAll();
+
+    expect(fetched.id).toBe(ada.id);
+    expect(fetched.metadata.providerIds).toEqual({ team: ada.id });
+    expect(fetched.metadata.etag).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('should only read contacts changed or archived in commits since the last fetch', async () => {
+    const ada = await other.create(makeContact({ fullName: 'Ada Lovelace' }));
+    const grace = await other.create(makeContact({ fullName: 'Grace Hopper' }));
+    const provider = await syncedProvider();
+
+    await other.update(ada.id, { nickname: 'Countess' });
+    await other.delete(grace.id);
+    const alan = await other.create(makeContact({ fullName: 'Alan Turing' }));
+
+    const changes = await provider.fetchChanges();
+
+    expect(changes!.changed.map(c => c.id).sort()).toEqual([ada.id, alan.id].sort());
+    expect(changes!.deletedIds).toEqual([grace.id]);
+    expect(await provider.fetchChanges()).toEqual({ changed: [], deletedIds: [] });
+
+    provider.loadSyncState({ etags: {}, syncToken: '0000000000000000000000000000000000000000' });
+    expect(await provider.fetchChanges()).toBeNull();
+  });
+
+  it('should keep the UID when pushing and refuse stale updates', async () => {
+    const provider = await syncedProvider();
+    const katherine = createContact({ fullName: 'Katherine Johnson', nickname: 'Kat' });
+
+    const revision = await provider.pushContact(katherine);
+    expect(revision.remoteId).toBe(katherine.id);
+    await expect(provider.pushContact(katherine)).rejects.toThrow('already exists');
+
+    const renamed = { ...katherine, fullName: 'Katherine G. Johnson', nickname: undefined };
+    await expect(provider.updateContact(katherine.id, renamed)).rejects.toThrow(PreconditionFailedError);
+    await expect(provider.updateContact(katherine.id, renamed, 'stale')).rejects.toThrow(PreconditionFailedError);
+    await provider.updateContact(katherine.id, renamed, revision.etag);
+
+    const stored = await other.get(katherine.id);
+    expect(stored.fullName).toBe('Katherine G. Johnson');
+    expect(stored.nickname).toBeUndefined();
+
+    await provider.deleteContact(katherine.id);
+    await provider.deleteContact(katherine.id);
+    expect(await other.list()).toEqual([]);
+  });
+});
+
+describe('SyncEngine with another store', () => {
+  it('should link contacts by UID and keep both stores in step', async () => {
+    const engine = new SyncEngine(store);
+    const options = { direction: 'both' as const, conflictStrategy: 'newest-wins' as const, dryRun: false, deleteThreshold: 50 };
+    const shared = await store.create(makeContact({ fullName: 'Ada Lovelace' }));
+    await other.create(makeContact({ id: shared.id, fullName: 'Ada Lovelace' }));
+    const grace = await other.create(makeContact({ fullName: 'Grace Hopper' }));
+    const alan = await store.create(makeContact({ fullName: 'Alan Turing' }));
+
+    const first = await engine.sync(createProvider(), options);
+
+    expect(first.errors).toEqual([]);
+    expect(first.linked).toBe(1);
+    expect((await store.get(grace.id)).fullName).toBe('Grace Hopper');
+    expect((await other.get(alan.id)).fullName).toBe('Alan Turing');
+
+    await other.update(shared.id, { nickname: 'Countess' });
+    await other.delete(grace.id);
+    await store.update(alan.id, { organization: { name: 'Bletchley Park' } });
+
+    const second = await engine.sync(createProvider(), options);
+
+    expect(second.errors).toEqual([]);
+    expect((await store.get(shared.id)).nickname).toBe('Countess');
+    expect((await store.list()).map(c => c.fullName).sort()).toEqual(['Ada Lovelace', 'Alan Turing']);
+    expect((await other.get(alan.id)).organization?.name).toBe('Bletchley Park');
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { OutlookProvider } from '../../src/providers/outlook.js';
+import { SyncEngine } from '../../src/sync/engine.js';
+import { createContact } from '../../src/contacts/model.js';
+import { PreconditionFailedError } from '../../src/utils/errors.js';
+import { createTestStore, makeContact } from '../helpers.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+import { GraphStub } from './graph-stub.js';
+
+let stub: GraphStub;
+
+beforeEach(async () => {
+  stub = new GraphStub();
+  await stub.start();
+  stub.folders.set('work-folder', 'Work');
+  stub.put('default', 'ada', {
+    displayName: 'Ada Lovelace',
+    givenName: 'Ada',
+    surname: 'Lovelace',
+    emailAddresses: [{ address: 'ada@example.com', name: 'Ada Lovelace' }],
+    mobilePhone: '+1 555 0100',
+    businessPhones: ['+1 555 0101'],
+    homeAddress: { street: '12 St James Sq', city: 'London', state: '', postalCode: '', countryOrRegion: 'UK' },
+    birthday: '1815-12-10T11:59:00Z',
+  });
+  stub.put('default', 'grace', { displayName: 'Grace Hopper' });
+  stub.put('work-folder', 'alan', { displayName: 'Alan Turing', categories: ['VIP'] });
+});
+
+afterEach(async () => {
+  await stub.stop();
+});
+
+function createProvider(config: Record<string, unknown> = {}): OutlookProvider {
+  return new OutlookProvider('outlook', {
+    clientId: 'client-id',
+    refreshToken: 'refresh-token',
+    graphUrl: `${stub.url}v1.0/`,
+    tokenUrl: `${stub.url}token`,
+    ...config,
+  });
+}
+
+/** Full fetch, then hand the provider the state the engine would have recorded. */
+async function syncedProvider(): Promise<OutlookProvider> {
+  const provider = createProvider();
+  const contacts = await provider.fetchAll();
+  const etags = Object.fromEntries(contacts.map(c => [c.metadata.providerIds.outlook, c.metadata.etag!]));
+  provider.loadSyncState({ ...provider.saveSyncState(), etags });
+  stub.requests = [];
+  return provider;
+}
+
+describe('OutlookProvider', () => {
+  it('should map Graph\'s fixed slots and tag contacts with their folder', async () => {
+    const contacts = await createProvider().fetchAll();
+
+    expect(contacts.map(c => c.fullName)).toEqual(['Ada Lovelace', 'Grace Hopper', 'Alan Turing']);
+    const [ada, , alan] = contacts;
+    expect(ada.emails).toEqual([{ value: 'ada@example.com' }]);
+    expect(ada.phones).toEqual([{ value: '+1 555 0100', type: 'mobile' }, { value: '+1 555 0101', type: 'work' }]);
+    expect(ada.addresses).toEqual([{ street: '12 St James Sq', city: 'London', country: 'UK', type: 'home' }]);
+    expect(ada.birthday).toBe('1815-12-10');
+    expect(ada.metadata.etag).toBe('W/"ck1"');
+    expect(alan.categories).toEqual(['VIP', 'Work']);
+    expect(stub.refreshTokens).toEqual(['refresh-token']);
+  });
+
+  it('should fetch only changes and removals from each folder\'s delta link', async () => {
+    const provider = await syncedProvider();
+    stub.put('default', 'grace', { displayName: 'Grace Brewster Hopper' });
+    stub.remove('alan');
+
+    const changes = await provider.fetchChanges();
+
+    expect(changes!.changed.map(c => c.fullName)).toEqual(['Grace Brewster Hopper']);
+    expect(changes!.deletedIds).toEqual(['alan']);
+    expect(stub.requests.filter(r => r.includes('/delta'))).toEqual([
+      'GET me/contactFolders/default/contacts/delta',
+      'GET me/contactFolders/work-folder/contacts/delta',
+    ]);
+  });
+
+  it('should fall back to a full fetch when a delta link has expired', async () => {
+    const provider = await syncedProvider();
+    stub.oldestToken = stub.version + 1;
+
+    expect(await provider.fetchChanges()).toBeNull();
+    expect(provider.saveSyncState().collections).toBeUndefined();
+  });
+
+  it('should create contacts in the folder named by a category without making it an Outlook category', async () => {
+    const provider = createProvider();
+    const katherine = createContact({ fullName: 'Katherine Johnson', categories: ['work', 'NASA'] });
+
+    const { remoteId } = await provider.pushContact(katherine);
+
+    const created = stub.contacts.get(remoteId)!;
+    expect(created.folder).toBe('work-folder');
+    expect(created.item.categories).toEqual(['NASA']);
+  });
+
+  it('should send the etag as If-Match and refuse stale or missing ones', async () => {
+    const provider = await syncedProvider();
+    const grace = (await provider.fetchOne('grace'))!;
+    const renamed = { ...grace, fullName: 'Grace Brewster Hopper' };
+
+    await expect(provider.updateContact('grace', renamed)).rejects.toThrow(PreconditionFailedError);
+    await expect(provider.updateContact('grace', renamed, 'W/"stale"')).rejects.toThrow(PreconditionFailedError);
+    const revision = await provider.updateContact('grace', renamed, grace.metadata.etag);
+
+    expect(stub.contacts.get('grace')!.item.displayName).toBe('Grace Brewster Hopper');
+    expect(revision.etag).toBe(stub.contacts.get('grace')!.item['@odata.etag']);
+  });
+
+  it('should only report a contact missing when Graph says it is', async () => {
+    const provider = createProvider();
+    expect((await provider.fetchOne('grace'))?.fullName).toBe('Grace Hopper');
+
+    stub.readFailure = 503;
+    await expect(provider.fetchOne('grace')).rejects.toThrow('503');
+    stub.readFailure = 0;
+    stub.remove('grace');
+    expect(await provider.fetchOne('grace')).toBeNull();
+  });
+
+  it('should retry requests Graph throttles', async () => {
+    stub.throttle = 2;
+
+    expect(await createProvider().fetchAll()).toHaveLength(3);
+  });
+});
+
+describe('SyncEngine with Outlook', () => {
+  let store: GitContactStore;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, cleanup } = await createTestStore());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should keep what Graph has no slot for when syncing back', async () => {
+    const engine = new SyncEngine(store);
+    const options = { direction: 'both' as const, conflictStrategy: 'newest-wins' as const, dryRun: false, deleteThreshold: 50 };
+    const local = await store.create(makeContact({
+      fullName: 'Katherine Johnson',
+      emails: ['k1', 'k2', 'k3', 'k4'].map(user => ({ value: `${user}@example.com`, type: 'work' as const })),
+      phones: [
+        { value: '+1 555 0200', type: 'fax' },
+        { value: '+1 555 0201', type: 'mobile' },
+        { value: '+1 555 0202', type: 'mobile' },
+      ],
+    }));
+
+    const first = await engine.sync(createProvider(), options);
+    expect(first.errors).toEqual([]);
+    const remoteId = (await store.get(local.id)).metadata.providerIds.outlook;
+    const written = stub.contacts.get(remoteId)!.item;
+    expect(written.emailAddresses).toHaveLength(3);
+    // The fax number has to go in a business slot, and there's only one mobile slot
+    expect(written.businessPhones).toHaveLength(1);
+    expect(written.homePhones).toEqual([]);
+    expect(written.mobilePhone).toBeTruthy();
+
+    // Someone edits the contact in Outlook; the next sync merges that in and loses nothing
+    const { id: _id, changeKey: _changeKey, '@odata.etag': _etag, ...fields } = written;
+    stub.put(stub.contacts.get(remoteId)!.folder, remoteId, { ...fields, jobTitle: 'Mathematician' });
+    const second = await engine.sync(createProvider(), options);
+
+    expect(second.errors).toEqual([]);
+    const after = await store.get(local.id);
+    expect(after.organization?.title).toBe('Mathematician');
+    expect(after.emails.map(e => [e.value, e.type])).toEqual(local.emails.map(e => [e.value, e.type]));
+    expect(after.phones.map(p => [p.value, p.type])).toEqual(local.phones.map(p => [p.value, p.type]));
+  });
+
+  it('should keep an unlinked contact\'s link when Graph fails to read it', async () => {
+    const engine = new SyncEngine(store);
+    const syncWith = (filter: { include: { categories: string[] } } | undefined, direction: 'both' | 'push' = 'both') =>
+      engine.sync(createProvider(), { direction, conflictStrategy: 'newest-wins', dryRun: false, deleteThreshold: 100, filter });
+    await syncWith(undefined);
+    expect(await syncWith({ include: { categories: ['Work'] } })).toMatchObject({ unlinked: 2, errors: [] });
+    const unlinked = (await store.readSyncState('outlook')).unlinked;
+
+    stub.readFailure = 503;
+    const failed = await syncWith(undefined, 'push');
+
+    expect(failed.errors).toHaveLength(2);
+    expect(failed.errors[0]).toContain('503');
+    expect((await store.readSyncState('outlook')).unlinked).toEqual(unlinked);
+    expect(stub.contacts.size).toBe(3);
+
+    stub.readFailure = 0;
+    expect(await syncWith(undefined, 'push')).toMatchObject({ linked: 2, errors: [] });
+    expect(stub.contacts.size).toBe(3);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { createProviderRegistry } from '../../src/providers/registry.js';
+import { CardDAVProvider } from '../../src/providers/carddav.js';
+import { ProviderError } from '../../src/utils/errors.js';
+
+const PLUGINS = path.join(import.meta.dirname, '../fixtures/plugins');
+
+describe('ProviderRegistry', () => {
+  it('should build built-in providers and refuse unknown types or invalid config', () => {
+    const registry = createProviderRegistry();
+
+    expect(registry.list().map(d => d.type)).toEqual(['google', 'apple', 'carddav', 'outlook', 'vcf-directory', 'local']);
+    const provider = registry.create({
+      name: 'fastmail',
+      type: 'carddav',
+      config: { serverUrl: 'https://carddav.fastmail.com', username: 'me', password: 'secret' },
+    });
+    expect(provider).toBeInstanceOf(CardDAVProvider);
+    expect(provider.name).toBe('fastmail');
+
+    expect(registry.validate({ type: 'carddav', config: { serverUrl: 'not a url', username: 'me' } })).toEqual([
+      'config.serverUrl: Invalid url',
+      'config.password: Required',
+    ]);
+    expect(() => registry.create({ name: 'fastmail', type: 'carddav', config: {} })).toThrow(ProviderError);
+    expect(() => registry.create({ name: 'exchange', type: 'exchange', config: {} }))
+      .toThrow('Unknown provider type: exchange');
+  });
+
+  it('should refuse to register a type twice', () => {
+    const registry = createProviderRegistry();
+    const definition = {
+      type: 'apple',
+      description: 'Another Apple provider',
+      configSchema: z.object({}),
+      capabilities: { incremental: false, groups: false, conditionalWrites: false },
+      create: () => { throw new Error('not called'); },
+    };
+
+    expect(() => registry.register(definition)).toThrow('already registered');
+  });
+
+  it('should add the provider types of plugins and skip plugins that fail to load', async () => {
+    const registry = createProviderRegistry();
+
+    await registry.loadPlugins([
+      path.join(PLUGINS, 'missing.mjs'),
+      path.join(PLUGINS, 'memory-provider.mjs'),
+      'zod',
+    ]);
+
+    expect(registry.list().map(d => d.type)).toContain('memory');
+    expect(registry.validate({ type: 'memory', config: {} })).toEqual(['config.label: Required']);
+    const provider = registry.create({ name: 'scratch', type: 'memory', config: { label: 'Scratch' } });
+    await provider.pushContact({ id: 'c1', fullName: 'Ada Lovelace' } as any);
+    expect((await provider.fetchAll()).map(c => c.fullName)).toEqual(['Ada Lovelace']);
+  });
+
+  it('should register none of a plugin\'s provider types when one of them is invalid', async () => {
+    const registry = createProviderRegistry();
+    const before = registry.list();
+
+    await registry.loadPlugins([path.join(PLUGINS, 'clashing-provider.mjs')]);
+
+    expect(registry.list()).toEqual(before);
+    expect(registry.get('scratch')).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { VcfDirectoryProvider } from '../../src/providers/vcf-directory.js';
+import { SyncEngine } from '../../src/sync/engine.js';
+import { createContact } from '../../src/contacts/model.js';
+import { PreconditionFailedError } from '../../src/utils/errors.js';
+import { createTestStore } from '../helpers.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+
+let dir: string;
+let writes = 0;
+
+function card(uid: string, fullName: string): string {
+  return `BEGIN:VCARD\r\nVERSION:4.0\r\nUID:urn:uuid:${uid}\r\nFN:${fullName}\r\nEND:VCARD\r\n`;
+}
+
+/** Write a file as another tool would, with a distinct mtime each time. */
+async function write(file: string, content: string): Promise<void> {
+  const target = path.join(dir, file);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, content);
+  const mtime = new Date(Date.now() + ++writes * 1000);
+  await fs.utimes(target, mtime, mtime);
+}
+
+function createProvider(): VcfDirectoryProvider {
+  return new VcfDirectoryProvider('folder', { path: dir });
+}
+
+/** Full fetch, then hand the provider the etags the engine would have recorded. */
+async function syncedProvider(): Promise<VcfDirectoryProvider> {
+  const provider = createProvider();
+  const contacts = await provider.fetchAll();
+  const etags = Object.fromEntries(contacts.map(c => [c.metadata.providerIds.folder, c.metadata.etag!]));
+  provider.loadSyncState({ ...provider.saveSyncState(), etags });
+  return provider;
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'contacts-mcp-vcf-'));
+  await write('ada.vcf', card('ada', 'Ada Lovelace'));
+  await write('work/team.vcf', card('grace', 'Grace Hopper') + card('alan', 'Alan Turing'));
+  await write('.stversions/old.vcf', card('old', 'Old Copy'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('VcfDirectoryProvider', () => {
+  it('should read single and multi-contact files, skipping hidden ones', async () => {
+    const contacts = await createProvider().fetchAll();
+
+    expect(contacts.map(c => [c.fullName, c.metadata.providerIds.folder])).toEqual([
+      ['Ada Lovelace', 'ada.vcf#ada'],
+      ['Grace Hopper', 'work/team.vcf#grace'],
+      ['Alan Turing', 'work/team.vcf#alan'],
+    ]);
+  });
+
+  it('should keep a card\'s remote ID when its file gains a second card', async () => {
+    const provider = await syncedProvider();
+    await write('ada.vcf', card('ada', 'Ada Lovelace') + card('charles', 'Charles Babbage'));
+
+    const changes = await provider.fetchChanges();
+
+    expect(changes!.changed.map(c => [c.fullName, c.metadata.providerIds.folder])).toEqual([['Charles Babbage', 'ada.vcf#charles']]);
+    expect(changes!.deletedIds).toEqual([]);
+    expect((await provider.fetchOne('ada.vcf#ada'))?.fullName).toBe('Ada Lovelace');
+  });
+
+  it('should know a card without a UID by its file', async () => {
+    await write('nouid.vcf', 'BEGIN:VCARD\r\nVERSION:4.0\r\nFN:Mary Somerville\r\nEND:VCARD\r\n');
+
+    const contacts = await createProvider().fetchAll();
+
+    expect(contacts.find(c => c.fullName === 'Mary Somerville')?.metadata.providerIds.folder).toBe('nouid.vcf');
+  });
+
+  it('should only read changed files and report contacts that changed or went away', async () => {
+    const provider = await syncedProvider();
+    // A rewrite of the same text isn't a change
+    await write('ada.vcf', card('ada', 'Ada Lovelace'));
+    await write('work/team.vcf', card('grace', 'Grace Hopper') + card('katherine', 'Katherine Johnson'));
+
+    const changes = await provider.fetchChanges();
+
+    expect(changes!.changed.map(c => c.fullName)).toEqual(['Katherine Johnson']);
+    expect(changes!.deletedIds).toEqual(['work/team.vcf#alan']);
+
+    await fs.rm(path.join(dir, 'ada.vcf'));
+    expect((await provider.fetchChanges())!.deletedIds).toEqual(['ada.vcf#ada']);
+  });
+
+  it('should update a card in place only while its etag matches', async () => {
+    const provider = await syncedProvider();
+    const [, grace] = await provider.fetchAll();
+    const renamed = { ...grace, fullName: 'Grace Brewster Hopper' };
+
+    await expect(provider.updateContact('work/team.vcf#grace', renamed)).rejects.toThrow(PreconditionFailedError);
+    await expect(provider.updateContact('work/team.vcf#grace', renamed, 'stale')).rejects.toThrow(PreconditionFailedError);
+    const revision = await provider.updateContact('work/team.vcf#grace', renamed, grace.metadata.etag);
+
+    const after = await provider.fetchAll();
+    expect(after.map(c => c.fullName)).toEqual(['Ada Lovelace', 'Grace Brewster Hopper', 'Alan Turing']);
+    expect(after[1].metadata.etag).toBe(revision.etag);
+    expect(await fs.readdir(path.join(dir, 'work'))).toEqual(['team.vcf']);
+  });
+
+  it('should write new contacts to their own file without overwriting and delete cards from files', async () => {
+    const provider = createProvider();
+    const katherine = createContact({ fullName: 'Katherine Johnson' });
+
+    const revision = await provider.pushContact(katherine);
+    expect(revision.remoteId).toBe(`${katherine.id}.vcf#${katherine.id}`);
+    await expect(provider.pushContact(katherine)).rejects.toThrow('already exists');
+
+    await provider.deleteContact('work/team.vcf#alan');
+    await provider.deleteContact('ada.vcf#ada');
+    await provider.deleteContact('ada.vcf#ada');
+
+    expect((await provider.fetchAll()).map(c => c.fullName)).toEqual(['Katherine Johnson', 'Grace Hopper']);
+  });
+});
+
+describe('SyncEngine with a vCard directory', () => {
+  let store: GitContactStore;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, cleanup } = await createTestStore());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should pull what other tools changed and push local edits to the files', async () => {
+    const engine = new SyncEngine(store);
+    const options = { direction: 'both' as const, conflictStrategy: 'newest-wins' as const, dryRun: false, deleteThreshold: 50 };
+
+    const first = await engine.sync(createProvider(), options);
+    expect(first.errors).toEqual([]);
+    expect(first.pulled).toBe(3);
+
+    await write('ada.vcf', card('ada', 'Ada King'));
+    const alan = (await store.list()).find(c => c.fullName === 'Alan Turing')!;
+    await store.update(alan.id, { nickname: 'Prof' });
+
+    const second = await engine.sync(createProvider(), options);
+
+    expect(second.errors).toEqual([]);
+    expect(second.pulled).toBe(1);
+    expect((await store.list()).map(c => c.fullName).sort()).toEqual(['Ada King', 'Alan Turing', 'Grace Hopper']);
+    expect(await fs.readFile(path.join(dir, 'work/team.vcf'), 'utf-8')).toContain('NICKNAME:Prof');
+  });
+
+  it('should leave a contact linked when another tool appends a card to its file', async () => {
+    const engine = new SyncEngine(store);
+    const options = { direction: 'both' as const, conflictStrategy: 'newest-wins' as const, dryRun: false, deleteThreshold: 50 };
+    await engine.sync(createProvider(), options);
+    const ada = (await store.list()).find(c => c.fullName === 'Ada Lovelace')!;
+    await store.setProviderId(ada.id, 'phone', 'phone-ada');
+
+    await write('ada.vcf', card('ada', 'Ada Lovelace') + card('charles', 'Charles Babbage'));
+    const result = await engine.sync(createProvider(), options);
+
+    expect(result).toMatchObject({ pulled: 1, deleted: { local: 0, remote: 0 }, errors: [] });
+    expect((await store.get(ada.id)).metadata.providerIds).toEqual({ folder: 'ada.vcf#ada', phone: 'phone-ada' });
+    expect((await store.list()).map(c => c.fullName).sort()).toEqual(['Ada Lovelace', 'Alan Turing', 'Charles Babbage', 'Grace Hopper']);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createTestStore } from '../helpers.js';
+import { GitContactStore } from '../../src/store/git-store.js';
+
+let store: GitContactStore;
+let storePath: string;
+let cleanup: () => Promise<void>;
+
+beforeEach(async () => {
+  const result = await createTestStore();
+  store = result.store;
+  storePath = result.storePath;
+  cleanup = result.cleanup;
+});
+
+afterEach(async () => {
+  await cleanup();
+});
+
+async function readIndex(): Promise<any> {
+  return JSON.parse(await fs.readFile(path.join(storePath, '.metadata', 'index.json'), 'utf-8'));
+}
+
+describe('ContactIndex', () => {
+  it('should write an index keyed by HEAD after a mutation', async () => {
+    await store.list();
+    const contact = await store.create({ fullName: 'Jane Smith' });
+
+    const index = await readIndex();
+    expect(index.head).toBe(await store.gitOps.head());
+    expect(index.contacts.map((c: any) => c.id)).toEqual([contact.id]);
+  });
+
+  it('should keep the index file out of git', async () => {
+    const gitignore = await fs.readFile(path.join(storePath, '.gitignore'), 'utf-8');
+    expect(gitignore).toContain('.metadata/index.json');
+  });
+
+  it('should update incrementally on update, delete and merge', async () => {
+    await store.list();
+    const a = await store.create({ fullName: 'Jane A', emails: [{ value: 'a@test.com' }] });
+    const b = await store.create({ fullName: 'Jane B' });
+    const c = await store.create({ fullName: 'Jane C' });
+
+    await store.update(a.id, { notes: 'indexed' });
+    await store.delete(c.id);
+    await store.mergeAndArchive(a.id, [b.id], { ...a, notes: 'merged' });
+
+    const index = await readIndex();
+    expect(index.head).toBe(await store.gitOps.head());
+    expect(index.contacts).toHaveLength(1);
+    expect(index.contacts[0].notes).toBe('merged');
+    expect(index.archived.map((x: any) => x.id).sort()).toEqual([b.id, c.id].sort());
+  });
+
+  it('should serve listings from the index without re-reading vCards', async () => {
+    await store.create({ fullName: 'Indexed Person' });
+    await store.list();
+
+    // A stray file that git doesn't know about is invisible until HEAD moves
+    await fs.writeFile(path.join(storePath, 'contacts', 'stray.vcf'), 'BEGIN:VCARD\r\nFN:Stray\r\nEND:VCARD', 'utf-8');
+    const contacts = await store.list();
+    expect(contacts.map(c => c.fullName)).toEqual(['Indexed Person']);
+  });
+
+  it('should rebuild after rollback moves HEAD', async () => {
+    await store.create({ fullName: 'Keep' });
+    await store.create({ fullName: 'Revert Me' });
+    expect(await store.list()).toHaveLength(2);
+
+    await store.rollback({ mode: 'last-n', count: 1 });
+
+    const contacts = await store.list();
+    expect(contacts.map(c => c.fullName)).toEqual(['Keep']);
+    expect((await readIndex()).head).toBe(await store.gitOps.head());
+  });
+
+  it('should be reused by a fresh store instance on the same HEAD', async () => {
+    await store.create({ fullName: 'Persisted' });
+    await store.list();
+
+    const index = await readIndex();
+    index.contacts[0].fullName = 'From Index';
+    await fs.writeFile(path.join(storePath, '.metadata', 'index.json'), JSON.stringify(index), 'utf-8');
+
+    const reopened = new GitContactStore(storePath);
+    await reopened.init();
+    const contacts = await reopened.list();
+    expect(contacts[0].fullName).toBe('From Index');
+  });
+
+  it('should return copies that callers can mutate safely', async () => {
+    await store.create({ fullName: 'Original' });
+    const [first] = await store.list();
+    first.fullName = 'Mutated';
+
+    const [second] = await store.list();
+    expect(second.fullName).toBe('Original');
+  });
+
+  it('should search using the index', async () => {
+    await store.create({ fullName: 'Alice Johnson', emails: [{ value: 'alice@acme.com' }] });
+    await store.create({ fullName: 'Bob Smith' });
+
+    const results = await store.search('Alice');
+    expect(results).toHaveLength(1);
+    expect(results[0].fullName).toBe('Alice Johnson');
+
+    await store.create({ fullName: 'Alice Cooper' });
+    expect(await store.search('Alice')).toHaveLength(2);
+  });
+});
@@ -104,6 +104,26 @@ describe('GitContactStore', () => {
       expect(updated.fullName).toBe('Jane Smith'); // preserved
     });
 
+    it('should keep unmapped vCard properties through updates', async () => {
+      const extraProperties = [
+        { group: 'item1', name: 'X-ABLABEL', params: [], value: 'Partner' },
+        { name: 'GEO', params: ['TYPE=home'], value: 'geo:37.386013,-122.082932' },
+      ];
+      const created = await store.create({
+        fullName: 'Jane Smith',
+        urls: [{ value: 'https://jane.example.com', group: 'item1' }],
+        extraProperties,
+      });
+
+      await store.update(created.id, { notes: 'Updated note' });
+
+      const vcard = await fs.readFile(path.join(storePath, 'contacts', `${created.id}.vcf`), 'utf-8');
+      expect(vcard).toContain('item1.URL:https://jane.example.com');
+      expect(vcard).toContain('item1.X-ABLABEL:Partner');
+      expect(vcard).toContain('GEO;TYPE=home:geo:37.386013,-122.082932');
+      expect((await store.get(created.id)).extraProperties).toEqual(extraProperties);
+    });
+
     it('should create a descriptive git commit', async () => {
       const created = await store.create({ fullName: 'Jane' });
       await store.update(created.id, { notes: 'new' });
@@ -326,5 +346,104 @@ describe('GitContactStore', () => {
       const allContacts = await store.list(true);
       expect(allContacts).toHaveLength(2);
     });
+
+    it('should retarget links to secondaries at the primary in the same commit', async () => {
+      const a = await store.create({ fullName: 'Jane A' });
+      const b = await store.create({ fullName: 'Jane B' });
+      const report = await store.create({ fullName: 'Report' });
+      await store.link(report.id, b.id, 'manager');
+      await store.link(b.id, a.id, 'colleague');
+
+      await store.mergeAndArchive(a.id, [b.id], await store.get(a.id));
+
+      expect((await store.get(report.id)).related).toEqual([{ value: `urn:uuid:${a.id}`, type: 'manager' }]);
+      // b's link to a would now point at a itself, so it's dropped
+      expect((await store.get(a.id)).related).toEqual([]);
+      const history = await store.getHistory(1);
+      expect(history[0].operation).toBe('merge');
+    });
+  });
+
+  describe('relationships', () => {
+    it('should link contacts and unlink from either side', async () => {
+      const alice = await store.create({ fullName: 'Alice' });
+      const bob = await store.create({ fullName: 'Bob' });
+
+      const linked = await store.link(alice.id, bob.id, 'manager');
+      expect(linked.related).toEqual([{ value: `urn:uuid:${bob.id}`, type: 'manager' }]);
+
+      // Linking again is a no-op
+      await store.link(alice.id, bob.id, 'manager');
+      expect((await store.get(alice.id)).related).toHaveLength(1);
+
+      // From Bob's side the relationship reads as "report"
+      expect(await store.unlink(bob.id, alice.id, 'report')).toBe(1);
+      expect((await store.get(alice.id)).related).toEqual([]);
+      await expect(store.unlink(alice.id, bob.id)).rejects.toThrow('No relationship');
+    });
+
+    it('should reject links to missing contacts or to itself', async () => {
+      const alice = await store.create({ fullName: 'Alice' });
+      await expect(store.link(alice.id, 'missing-id')).rejects.toThrow('not found');
+      await expect(store.link(alice.id, alice.id)).rejects.toThrow('itself');
+    });
+
+    it('should turn links into plain names when a contact is deleted', async () => {
+      const alice = await store.create({ fullName: 'Alice' });
+      const bob = await store.create({ fullName: 'Bob Builder' });
+      await store.link(alice.id, bob.id, 'spouse');
+
+      await store.delete(bob.id);
+
+      expect((await store.get(alice.id)).related).toEqual([{ value: 'Bob Builder', type: 'spouse' }]);
+      // Alice's file changed in the archive commit itself
+      const [latest] = await store.getHistory(1, alice.id);
+      expect(latest.summary).toContain(`Archive contact: Bob Builder (${bob.id})`);
+    });
+  });
+
+  describe('groups', () => {
+    it('should create, rename and delete a group stored as a vCard', async () => {
+      const alice = await store.create({ fullName: 'Alice' });
+      const group = await store.createGroup({ name: 'Climbing', memberIds: [alice.id] });
+
+      const vcf = await fs.readFile(path.join(storePath, 'groups', `${group.id}.vcf`), 'utf-8');
+      expect(vcf).toContain('KIND:group');
+      expect(vcf).toContain(`MEMBER:urn:uuid:${alice.id}`);
+
+      await store.updateGroup(group.id, { name: 'Bouldering', description: 'Thursdays' });
+      expect(await store.listGroups()).toMatchObject([{ name: 'Bouldering', description: 'Thursdays', memberIds: [alice.id] }]);
+
+      await store.deleteGroup(group.id);
+      expect(await store.listGroups()).toEqual([]);
+      await expect(store.getGroup(group.id)).rejects.toThrow('Group not found');
+    });
+
+    it('should add and remove members, rejecting unknown contacts', async () => {
+      const alice = await store.create({ fullName: 'Alice' });
+      const bob = await store.create({ fullName: 'Bob' });
+      const group = await store.createGroup({ name: 'Team' });
+
+      await store.addGroupMembers(group.id, [alice.id, bob.id, alice.id]);
+      expect((await store.getGroup(group.id)).memberIds).toEqual([alice.id, bob.id]);
+
+      await store.removeGroupMembers(group.id, [alice.id]);
+      expect((await store.getGroup(group.id)).memberIds).toEqual([bob.id]);
+
+      await expect(store.addGroupMembers(group.id, ['missing-id'])).rejects.toThrow('not found');
+    });
+
+    it('should keep membership consistent when contacts are deleted or merged', async () => {
+      const a = await store.create({ fullName: 'Jane A' });
+      const b = await store.create({ fullName: 'Jane B' });
+      const c = await store.create({ fullName: 'Carl' });
+      const group = await store.createGroup({ name: 'Friends', memberIds: [a.id, b.id, c.id] });
+
+      await store.mergeAndArchive(a.id, [b.id], await store.get(a.id));
+      expect((await store.getGroup(group.id)).memberIds).toEqual([a.id, c.id]);
+
+      await store.delete(c.id);
+      expect((await store.getGroup(group.id)).memberIds).toEqual([a.id]);
+    });
   });
 });
@@ -50,6 +50,14 @@ describe('diffContacts', () => {
     const diffs = diffContacts(a, b);
     expect(diffs.some(d => d.field === 'birthday')).toBe(true);
   });
+
+  it('should detect changed extra vCard properties', () => {
+    const a = createContact({ fullName: 'Jane', extraProperties: [{ name: 'NICKNAME', params: [], value: 'JJ' }] });
+    const b = createContact({ fullName: 'Jane', extraProperties: [{ name: 'NICKNAME', params: [], value: 'Janie' }] });
+
+    const diffs = diffContacts(a, b);
+    expect(diffs.some(d => d.field === 'extraProperties')).toBe(true);
+  });
 });
 
 describe('hasChanges', () => {
@@ -0,0 +1,642 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestStore } from '../helpers.js';
+import { SyncEngine } from '../../src/sync/engine.js';
+import { ConflictQueue } from '../../src/sync/conflict-queue.js';
+import { BaseProvider } from '../../src/providers/base.js';
+import { createContact } from '../../src/contacts/model.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+import type { Contact } from '../../src/types/contact.js';
+import { PreconditionFailedError } from '../../src/utils/errors.js';
+
+/** Provider backed by an in-memory map of remote contacts, with a revision counter per contact for etags. */
+class MemoryProvider extends BaseProvider {
+  readonly name = 'memory';
+  readonly type = 'carddav' as const;
+  remote = new Map<string, Contact>();
+  revisions = new Map<string, number>();
+  /** Runs inside updateContact before the etag check, to simulate a concurrent remote edit */
+  beforeUpdate?: () => void;
+
+  async isConfigured() { return true; }
+  async fetchAll() { return [...this.remote.keys()].map(id => this.copy(id)); }
+  async fetchOne(remoteId: string) { return this.remote.has(remoteId) ? this.copy(remoteId) : null; }
+  async pushContact(contact: Contact) {
+    const remoteId = `remote-${contact.id}`;
+    this.remote.set(remoteId, this.withRemoteId(contact, remoteId));
+    return { remoteId, etag: this.etag(remoteId) };
+  }
+  async updateContact(remoteId: string, contact: Contact, etag?: string) {
+    const hook = this.beforeUpdate;
+    this.beforeUpdate = undefined;
+    hook?.();
+    if (etag !== this.etag(remoteId)) throw new PreconditionFailedError(this.name, remoteId);
+    this.remote.set(remoteId, this.withRemoteId(contact, remoteId));
+    this.revisions.set(remoteId, (this.revisions.get(remoteId) ?? 0) + 1);
+    return { remoteId, etag: this.etag(remoteId) };
+  }
+  async deleteContact(remoteId: string) { this.remote.delete(remoteId); }
+
+  /** Change a remote contact the way another client would, moving it to a new revision. */
+  editRemote(remoteId: string, edit: (contact: Contact) => void) {
+    edit(this.remote.get(remoteId)!);
+    this.revisions.set(remoteId, (this.revisions.get(remoteId) ?? 0) + 1);
+  }
+
+  private etag(remoteId: string): string {
+    return `"${this.revisions.get(remoteId) ?? 0}"`;
+  }
+
+  private copy(remoteId: string): Contact {
+    const copy = structuredClone(this.remote.get(remoteId)!);
+    copy.metadata.etag = this.etag(remoteId);
+    return copy;
+  }
+
+  private withRemoteId(contact: Contact, remoteId: string): Contact {
+    const copy = structuredClone(contact);
+    copy.metadata.providerIds = { [this.name]: remoteId };
+    return copy;
+  }
+}
+
+let store: GitContactStore;
+let cleanup: () => Promise<void>;
+let provider: MemoryProvider;
+let engine: SyncEngine;
+
+beforeEach(async () => {
+  ({ store, cleanup } = await createTestStore());
+  provider = new MemoryProvider();
+  engine = new SyncEngine(store);
+  provider.remote.set('r1', createContact({
+    id: 'remote-side-id',
+    fullName: 'Jane Doe',
+    phones: [{ value: '+15550001111', type: 'mobile' }],
+    notes: 'Met at conference',
+    metadata: { created: '2026-01-01T00:00:00Z', modified: '2026-01-01T00:00:00Z', providerIds: { memory: 'r1' }, archived: false },
+  }));
+});
+
+afterEach(async () => {
+  await cleanup();
+});
+
+async function syncBoth(strategy: 'newest-wins' | 'manual' = 'newest-wins') {
+  return engine.sync(provider, { direction: 'both', conflictStrategy: strategy, dryRun: false });
+}
+
+describe('SyncEngine three-way merge', () => {
+  it('should keep a remote phone edit and a local note edit made since the last sync', async () => {
+    await syncBoth();
+    const [local] = await store.list();
+
+    await store.update(local.id, { notes: 'Prefers email' });
+    provider.remote.get('r1')!.phones = [{ value: '+15550002222', type: 'mobile' }];
+
+    const result = await syncBoth();
+
+    expect(result.errors).toEqual([]);
+    expect(result.conflicts).toBe(0);
+    const merged = await store.get(local.id);
+    expect(merged.notes).toBe('Prefers email');
+    expect(merged.phones[0].value).toBe('+15550002222');
+    // The merged result is pushed back
+    expect(provider.remote.get('r1')!.notes).toBe('Prefers email');
+  });
+
+  it('should surface a conflict when both sides changed the same field', async () => {
+    await syncBoth();
+    const [local] = await store.list();
+
+    await store.update(local.id, { notes: 'Local note' });
+    provider.remote.get('r1')!.notes = 'Remote note';
+
+    const result = await syncBoth('manual');
+
+    expect(result.conflicts).toBe(1);
+    expect((await store.get(local.id)).notes).toBe('Local note');
+    // The remote version isn't overwritten by the push phase
+    expect(provider.remote.get('r1')!.notes).toBe('Remote note');
+  });
+
+  it('should queue manual conflicts and resolve them with per-field picks', async () => {
+    await syncBoth();
+    const [local] = await store.list();
+
+    await store.update(local.id, { notes: 'Local note' });
+    provider.remote.get('r1')!.notes = 'Remote note';
+    provider.remote.get('r1')!.phones = [{ value: '+15550002222', type: 'mobile' }];
+    await syncBoth('manual');
+
+    const queue = new ConflictQueue(store.path);
+    const [conflict] = await queue.list();
+    expect(conflict.id).toBe(`memory-${local.id}`);
+    expect(conflict.base?.notes).toBe('Met at conference');
+    expect(conflict.conflicts.map(c => c.field)).toEqual(['notes']);
+    expect(conflict.diffs.map(d => d.field)).toEqual(expect.arrayContaining(['phones', 'notes']));
+
+    await expect(engine.resolveQueuedConflict(provider, conflict.id, {})).rejects.toThrow('No pick');
+    const resolved = await engine.resolveQueuedConflict(provider, conflict.id, { notes: 'remote' });
+
+    expect(resolved.notes).toBe('Remote note');
+    expect(resolved.phones[0].value).toBe('+15550002222');
+    expect(provider.remote.get('r1')!.notes).toBe('Remote note');
+    expect(await queue.list()).toEqual([]);
+
+    // Both sides agree, so the next sync has nothing to do
+    const result = await syncBoth('manual');
+    expect(result.conflicts).toBe(0);
+    expect(result.pulled).toBe(0);
+  });
+});
+
+describe('SyncEngine remote revisions', () => {
+  it('should run overlapping syncs one after the other', async () => {
+    const events: string[] = [];
+    const fetchAll = provider.fetchAll.bind(provider);
+    provider.fetchAll = async () => {
+      events.push('fetch');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const contacts = await fetchAll();
+      events.push('fetched');
+      return contacts;
+    };
+
+    const [first, second] = await Promise.all([syncBoth(), syncBoth()]);
+
+    expect(events).toEqual(['fetch', 'fetched', 'fetch', 'fetched']);
+    expect(first.pulled + second.pulled).toBe(1);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('should refetch and merge when the remote changed after it was fetched', async () => {
+    await syncBoth();
+    const [local] = await store.list();
+
+    await store.update(local.id, { notes: 'Prefers email' });
+    provider.beforeUpdate = () => provider.editRemote('r1', c => {
+      c.phones = [{ value: '+15550002222', type: 'mobile' }];
+    });
+
+    const result = await syncBoth();
+
+    expect(result.errors).toEqual([]);
+    expect(result.pushed).toBe(1);
+    // Neither edit is lost: the concurrent phone change is merged before writing again
+    expect(provider.remote.get('r1')!.phones[0].value).toBe('+15550002222');
+    expect(provider.remote.get('r1')!.notes).toBe('Prefers email');
+    expect((await store.get(local.id)).phones[0].value).toBe('+15550002222');
+    expect((await store.readSyncState('memory')).etags.r1).toBe(`"${provider.revisions.get('r1')}"`);
+  });
+
+  it('should queue a conflict instead of overwriting a concurrent edit to the same field', async () => {
+    await syncBoth();
+    const [local] = await store.list();
+
+    await store.update(local.id, { notes: 'Local note' });
+    provider.beforeUpdate = () => provider.editRemote('r1', c => { c.notes = 'Remote note'; });
+
+    const result = await syncBoth('manual');
+
+    expect(result.conflicts).toBe(1);
+    expect(result.pushed).toBe(0);
+    expect(provider.remote.get('r1')!.notes).toBe('Remote note');
+    const [conflict] = await new ConflictQueue(store.path).list();
+    expect(conflict.conflicts.map(c => c.field)).toEqual(['notes']);
+  });
+
+  it('should refuse to resolve a conflict once the remote has moved on', async () => {
+    await syncBoth();
+    const [local] = await store.list();
+    await store.update(local.id, { notes: 'Local note' });
+    provider.remote.get('r1')!.notes = 'Remote note';
+    await syncBoth('manual');
+    const [conflict] = await new ConflictQueue(store.path).list();
+
+    provider.editRemote('r1', c => { c.notes = 'Newer remote note'; });
+
+    await expect(engine.resolveQueuedConflict(provider, conflict.id, { notes: 'local' }))
+      .rejects.toThrow('changed on memory since the conflict was recorded');
+    expect(provider.remote.get('r1')!.notes).toBe('Newer remote note');
+  });
+});
+
+describe('SyncEngine deletions', () => {
+  beforeEach(async () => {
+    for (const name of ['Bob', 'Carol', 'Dan', 'Erin']) {
+      provider.remote.set(`r-${name}`, createContact({
+        fullName: name,
+        metadata: { created: '2026-01-01T00:00:00Z', modified: '2026-01-01T00:00:00Z', providerIds: { memory: `r-${name}` }, archived: false },
+      }));
+    }
+    await syncBoth();
+  });
+
+  function localByName(contacts: Contact[], name: string): Contact {
+    return contacts.find(c => c.fullName === name)!;
+  }
+
+  it('should archive contacts deleted on the provider', async () => {
+    provider.remote.delete('r-Bob');
+
+    const result = await syncBoth();
+
+    expect(result.deleted).toEqual({ local: 1, remote: 0 });
+    const active = await store.list(false);
+    expect(active.map(c => c.fullName)).not.toContain('Bob');
+    expect(localByName(await store.list(true), 'Bob').metadata.archived).toBe(true);
+    // Nothing left to do on the next run
+    expect((await syncBoth()).deleted).toEqual({ local: 0, remote: 0 });
+  });
+
+  it('should delete the provider copy of contacts archived locally', async () => {
+    await store.delete(localByName(await store.list(), 'Carol').id);
+
+    const result = await syncBoth();
+
+    expect(result.deleted).toEqual({ local: 0, remote: 1 });
+    expect(provider.remote.has('r-Carol')).toBe(false);
+    expect((await syncBoth()).pulled).toBe(0);
+  });
+
+  it('should abort without changes when deletions exceed the threshold', async () => {
+    provider.remote.delete('r-Bob');
+    provider.remote.delete('r-Carol');
+
+    const result = await engine.sync(provider, {
+      direction: 'both', conflictStrategy: 'newest-wins', dryRun: false, deleteThreshold: 20,
+    });
+
+    expect(result.errors[0]).toContain('Sync aborted: it would delete 2 of 5');
+    expect(await store.list(false)).toHaveLength(5);
+
+    const allowed = await engine.sync(provider, {
+      direction: 'both', conflictStrategy: 'newest-wins', dryRun: false, deleteThreshold: 50,
+    });
+    expect(allowed.deleted.local).toBe(2);
+  });
+});
+
+describe('SyncEngine identity matching', () => {
+  it('should link a remote contact to the local contact with the same email instead of importing it', async () => {
+    const local = await store.create({ fullName: 'Jane Doe', emails: [{ value: 'jane@example.com', type: 'work' }] });
+    provider.editRemote('r1', c => { c.emails = [{ value: 'Jane@Example.com', type: 'home' }]; });
+
+    const result = await syncBoth();
+
+    expect(result.errors).toEqual([]);
+    expect(result.linked).toBe(1);
+    expect(result.pulled).toBe(1);
+    const [linked, ...others] = await store.list();
+    expect(others).toEqual([]);
+    expect(linked.id).toBe(local.id);
+    expect(linked.metadata.providerIds.memory).toBe('r1');
+    expect(linked.notes).toBe('Met at conference');
+    expect(provider.remote.size).toBe(1);
+  });
+
+  it('should hold back a contact that only matches by name for review', async () => {
+    const local = await store.create({ fullName: 'Jane Doe' });
+
+    const result = await syncBoth();
+
+    expect(result.linked).toBe(0);
+    expect(result.review.map(r => [r.side, r.remoteId, r.candidates.map(c => c.contact.id)])).toEqual([
+      ['remote', 'r1', [local.id]],
+      ['local', undefined, ['remote-side-id']],
+    ]);
+    expect(await store.list()).toHaveLength(1);
+    expect(provider.remote.size).toBe(1);
+    // Nothing is lost by skipping it: the next sync fetches everything again
+    expect((await store.readSyncState('memory')).syncToken).toBeUndefined();
+
+    const settled = await engine.sync(provider, {
+      direction: 'both', conflictStrategy: 'newest-wins', dryRun: false, links: { r1: local.id },
+    });
+
+    expect(settled.review).toEqual([]);
+    expect(settled.linked).toBe(1);
+    expect((await store.get(local.id)).metadata.providerIds.memory).toBe('r1');
+  });
+
+  it('should create contacts held for review when asked to', async () => {
+    await store.create({ fullName: 'Jane Doe' });
+
+    const result = await engine.sync(provider, {
+      direction: 'both', conflictStrategy: 'newest-wins', dryRun: false, createUnmatched: true,
+    });
+
+    expect(result.review).toEqual([]);
+    expect(await store.list()).toHaveLength(2);
+    expect(provider.remote.size).toBe(2);
+  });
+
+  it('should settle local contacts held for review on a later push, with links or createUnmatched', async () => {
+    const jane = await store.create({ fullName: 'Jane Doe' });
+    const push = { direction: 'push' as const, conflictStrategy: 'newest-wins' as const, dryRun: false };
+
+    const held = await engine.sync(provider, push);
+    expect(held.review.map(r => [r.side, r.contact.id])).toEqual([['local', jane.id]]);
+    expect((await engine.sync(provider, push)).review).toHaveLength(1);
+
+    const linked = await engine.sync(provider, { ...push, links: { r1: jane.id } });
+
+    expect(linked).toMatchObject({ linked: 1, review: [], errors: [] });
+    expect((await store.get(jane.id)).metadata.providerIds.memory).toBe('r1');
+
+    const namesake = await store.create({ fullName: 'Jane Doe', notes: 'The other one' });
+    provider.remote.set('r2', createContact({
+      fullName: 'Jane Doe',
+      metadata: { created: '2026-01-01T00:00:00Z', modified: '2026-01-01T00:00:00Z', providerIds: { memory: 'r2' }, archived: false },
+    }));
+    expect((await engine.sync(provider, push)).review.map(r => r.contact.id)).toEqual([namesake.id]);
+
+    const created = await engine.sync(provider, { ...push, createUnmatched: true });
+
+    expect(created).toMatchObject({ pushed: 1, review: [], errors: [] });
+    expect((await store.get(namesake.id)).metadata.providerIds.memory).toBe(`remote-${namesake.id}`);
+  });
+
+  it('should link new local contacts to the provider\'s copy on push', async () => {
+    const local = await store.create({
+      fullName: 'Jane Doe',
+      phones: [{ value: '(555) 000-1111', type: 'mobile' }],
+      notes: 'Prefers email',
+    });
+
+    const result = await engine.sync(provider, { direction: 'push', conflictStrategy: 'local-wins', dryRun: false });
+
+    expect(result.errors).toEqual([]);
+    expect(result.linked).toBe(1);
+    expect(provider.remote.size).toBe(1);
+    expect((await store.get(local.id)).metadata.providerIds.memory).toBe('r1');
+    expect(provider.remote.get('r1')!.notes).toBe('Prefers email');
+  });
+});
+
+describe('SyncEngine related contacts', () => {
+  it('should write related contacts by name to providers that can\'t hold references, and keep the references locally', async () => {
+    class NamesProvider extends MemoryProvider {
+      readonly relatedAsNames = true;
+    }
+    provider = new NamesProvider();
+    const charles = await store.create({ fullName: 'Charles Babbage' });
+    const ada = await store.create({
+      fullName: 'Ada Lovelace',
+      related: [{ value: `urn:uuid:${charles.id}`, type: 'colleague' }, { value: 'urn:uuid:missing', type: 'friend' }],
+    });
+
+    await syncBoth();
+
+    const remoteId = (await store.get(ada.id)).metadata.providerIds.memory;
+    expect(provider.remote.get(remoteId)!.related).toEqual([{ value: 'Charles Babbage', type: 'colleague' }]);
+
+    provider.editRemote(remoteId, c => { c.nickname = 'Countess'; });
+    const result = await syncBoth();
+
+    expect(result).toMatchObject({ pulled: 1, conflicts: 0, errors: [] });
+    expect(provider.remote.get(remoteId)!.related).toEqual([{ value: 'Charles Babbage', type: 'colleague' }]);
+    const updated = await store.get(ada.id);
+    expect(updated.nickname).toBe('Countess');
+    expect(updated.related.map(r => r.value)).toEqual([`urn:uuid:${charles.id}`, 'urn:uuid:missing']);
+  });
+});
+
+describe('SyncEngine filters', () => {
+  const filter = { include: { categories: ['work'], groups: ['Team'] }, exclude: { query: 'email:*@gmail.com' } };
+
+  function syncFiltered(dryRun = false) {
+    return engine.sync(provider, { direction: 'both', conflictStrategy: 'newest-wins', dryRun, filter });
+  }
+
+  function remoteContact(remoteId: string, fields: Partial<Contact> & { fullName: string }) {
+    provider.remote.set(remoteId, createContact({
+      ...fields,
+      metadata: { created: '2026-01-01T00:00:00Z', modified: '2026-01-01T00:00:00Z', providerIds: { memory: remoteId }, archived: false },
+    }));
+  }
+
+  it('should only pull and push contacts matching the provider\'s filter', async () => {
+    remoteContact('r-ada', { fullName: 'Ada Lovelace', categories: ['Work'] });
+    const grace = await store.create({ fullName: 'Grace Hopper', categories: ['work'] });
+    const alan = await store.create({ fullName: 'Alan Turing', categories: ['work'], emails: [{ value: 'alan@gmail.com' }] });
+    const katherine = await store.create({ fullName: 'Katherine Johnson' });
+    await store.createGroup({ name: 'team', memberIds: [katherine.id] });
+    await store.create({ fullName: 'Personal Friend', categories: ['family'] });
+
+    const result = await syncFiltered();
+
+    expect(result.errors).toEqual([]);
+    expect((await store.list()).map(c => c.fullName)).not.toContain('Jane Doe');
+    expect((await store.list()).map(c => c.fullName)).toContain('Ada Lovelace');
+    expect([...provider.remote.values()].map(c => c.fullName).sort())
+      .toEqual(['Ada Lovelace', 'Grace Hopper', 'Jane Doe', 'Katherine Johnson']);
+    expect((await store.get(grace.id)).metadata.providerIds.memory).toBeDefined();
+    expect((await store.get(alan.id)).metadata.providerIds).toEqual({});
+  });
+
+  it('should unlink a contact that stops matching instead of deleting it, and link it back once it matches', async () => {
+    const grace = await store.create({ fullName: 'Grace Hopper', categories: ['work'] });
+    await syncFiltered();
+    const remoteId = (await store.get(grace.id)).metadata.providerIds.memory;
+    await store.update(grace.id, { categories: [], notes: 'Left the company' });
+
+    const plan = await engine.plan(provider, { direction: 'both', conflictStrategy: 'newest-wins', filter });
+    expect(plan.changes).toEqual([expect.objectContaining({ action: 'unlink', contactId: grace.id, remoteId })]);
+
+    const result = await syncFiltered();
+
+    expect(result).toMatchObject({ unlinked: 1, pushed: 0, deleted: { local: 0, remote: 0 }, errors: [] });
+    expect((await store.get(grace.id)).metadata.providerIds).toEqual({});
+    expect(provider.remote.get(remoteId)!.notes).toBeUndefined();
+    const state = await store.readSyncState('memory');
+    expect(state.unlinked).toEqual({ [grace.id]: remoteId });
+    expect(state.bases[grace.id]).toBeUndefined();
+
+    // The remote copy still matches, but isn't pulled as a new contact
+    provider.editRemote(remoteId, c => { c.nickname = 'Amazing Grace'; });
+    expect(await syncFiltered()).toMatchObject({ pulled: 0, linked: 0, unlinked: 0 });
+    expect(await store.list()).toHaveLength(1);
+
+    await store.update(grace.id, { categories: ['work'] });
+    const relinked = await syncFiltered();
+
+    expect(relinked).toMatchObject({ linked: 1, errors: [] });
+    expect((await store.get(grace.id)).metadata.providerIds.memory).toBe(remoteId);
+    expect((await store.get(grace.id)).nickname).toBe('Amazing Grace');
+    expect(provider.remote.get(remoteId)!.notes).toBe('Left the company');
+    expect((await store.readSyncState('memory')).unlinked).toEqual({});
+  });
+
+  it('should push and relink contacts a changed filter matches, without their being edited', async () => {
+    const grace = await store.create({ fullName: 'Grace Hopper', categories: ['work'] });
+    const alan = await store.create({ fullName: 'Alan Turing', categories: ['research'] });
+    const syncWith = (categories: string[], direction: 'both' | 'push' = 'both') => engine.sync(provider, {
+      direction, conflictStrategy: 'newest-wins', dryRun: false, filter: { include: { categories } },
+    });
+    await syncWith(['work']);
+    const remoteId = (await store.get(grace.id)).metadata.providerIds.memory;
+    expect((await store.get(alan.id)).metadata.providerIds).toEqual({});
+
+    expect(await syncWith(['work', 'research'])).toMatchObject({ pushed: 1, errors: [] });
+    expect((await store.get(alan.id)).metadata.providerIds.memory).toBe(`remote-${alan.id}`);
+
+    expect(await syncWith(['research'])).toMatchObject({ unlinked: 1, errors: [] });
+    const fetchOne = provider.fetchOne.bind(provider);
+    provider.fetchOne = async () => {
+      provider.fetchOne = fetchOne;
+      throw new Error('503 Service Unavailable');
+    };
+    const failed = await syncWith(['work', 'research'], 'push');
+    expect(failed.errors).toEqual([`Relink error for ${grace.id}: 503 Service Unavailable`]);
+    expect((await store.readSyncState('memory')).unlinked).toEqual({ [grace.id]: remoteId });
+
+    const relinked = await syncWith(['work', 'research'], 'push');
+
+    expect(relinked).toMatchObject({ linked: 1, pushed: 0, errors: [] });
+    expect((await store.get(grace.id)).metadata.providerIds.memory).toBe(remoteId);
+    expect(provider.remote.size).toBe(3);
+  });
+
+  it('should unlink a contact whose remote copy stops matching', async () => {
+    const ada = await store.create({ fullName: 'Ada Lovelace', categories: ['work'] });
+    await syncFiltered();
+    const remoteId = (await store.get(ada.id)).metadata.providerIds.memory;
+
+    provider.editRemote(remoteId, c => { c.emails = [{ value: 'ada@gmail.com' }]; });
+    const result = await syncFiltered();
+
+    expect(result).toMatchObject({ unlinked: 1, pulled: 0, errors: [] });
+    expect((await store.get(ada.id)).emails).toEqual([]);
+    expect(provider.remote.has(remoteId)).toBe(true);
+
+    // Edits on the local side no longer reach the provider, and aren't pushed as a new contact
+    await store.update(ada.id, { nickname: 'Countess' });
+    expect(await syncFiltered()).toMatchObject({ pushed: 0, linked: 0, errors: [] });
+    expect(provider.remote.size).toBe(2);
+  });
+});
+
+describe('SyncEngine plans', () => {
+  const options = { direction: 'both' as const, conflictStrategy: 'newest-wins' as const };
+
+  async function editBothSides() {
+    await syncBoth();
+    const [local] = await store.list();
+    await store.update(local.id, { notes: 'Prefers email' });
+    provider.editRemote('r1', c => { c.phones = [{ value: '+15550002222', type: 'mobile' }]; });
+    const created = await store.create({ fullName: 'New Local' });
+    return { local, created };
+  }
+
+  it('should plan the change to each contact, with field diffs, without changing anything', async () => {
+    const { local, created } = await editBothSides();
+    const head = await store.gitOps.head();
+
+    const plan = await engine.plan(provider, options);
+
+    expect(plan.changes.map(c => [c.action, c.side, c.contactId, c.fields.map(f => f.field)])).toEqual([
+      ['update', 'local', local.id, ['phones']],
+      ['update', 'remote', local.id, ['notes']],
+      ['create', 'remote', created.id, ['fullName', 'name']],
+    ]);
+    expect(plan.changes[1].fields[0]).toEqual({ field: 'notes', from: 'Met at conference', to: 'Prefers email' });
+    expect(await store.gitOps.head()).toBe(head);
+    expect(provider.remote.size).toBe(1);
+    expect(provider.remote.get('r1')!.notes).toBe('Met at conference');
+  });
+
+  it('should apply a saved plan once', async () => {
+    const { local } = await editBothSides();
+    const plan = await engine.plan(provider, options);
+
+    const result = await engine.applyPlan(provider, plan.id);
+
+    expect(result.errors).toEqual([]);
+    expect(result.pushed).toBe(2);
+    expect((await store.get(local.id)).phones[0].value).toBe('+15550002222');
+    expect(provider.remote.get('r1')!.notes).toBe('Prefers email');
+    await expect(engine.applyPlan(provider, plan.id)).rejects.toThrow(`Sync plan not found: ${plan.id}`);
+  });
+
+  it('should refuse a plan that no longer matches what the sync would do', async () => {
+    const { local } = await editBothSides();
+    const plan = await engine.plan(provider, options);
+    provider.editRemote('r1', c => { c.notes = 'Changed after planning'; });
+
+    await expect(engine.applyPlan(provider, plan.id)).rejects.toThrow(`Sync plan ${plan.id} is out of date`);
+    expect((await store.get(local.id)).phones[0].value).toBe('+15550001111');
+    expect(provider.remote.size).toBe(1);
+  });
+
+  it('should hold off other store writes between checking a plan and applying it', async () => {
+    await editBothSides();
+    const plan = await engine.plan(provider, options);
+    const fetchAll = provider.fetchAll.bind(provider);
+    let checked!: () => void;
+    const checking = new Promise<void>(resolve => { checked = resolve; });
+    provider.fetchAll = async () => {
+      checked();
+      return fetchAll();
+    };
+
+    const applying = engine.applyPlan(provider, plan.id);
+    await checking;
+    const late = store.create({ fullName: 'Created During Apply' });
+    const result = await applying;
+    await late;
+
+    expect(result.pushed).toBe(2);
+    expect([...provider.remote.values()].map(c => c.fullName)).not.toContain('Created During Apply');
+  });
+});
+
+describe('SyncEngine state', () => {
+  it('should commit sync state and only push changes made since the last sync', async () => {
+    await syncBoth();
+    const [local] = await store.list();
+
+    const state = await store.readSyncState('memory');
+    expect(state.lastSyncTime).toBeTruthy();
+    expect((await store.getAtCommit(local.id, state.bases[local.id]))?.fullName).toBe('Jane Doe');
+    const [latest] = await store.getHistory(1);
+    expect(latest.commit.message).toBe('Sync state: memory');
+
+    // A fresh engine and provider (as after a restart) push nothing unchanged
+    const restarted = new MemoryProvider();
+    restarted.remote = provider.remote;
+    const result = await new SyncEngine(store).sync(restarted, { direction: 'both', conflictStrategy: 'newest-wins', dryRun: false });
+    expect(result.pushed).toBe(0);
+  });
+
+  it('should record the remote ID of newly pushed contacts', async () => {
+    await syncBoth();
+    const created = await store.create({ fullName: 'New Local' });
+
+    await syncBoth();
+
+    expect((await store.get(created.id)).metadata.providerIds.memory).toBe(`remote-${created.id}`);
+    // The pushed copy isn't imported back as a new contact
+    await syncBoth();
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it('should retry creating a contact whose push failed on the next sync', async () => {
+    await syncBoth();
+    const created = await store.create({ fullName: 'New Local' });
+    const pushContact = provider.pushContact.bind(provider);
+    provider.pushContact = async () => {
+      provider.pushContact = pushContact;
+      throw new Error('503 Service Unavailable');
+    };
+
+    const failed = await syncBoth();
+    expect(failed.errors).toEqual([`Push create error for ${created.id}: 503 Service Unavailable`]);
+
+    const retried = await syncBoth();
+
+    expect(retried).toMatchObject({ pushed: 1, errors: [] });
+    expect((await store.get(created.id)).metadata.providerIds.memory).toBe(`remote-${created.id}`);
+    expect(provider.remote.has(`remote-${created.id}`)).toBe(true);
+  });
+});
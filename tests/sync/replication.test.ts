@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { simpleGit } from 'simple-git';
+import { StoreReplicator, resolvePullConflict } from '../../src/sync/replication.js';
+import { mergeVCards } from '../../src/sync/merge-driver.js';
+import { ConflictQueue } from '../../src/sync/conflict-queue.js';
+import { contactToVCard } from '../../src/contacts/vcard.js';
+import { createContact } from '../../src/contacts/model.js';
+import { createTestStore, makeContact } from '../helpers.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+
+describe('mergeVCards', () => {
+  const base = createContact({ id: 'ada', fullName: 'Ada Lovelace', emails: [{ value: 'ada@example.com' }] });
+
+  it('should take each side\'s changes to different fields and list elements', () => {
+    const local = { ...base, nickname: 'Countess', emails: [...base.emails, { value: 'ada@home.example' }] };
+    const remote = { ...base, notes: 'Wrote the first program', emails: [...base.emails, { value: 'ada@work.example' }] };
+
+    const merge = mergeVCards(contactToVCard(base), contactToVCard(local), contactToVCard(remote));
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.contact.nickname).toBe('Countess');
+    expect(merge.contact.notes).toBe('Wrote the first program');
+    expect(merge.contact.emails.map(e => e.value)).toEqual(['ada@example.com', 'ada@home.example', 'ada@work.example']);
+  });
+
+  it('should keep the local value of a field both sides changed and report the conflict', () => {
+    const local = { ...base, nickname: 'Countess' };
+    const remote = { ...base, nickname: 'Enchantress of Numbers' };
+
+    const merge = mergeVCards(contactToVCard(base), contactToVCard(local), contactToVCard(remote));
+
+    expect(merge.conflicts.map(c => [c.field, c.local, c.remote])).toEqual([['nickname', 'Countess', 'Enchantress of Numbers']]);
+    expect(merge.vcard).toContain('NICKNAME:Countess');
+    expect(merge.vcard).not.toContain('<<<<<<<');
+  });
+});
+
+describe('StoreReplicator', () => {
+  let remoteDir: string;
+  let laptop: GitContactStore;
+  let desktop: GitContactStore;
+  let cleanups: (() => Promise<void>)[];
+
+  beforeEach(async () => {
+    remoteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'contacts-mcp-remote-'));
+    await simpleGit(remoteDir).init(true);
+    const a = await createTestStore();
+    const b = await createTestStore();
+    laptop = a.store;
+    desktop = b.store;
+    cleanups = [a.cleanup, b.cleanup, () => fs.rm(remoteDir, { recursive: true, force: true })];
+  });
+
+  afterEach(async () => {
+    for (const cleanup of cleanups) await cleanup();
+  });
+
+  const replicator = (store: GitContactStore) => new StoreReplicator(store, { url: remoteDir, branch: 'main' });
+
+  it('should bring two stores together and merge edits to the same contact per field', async () => {
+    expect((await replicator(desktop).pull()).status).toBe('empty');
+    const ada = await laptop.create(makeContact({ fullName: 'Ada Lovelace' }));
+    await desktop.create(makeContact({ fullName: 'Grace Hopper' }));
+    await replicator(laptop).push();
+
+    const first = await replicator(desktop).pull();
+    expect(first).toMatchObject({ status: 'merged', changedContacts: 1, conflicts: [] });
+    expect((await desktop.list()).map(c => c.fullName).sort()).toEqual(['Ada Lovelace', 'Grace Hopper']);
+    await replicator(desktop).push();
+    expect((await replicator(laptop).pull()).status).toBe('fast-forward');
+
+    await laptop.update(ada.id, { nickname: 'Countess' });
+    await desktop.update(ada.id, { notes: 'Wrote the first program' });
+    await replicator(laptop).push();
+    await expect(replicator(desktop).push()).rejects.toThrow('pull_store first');
+
+    const second = await replicator(desktop).pull();
+
+    expect(second).toMatchObject({ status: 'merged', changedContacts: 1, conflicts: [] });
+    const merged = await desktop.get(ada.id);
+    expect(merged.nickname).toBe('Countess');
+    expect(merged.notes).toBe('Wrote the first program');
+    expect((await desktop.list()).map(c => c.fullName).sort()).toEqual(['Ada Lovelace', 'Grace Hopper']);
+  });
+
+  it('should queue fields changed differently on both sides for resolve_conflict', async () => {
+    const ada = await laptop.create(makeContact({ fullName: 'Ada Lovelace' }));
+    await replicator(laptop).push();
+    await replicator(desktop).pull();
+
+    await laptop.update(ada.id, { nickname: 'Enchantress of Numbers', notes: 'Analyst' });
+    await desktop.update(ada.id, { nickname: 'Countess' });
+    await replicator(laptop).push();
+
+    const pulled = await replicator(desktop).pull();
+
+    expect(pulled.conflicts).toEqual([`origin-${ada.id}`]);
+    const [conflict] = await new ConflictQueue(desktop.path).list();
+    expect(conflict).toMatchObject({ provider: 'origin', source: 'pull', contactId: ada.id });
+    expect(conflict.conflicts.map(c => c.field)).toEqual(['nickname']);
+    expect(await fs.readFile(path.join(desktop.path, 'contacts', `${ada.id}.vcf`), 'utf-8')).not.toContain('<<<<<<<');
+    expect((await desktop.get(ada.id)).nickname).toBe('Countess');
+
+    const resolved = await resolvePullConflict(desktop, conflict.id, { nickname: 'remote' });
+
+    expect(resolved.nickname).toBe('Enchantress of Numbers');
+    expect(resolved.notes).toBe('Analyst');
+    expect(await new ConflictQueue(desktop.path).list()).toEqual([]);
+    await replicator(desktop).push();
+    await replicator(laptop).pull();
+    expect((await laptop.get(ada.id)).nickname).toBe('Enchantress of Numbers');
+  });
+
+  it('should drop the conflicts it queued when a pull stops on a file it can\'t merge', async () => {
+    const ada = await laptop.create(makeContact({ fullName: 'Ada Lovelace' }));
+    const group = await laptop.createGroup({ name: 'Friends' });
+    await replicator(laptop).push();
+    await replicator(desktop).pull();
+
+    await laptop.update(ada.id, { nickname: 'Enchantress of Numbers' });
+    await laptop.updateGroup(group.id, { name: 'Old Friends' });
+    await desktop.update(ada.id, { nickname: 'Countess' });
+    await desktop.updateGroup(group.id, { name: 'Best Friends' });
+    await replicator(laptop).push();
+
+    await expect(replicator(desktop).pull()).rejects.toThrow('nothing was merged');
+
+    expect(await new ConflictQueue(desktop.path).list()).toEqual([]);
+    expect((await desktop.get(ada.id)).nickname).toBe('Countess');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createTestStore } from '../helpers.js';
+import { SyncScheduler, nextRunTime, validateSchedule } from '../../src/sync/scheduler.js';
+import { RunLog } from '../../src/sync/run-log.js';
+import { BaseProvider } from '../../src/providers/base.js';
+import { createProviderRegistry } from '../../src/providers/registry.js';
+import { createContact } from '../../src/contacts/model.js';
+import { runLogPath } from '../../src/store/file-layout.js';
+import type { GitContactStore } from '../../src/store/git-store.js';
+import type { Contact } from '../../src/types/contact.js';
+import type { ProviderConfig, ScheduledRun } from '../../src/types/provider.js';
+
+/** Provider with one remote contact whose fetches wait until `release` is called. */
+class GatedProvider extends BaseProvider {
+  readonly name = 'gated';
+  readonly type = 'carddav' as const;
+  release!: () => void;
+  private gate = new Promise<void>(resolve => { this.release = resolve; });
+
+  async isConfigured() { return true; }
+  async fetchAll(): Promise<Contact[]> {
+    await this.gate;
+    return [createContact({ fullName: 'Jane Doe', metadata: { created: '', modified: '', providerIds: { gated: 'r1' }, archived: false } })];
+  }
+  async fetchOne() { return null; }
+  async pushContact(contact: Contact) { return { remoteId: contact.id }; }
+  async updateContact(remoteId: string) { return { remoteId }; }
+  async deleteContact() {}
+}
+
+const config: ProviderConfig = {
+  name: 'gated',
+  type: 'carddav',
+  enabled: true,
+  config: {},
+  schedule: { intervalMinutes: 30, direction: 'pull' },
+};
+
+function lastRunAt(date: Date): ScheduledRun {
+  return { startedAt: date.toISOString(), finishedAt: date.toISOString(), status: 'ok', errors: [] };
+}
+
+describe('nextRunTime', () => {
+  const now = new Date(2026, 5, 1, 12, 0);
+
+  it('should run right away without a previous run, or once the interval has passed', () => {
+    expect(nextRunTime({ intervalMinutes: 30 }, null, now)).toEqual(now);
+    expect(nextRunTime({ intervalMinutes: 30 }, lastRunAt(new Date(2026, 5, 1, 11, 0)), now)).toEqual(now);
+    expect(nextRunTime({ intervalMinutes: 30 }, lastRunAt(new Date(2026, 5, 1, 11, 45)), now))
+      .toEqual(new Date(2026, 5, 1, 12, 15));
+  });
+
+  it('should move a run inside quiet hours to their end, across midnight', () => {
+    const schedule = { intervalMinutes: 60, quietHours: '22:00-07:00' };
+
+    expect(nextRunTime(schedule, null, new Date(2026, 5, 1, 23, 10))).toEqual(new Date(2026, 5, 2, 7, 0));
+    expect(nextRunTime(schedule, null, new Date(2026, 5, 2, 6, 59))).toEqual(new Date(2026, 5, 2, 7, 0));
+    expect(nextRunTime(schedule, null, new Date(2026, 5, 2, 7, 0))).toEqual(new Date(2026, 5, 2, 7, 0));
+    expect(nextRunTime({ intervalMinutes: 60, quietHours: '12:00-13:30' }, null, now)).toEqual(new Date(2026, 5, 1, 13, 30));
+  });
+});
+
+describe('validateSchedule', () => {
+  it('should reject schedules the scheduler cannot run', () => {
+    expect(validateSchedule({ intervalMinutes: 15, quietHours: '23:00-06:30' })).toBeNull();
+    expect(validateSchedule({ intervalMinutes: 0 })).toBe('intervalMinutes must be a positive number');
+    expect(validateSchedule({ intervalMinutes: 15, quietHours: '10pm-7am' }))
+      .toBe('quietHours must look like "22:00-07:00", got "10pm-7am"');
+    expect(validateSchedule({ intervalMinutes: 15, direction: 'sideways' as any }))
+      .toBe('direction must be one of pull, push, both');
+  });
+});
+
+describe('SyncScheduler', () => {
+  let store: GitContactStore;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, cleanup } = await createTestStore());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should sync under the store lock, skip an overlapping run, and record both', async () => {
+    const provider = new GatedProvider({});
+    const scheduler = new SyncScheduler(store, [config], () => provider);
+
+    const first = scheduler.run(config);
+    // Wait until the first run holds the lock and is fetching
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const second = await scheduler.run(config);
+    const edit = store.create({ fullName: 'Written meanwhile' });
+    provider.release();
+
+    expect(second.status).toBe('skipped');
+    const run = await first;
+    expect(run.status).toBe('ok');
+    expect(run.result).toMatchObject({ pulled: 1, pushed: 0, review: 0 });
+    await edit;
+
+    const history = await new RunLog(store.path).list('gated');
+    expect(history.map(r => r.status)).toEqual(['skipped', 'ok']);
+    // The edit waited for the sync instead of failing on the lock
+    const [latest] = await store.getHistory(1);
+    expect(latest.commit.message).toContain('Written meanwhile');
+  });
+
+  it('should record a failed run when the provider is unknown', async () => {
+    const scheduler = new SyncScheduler(store, [config], () => null);
+
+    const run = await scheduler.run(config);
+
+    expect(run).toMatchObject({ status: 'failed', errors: ['Unknown provider type: carddav'] });
+    expect(await new RunLog(store.path).last('gated')).toEqual(run);
+  });
+
+  it('should record a failed run when the provider config is invalid', async () => {
+    const registry = createProviderRegistry();
+    const scheduler = new SyncScheduler(store, [config], cfg => registry.create(cfg));
+
+    const run = await scheduler.run(config);
+
+    expect(run.status).toBe('failed');
+    expect(run.errors[0]).toContain('config.serverUrl: Required');
+  });
+
+  it('should still schedule every provider when a run history is unreadable', async () => {
+    const other: ProviderConfig = { ...config, name: 'other', schedule: { intervalMinutes: 30 } };
+    const corrupt = runLogPath(store.path, 'gated');
+    await fs.mkdir(path.dirname(corrupt), { recursive: true });
+    await fs.writeFile(corrupt, '[{"startedAt": "2026-', 'utf-8');
+    const scheduler = new SyncScheduler(store, [config, other], () => null);
+
+    await scheduler.start();
+    // Both are due right away; wait for the runs to be recorded
+    await new Promise(resolve => setTimeout(resolve, 200));
+    scheduler.stop();
+
+    const log = new RunLog(store.path);
+    expect(await log.last('other')).toMatchObject({ status: 'failed' });
+    // The unreadable history was treated as no run yet and started over
+    expect(await log.list('gated')).toEqual([expect.objectContaining({ status: 'failed' })]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { mergeThreeWay, resolveFieldConflicts } from '../../src/sync/three-way.js';
+import { createContact } from '../../src/contacts/model.js';
+import type { Contact } from '../../src/types/contact.js';
+
+const base = createContact({
+  id: 'c1',
+  fullName: 'Jane Doe',
+  emails: [{ value: 'jane@work.com', type: 'work' }, { value: 'jane@home.com', type: 'home' }],
+  phones: [{ value: '+15550001111', type: 'mobile' }],
+  notes: 'Met at conference',
+});
+
+function edit(changes: Partial<Contact>): Contact {
+  return { ...structuredClone(base), ...changes };
+}
+
+describe('mergeThreeWay', () => {
+  it('should keep a remote phone edit and a local note edit', () => {
+    const local = edit({ notes: 'Prefers email' });
+    const remote = edit({ phones: [{ value: '+15550002222', type: 'mobile' }] });
+
+    const merge = mergeThreeWay(base, local, remote);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.localChanges).toEqual(['notes']);
+    expect(merge.remoteChanges).toEqual(['phones']);
+    expect(merge.contact.notes).toBe('Prefers email');
+    expect(merge.contact.phones[0].value).toBe('+15550002222');
+  });
+
+  it('should merge list edits to different elements', () => {
+    const local = edit({ emails: [...base.emails, { value: 'jane@new.com' }] });
+    const remote = edit({ emails: [{ value: 'jane@work.com', type: 'work' }] });
+
+    const merge = mergeThreeWay(base, local, remote);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.contact.emails.map(e => e.value)).toEqual(['jane@work.com', 'jane@new.com']);
+  });
+
+  it('should report a conflict only when both sides changed the same field differently', () => {
+    const local = edit({ notes: 'Local note' });
+    const remote = edit({ notes: 'Remote note', fullName: 'Jane Smith' });
+
+    const merge = mergeThreeWay(base, local, remote);
+
+    expect(merge.conflicts).toEqual([
+      { field: 'notes', base: 'Met at conference', local: 'Local note', remote: 'Remote note' },
+    ]);
+    expect(merge.contact.fullName).toBe('Jane Smith');
+    expect(merge.contact.notes).toBe('Local note');
+    expect(resolveFieldConflicts(merge, 'remote').notes).toBe('Remote note');
+  });
+
+  it('should resolve conflicting list elements without losing the other merged elements', () => {
+    const local = edit({
+      emails: [{ value: 'jane@work.com', type: 'other' }, base.emails[1], { value: 'jane@new.com' }],
+    });
+    const remote = edit({ emails: [{ value: 'jane@work.com', type: 'home' }, base.emails[1]] });
+
+    const merge = mergeThreeWay(base, local, remote);
+    expect(merge.conflicts.map(c => c.field)).toEqual(['emails']);
+
+    const resolved = resolveFieldConflicts(merge, 'remote');
+    expect(resolved.emails).toEqual([
+      { value: 'jane@work.com', type: 'home' },
+      { value: 'jane@home.com', type: 'home' },
+      { value: 'jane@new.com' },
+    ]);
+  });
+
+  it('should ignore remote differences outside the provider fields', () => {
+    const local = edit({ categories: ['friends'] });
+    const remote = edit({ categories: [], notes: 'Remote note' });
+
+    const merge = mergeThreeWay(base, local, remote, ['notes', 'phones']);
+
+    expect(merge.remoteChanges).toEqual(['notes']);
+    expect(merge.contact.categories).toEqual(['friends']);
+    expect(merge.contact.notes).toBe('Remote note');
+  });
+});
@@ -85,12 +85,12 @@ describe('MCP Integration', () => {
     expect(initResp.result.capabilities.resources).toBeTruthy();
   });
 
-  it('should list all 13 tools', async () => {
+  it('should list all 26 tools', async () => {
     const id = send('tools/list');
     const resp = await waitForResponse(id);
 
     const toolNames = resp.result.tools.map((t: any) => t.name);
-    expect(toolNames).toHaveLength(13);
+    expect(toolNames).toHaveLength(26);
     expect(toolNames).toContain('search_contacts');
     expect(toolNames).toContain('get_contact');
     expect(toolNames).toContain('create_contact');
@@ -101,9 +101,22 @@ describe('MCP Integration', () => {
     expect(toolNames).toContain('import_contacts');
     expect(toolNames).toContain('export_contacts');
     expect(toolNames).toContain('sync_provider');
+    expect(toolNames).toContain('plan_sync');
+    expect(toolNames).toContain('apply_sync_plan');
+    expect(toolNames).toContain('resolve_conflict');
     expect(toolNames).toContain('list_providers');
     expect(toolNames).toContain('rollback');
     expect(toolNames).toContain('history');
+    expect(toolNames).toContain('link_contacts');
+    expect(toolNames).toContain('unlink_contacts');
+    expect(toolNames).toContain('related_contacts');
+    expect(toolNames).toContain('list_groups');
+    expect(toolNames).toContain('create_group');
+    expect(toolNames).toContain('update_group');
+    expect(toolNames).toContain('delete_group');
+    expect(toolNames).toContain('update_group_members');
+    expect(toolNames).toContain('push_store');
+    expect(toolNames).toContain('pull_store');
   });
 
   it('should list resources', async () => {
@@ -114,6 +127,7 @@ describe('MCP Integration', () => {
     expect(uris).toContain('contacts://all');
     expect(uris).toContain('contacts://duplicates');
     expect(uris).toContain('contacts://history');
+    expect(uris).toContain('contacts://conflicts');
   });
 
   let createdId: string;
@@ -199,6 +213,21 @@ describe('MCP Integration', () => {
     expect(ops).toContain('update');
   });
 
+  it('should create a group and read it as a resource', async () => {
+    const createId = send('tools/call', {
+      name: 'create_group',
+      arguments: { name: 'Testers', memberIds: [createdId] },
+    });
+    const group = JSON.parse((await waitForResponse(createId)).result.content[0].text);
+    expect(group.memberCount).toBe(1);
+
+    const readId = send('resources/read', { uri: `contacts://groups/${group.id}` });
+    const resp = await waitForResponse(readId);
+    const detail = JSON.parse(resp.result.contents[0].text);
+    expect(detail.name).toBe('Testers');
+    expect(detail.members[0].fullName).toBe('Integration Test User');
+  });
+
   it('should find duplicates when similar contacts exist', async () => {
     // Create a duplicate
     const createId = send('tools/call', {